@@ -0,0 +1,57 @@
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { afterEach, describe, expect, it } from "vitest";
+import {
+  MANIFEST_VERSION,
+  validateManifest,
+} from "../src/engine/assetManifest";
+import type { VswapFile } from "../src/engine/vswap";
+import { Converter } from "./converter";
+
+/** One opaque pixel in column 0: left, right, column offset, post, end */
+const DOT = new Uint8Array([0, 0, 0, 0, 6, 0, 2, 0, 14, 0, 0, 0, 0, 0, 15]);
+
+/** Wall 0 and the given sprites; every other chunk is empty */
+function vswapWith(sprites: number[]): VswapFile {
+  const spriteStart = 10;
+  const soundStart = spriteStart + 437;
+  const chunks: (Uint8Array | null)[] = new Array(soundStart).fill(null);
+  chunks[0] = new Uint8Array(64 * 64).fill(15);
+  for (const n of sprites) chunks[spriteStart + n] = DOT;
+  return { chunks, spriteStart, soundStart };
+}
+
+const range = (start: number, count: number): number[] =>
+  Array.from({ length: count }, (_, i) => start + i);
+
+describe("Converter", () => {
+  let out = "";
+  afterEach(() => rmSync(out, { recursive: true, force: true }));
+
+  it("lists rotations only for frames that have all eight", async () => {
+    out = mkdtempSync(join(tmpdir(), "wolf3d-convert-"));
+    // Guard frame a (50-57) lacks rotation 4; frame b (58-65) is complete
+    const converter = new Converter(out);
+    await converter.convertVswap(
+      vswapWith([...range(50, 3), ...range(54, 4), ...range(58, 8)]),
+    );
+
+    const manifest = validateManifest({
+      version: MANIFEST_VERSION,
+      source: "test",
+      textures: converter.textures,
+    });
+    const guard = manifest.textures.filter((t) => t.name === "guard");
+    expect(guard.map((t) => [t.sprite, t.rotations?.length])).toEqual([
+      [50, undefined],
+      [58, 8],
+    ]);
+    expect(converter.missing).toContain("guard a4 (sprite 53)");
+    expect(manifest.textures.find((t) => t.category === "wall")).toMatchObject({
+      index: 0,
+      width: 64,
+      height: 64,
+    });
+  });
+});
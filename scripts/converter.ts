@@ -0,0 +1,194 @@
+/**
+ * Turns the original Wolf3D data files into PNGs under an output directory
+ * and the texture entries of their manifest.json, for convert-assets.ts.
+ */
+
+import sharp from "sharp";
+import { mkdirSync, readdirSync } from "fs";
+import { dirname, join } from "path";
+import { GAMEPAL, paletteToABGR } from "../src/engine/palette";
+import {
+  decodeWall,
+  decodeSprite,
+  ENEMY_SPRITES,
+  STATIC_SPRITE_START,
+  NUM_STATIC_SPRITES,
+  WEAPON_SPRITE_START,
+  WEAPON_NAMES,
+  WEAPON_FRAMES,
+  DOOR_PAGES,
+  DOOR_OFFSETS,
+} from "../src/engine/vswap";
+import type { VswapFile } from "../src/engine/vswap";
+import { parseVgaGraph, decodePic } from "../src/engine/vgagraph";
+import type { TextureEntry } from "../src/engine/assetManifest";
+
+const PAGE_SIZE = 64;
+
+// ============================================================
+// Helpers
+// ============================================================
+
+/** Find a file in a directory ignoring case, as DOS names vary */
+export function findFile(dir: string, name: string): string | null {
+  const match = readdirSync(dir).find(
+    (f) => f.toUpperCase() === name.toUpperCase(),
+  );
+  return match ? join(dir, match) : null;
+}
+
+async function writePng(
+  path: string,
+  abgr: Uint32Array,
+  width: number,
+  height: number,
+): Promise<void> {
+  mkdirSync(dirname(path), { recursive: true });
+  // ABGR words are RGBA bytes in little-endian memory
+  const rgba = new Uint8Array(abgr.buffer, abgr.byteOffset, abgr.byteLength);
+  await sharp(rgba, { raw: { width, height, channels: 4 } })
+    .png()
+    .toFile(path);
+}
+
+// ============================================================
+// Conversion
+// ============================================================
+
+export class Converter {
+  readonly textures: TextureEntry[] = [];
+  readonly missing: string[] = [];
+  private colors = paletteToABGR(GAMEPAL);
+
+  constructor(private out: string) {}
+
+  /** Write one texture and record it, or note it as missing. */
+  async add(
+    entry: Omit<TextureEntry, "width" | "height">,
+    pixels: Uint32Array | null,
+    what: string,
+    width = PAGE_SIZE,
+    height = PAGE_SIZE,
+  ): Promise<void> {
+    if (!pixels) {
+      this.missing.push(what);
+      return;
+    }
+    await writePng(join(this.out, entry.file), pixels, width, height);
+    this.textures.push({ ...entry, width, height });
+  }
+
+  async convertVswap(vswap: VswapFile): Promise<void> {
+    const page = (n: number): Uint32Array | null => {
+      const chunk = n < vswap.spriteStart ? vswap.chunks[n] : null;
+      return chunk ? decodeWall(chunk, this.colors) : null;
+    };
+    const sprite = (n: number): Uint32Array | null => {
+      const i = vswap.spriteStart + n;
+      const chunk = i < vswap.soundStart ? vswap.chunks[i] : null;
+      return chunk ? decodeSprite(chunk, this.colors) : null;
+    };
+
+    // Walls: the lit page of each wall tile (the dark one follows it)
+    const doorwall = vswap.spriteStart - DOOR_PAGES;
+    for (let i = 0; i * 2 < doorwall; i++) {
+      await this.add(
+        { category: "wall", index: i, file: `walls/wall_${i}.png` },
+        page(i * 2),
+        `wall ${i} (chunk ${i * 2})`,
+      );
+    }
+
+    for (const [i, offset] of DOOR_OFFSETS.entries()) {
+      await this.add(
+        { category: "door", index: i, file: `walls/door_${i}.png` },
+        page(doorwall + offset),
+        `door ${i} (chunk ${doorwall + offset})`,
+      );
+    }
+
+    // Enemies: frames a, b, c...; rotated ones also as a2..a8
+    for (const [name, set] of Object.entries(ENEMY_SPRITES)) {
+      const frames = [...set.rotated, ...set.single];
+      for (const [i, first] of frames.entries()) {
+        const letter = String.fromCharCode(97 + i);
+        const file = `enemies/${name}/${letter}.png`;
+        let rotations: string[] | undefined;
+        if (i < set.rotated.length) {
+          // Rotations 2-8 are only listed if all of them are there, as the
+          // manifest takes all eight or none; rotation 1 is the frame itself
+          const turned = [1, 2, 3, 4, 5, 6, 7].map((r) => sprite(first + r));
+          for (const [r, pixels] of turned.entries()) {
+            if (!pixels) {
+              this.missing.push(
+                `${name} ${letter}${r + 2} (sprite ${first + r + 1})`,
+              );
+            }
+          }
+          if (turned.every((pixels) => pixels) && sprite(first)) {
+            rotations = [file];
+            for (const [r, pixels] of turned.entries()) {
+              const rotFile = `enemies/${name}/${letter}${r + 2}.png`;
+              await writePng(
+                join(this.out, rotFile),
+                pixels!,
+                PAGE_SIZE,
+                PAGE_SIZE,
+              );
+              rotations.push(rotFile);
+            }
+          }
+        }
+        await this.add(
+          { category: "enemy", name, index: i, file, rotations, sprite: first },
+          sprite(first),
+          `${name} ${letter} (sprite ${first})`,
+        );
+      }
+    }
+
+    for (let i = 0; i < NUM_STATIC_SPRITES; i++) {
+      const n = STATIC_SPRITE_START + i;
+      await this.add(
+        {
+          category: "static",
+          index: i,
+          file: `statics/stat_${i}.png`,
+          sprite: n,
+        },
+        sprite(n),
+        `static ${i} (sprite ${n})`,
+      );
+    }
+
+    for (const [w, name] of WEAPON_NAMES.entries()) {
+      for (let f = 0; f < WEAPON_FRAMES; f++) {
+        const n = WEAPON_SPRITE_START + w * WEAPON_FRAMES + f;
+        await this.add(
+          {
+            category: "weapon",
+            name,
+            index: f,
+            file: `weapons/${name}_${f}.png`,
+            sprite: n,
+          },
+          sprite(n),
+          `${name} frame ${f} (sprite ${n})`,
+        );
+      }
+    }
+  }
+
+  async convertPics(head: Uint8Array, dict: Uint8Array, graph: Uint8Array) {
+    const { pics } = parseVgaGraph(head, dict, graph);
+    for (const [i, pic] of pics.entries()) {
+      await this.add(
+        { category: "pic", index: i, file: `pics/pic_${i}.png` },
+        pic && decodePic(pic, this.colors),
+        `picture ${i}`,
+        pic?.width,
+        pic?.height,
+      );
+    }
+  }
+}
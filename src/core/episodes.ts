@@ -0,0 +1,428 @@
+/**
+ * Wolfenstein 3D TypeScript Port - Episodes
+ * The six episodes of Wolfenstein 3D and The Nocturnal Missions
+ *
+ * Each episode has its own floor table (the generator's LevelParams), a wall
+ * theme, a boss guarding the last floor, a secret floor reached by the secret
+ * elevator on one of its floors, and an ending shown when it is completed.
+ */
+
+// ============================================================
+// Level Parameters
+// ============================================================
+
+/** Difficulty ramp per level: controls enemy counts, pickups, etc. */
+export interface LevelParams {
+  name: string;
+  minRooms: number;
+  maxRooms: number;
+  minRoomSize: number;
+  maxRoomSize: number;
+  enemyDensity: number; // approximate enemies per room
+  pickupDensity: number; // approximate pickups per room
+  corridorWidth: number;
+  hasGoldKeyDoor: boolean;
+  hasSilverKeyDoor: boolean;
+  secretRooms: number;
+  par: number; // par time in seconds, 0 for none (boss and secret floors)
+  music: string; // track name (see engine/tracks.ts)
+}
+
+/** Episode 1's floors, the original generator's ramp the others build on. */
+const ESCAPE_FLOORS: LevelParams[] = [
+  {
+    name: "Escape!",
+    minRooms: 5,
+    maxRooms: 7,
+    minRoomSize: 5,
+    maxRoomSize: 10,
+    enemyDensity: 1.0,
+    pickupDensity: 1.2,
+    corridorWidth: 2,
+    hasGoldKeyDoor: false,
+    hasSilverKeyDoor: false,
+    secretRooms: 0,
+    par: 90,
+    music: "corridors",
+  },
+  {
+    name: "The Dungeons",
+    minRooms: 6,
+    maxRooms: 9,
+    minRoomSize: 4,
+    maxRoomSize: 10,
+    enemyDensity: 1.5,
+    pickupDensity: 1.0,
+    corridorWidth: 2,
+    hasGoldKeyDoor: true,
+    hasSilverKeyDoor: false,
+    secretRooms: 1,
+    par: 120,
+    music: "hunt",
+  },
+  {
+    name: "Castle Hollehammer",
+    minRooms: 7,
+    maxRooms: 10,
+    minRoomSize: 4,
+    maxRoomSize: 11,
+    enemyDensity: 2.0,
+    pickupDensity: 1.0,
+    corridorWidth: 2,
+    hasGoldKeyDoor: true,
+    hasSilverKeyDoor: false,
+    secretRooms: 1,
+    par: 120,
+    music: "corridors",
+  },
+  {
+    name: "Tomb of the Dead",
+    minRooms: 7,
+    maxRooms: 11,
+    minRoomSize: 4,
+    maxRoomSize: 12,
+    enemyDensity: 2.5,
+    pickupDensity: 1.0,
+    corridorWidth: 2,
+    hasGoldKeyDoor: true,
+    hasSilverKeyDoor: true,
+    secretRooms: 1,
+    par: 210,
+    music: "bunker",
+  },
+  {
+    name: "Tunnels",
+    minRooms: 8,
+    maxRooms: 12,
+    minRoomSize: 4,
+    maxRoomSize: 10,
+    enemyDensity: 3.0,
+    pickupDensity: 1.2,
+    corridorWidth: 2,
+    hasGoldKeyDoor: true,
+    hasSilverKeyDoor: true,
+    secretRooms: 1,
+    par: 180,
+    music: "hunt",
+  },
+  {
+    name: "Command Center",
+    minRooms: 8,
+    maxRooms: 13,
+    minRoomSize: 4,
+    maxRoomSize: 12,
+    enemyDensity: 3.0,
+    pickupDensity: 1.0,
+    corridorWidth: 2,
+    hasGoldKeyDoor: true,
+    hasSilverKeyDoor: true,
+    secretRooms: 2,
+    par: 180,
+    music: "bunker",
+  },
+  {
+    name: "The Arsenal",
+    minRooms: 9,
+    maxRooms: 14,
+    minRoomSize: 4,
+    maxRoomSize: 12,
+    enemyDensity: 3.5,
+    pickupDensity: 1.5,
+    corridorWidth: 2,
+    hasGoldKeyDoor: true,
+    hasSilverKeyDoor: true,
+    secretRooms: 2,
+    par: 150,
+    music: "corridors",
+  },
+  {
+    name: "Barracks",
+    minRooms: 9,
+    maxRooms: 14,
+    minRoomSize: 4,
+    maxRoomSize: 12,
+    enemyDensity: 4.0,
+    pickupDensity: 1.0,
+    corridorWidth: 2,
+    hasGoldKeyDoor: true,
+    hasSilverKeyDoor: true,
+    secretRooms: 2,
+    par: 150,
+    music: "hunt",
+  },
+  {
+    name: "The Gauntlet",
+    minRooms: 10,
+    maxRooms: 15,
+    minRoomSize: 4,
+    maxRoomSize: 12,
+    enemyDensity: 4.5,
+    pickupDensity: 1.0,
+    corridorWidth: 2,
+    hasGoldKeyDoor: true,
+    hasSilverKeyDoor: true,
+    secretRooms: 2,
+    par: 180,
+    music: "bunker",
+  },
+  {
+    name: "Castle Wolfenstein",
+    minRooms: 10,
+    maxRooms: 16,
+    minRoomSize: 4,
+    maxRoomSize: 12,
+    enemyDensity: 5.0,
+    pickupDensity: 1.2,
+    corridorWidth: 2,
+    hasGoldKeyDoor: true,
+    hasSilverKeyDoor: true,
+    secretRooms: 3,
+    par: 0,
+    music: "boss",
+  },
+];
+
+/**
+ * Build an episode's floor table from episode 1's ramp: same layouts and
+ * keys, with toughness extra enemies per room on every floor.
+ */
+function rampFloors(names: string[], toughness: number): LevelParams[] {
+  return ESCAPE_FLOORS.map((floor, i) => ({
+    ...floor,
+    name: names[i],
+    enemyDensity: floor.enemyDensity + toughness,
+  }));
+}
+
+/** A secret floor: a large, treasure-heavy floor full of hidden rooms. */
+function secretFloor(name: string, enemyDensity: number): LevelParams {
+  return {
+    name,
+    minRooms: 8,
+    maxRooms: 12,
+    minRoomSize: 5,
+    maxRoomSize: 10,
+    enemyDensity,
+    pickupDensity: 2.5,
+    corridorWidth: 1,
+    hasGoldKeyDoor: true,
+    hasSilverKeyDoor: false,
+    secretRooms: 4,
+    par: 0,
+    music: "secret",
+  };
+}
+
+// ============================================================
+// Episodes
+// ============================================================
+
+export interface Episode {
+  name: string;
+  /** Floors in order; the last one is the boss floor */
+  floors: LevelParams[];
+  /** Wall texture numbers (1-8) the episode is built from */
+  theme: number[];
+  /** Object code of the boss placed on the last floor (see actors.ts) */
+  boss: number;
+  /** Floor index whose secret elevator leads to the secret floor */
+  secretFrom: number;
+  /** The secret floor, or null for the Pac-Man maze */
+  secretFloor: LevelParams | null;
+  /** Text shown when the episode is completed */
+  ending: string[];
+}
+
+export const EPISODES: Episode[] = [
+  {
+    name: "Escape from Wolfenstein",
+    floors: ESCAPE_FLOORS,
+    theme: [1, 2, 3, 4],
+    boss: 63, // Hans Grosse
+    secretFrom: 0,
+    secretFloor: secretFloor("Secret Cellar", 1.5),
+    ending: [
+      "HANS GROSSE IS DEAD.",
+      "YOU FLEE CASTLE WOLFENSTEIN",
+      "WITH THE PLANS FOR",
+      "OPERATION EISENFAUST.",
+    ],
+  },
+  {
+    name: "Operation: Eisenfaust",
+    floors: rampFloors(
+      [
+        "Lab Entrance",
+        "Holding Cells",
+        "Research Wing",
+        "Mutant Pens",
+        "Storage Vaults",
+        "Surgery",
+        "Genetics Lab",
+        "Incubators",
+        "Specimen Halls",
+        "Schabbs' Laboratory",
+      ],
+      0.5,
+    ),
+    theme: [8, 4, 2],
+    boss: 67, // Dr. Schabbs
+    secretFrom: 0,
+    secretFloor: secretFloor("Sealed Ward", 2),
+    ending: [
+      "DR. SCHABBS IS DEAD AND",
+      "HIS UNDEAD ARMY WITH HIM.",
+      "NOW FOR THE MAN",
+      "WHO PAID FOR IT.",
+    ],
+  },
+  {
+    name: "Die, Fuhrer, Die!",
+    floors: rampFloors(
+      [
+        "Bunker Gates",
+        "Guard Posts",
+        "Officers' Mess",
+        "Signal Room",
+        "Map Room",
+        "Motor Pool",
+        "Reichstag Tunnels",
+        "Chancellery",
+        "The Inner Bunker",
+        "The Fuhrerbunker",
+      ],
+      1,
+    ),
+    theme: [7, 4, 1, 8],
+    boss: 112, // Mecha Hitler
+    secretFrom: 6,
+    secretFloor: null, // the Pac-Man maze
+    ending: ["HITLER IS DEAD.", "THE WAR IN EUROPE", "IS ALL BUT OVER."],
+  },
+  {
+    name: "A Dark Secret",
+    floors: rampFloors(
+      [
+        "Storehouse",
+        "Rail Yard",
+        "Chemical Stores",
+        "Test Range",
+        "Pump Station",
+        "Weapons Shop",
+        "Proving Grounds",
+        "Gas Works",
+        "Rocket Silo",
+        "Giftmacher's Lair",
+      ],
+      0.5,
+    ),
+    theme: [1, 6, 5],
+    boss: 104, // Otto Giftmacher
+    secretFrom: 2,
+    secretFloor: secretFloor("Hidden Depot", 2),
+    ending: [
+      "OTTO GIFTMACHER IS DEAD",
+      "AND THE CHEMICAL WAR",
+      "WILL NEVER BE FOUGHT.",
+    ],
+  },
+  {
+    name: "Trail of the Madman",
+    floors: rampFloors(
+      [
+        "Castle Gate",
+        "Courtyard",
+        "Great Hall",
+        "Chapel",
+        "Library",
+        "Armory",
+        "Catacombs",
+        "Keep",
+        "Battlements",
+        "Castle Erlangen",
+      ],
+      1,
+    ),
+    theme: [3, 6, 7],
+    boss: 100, // Gretel Grosse
+    secretFrom: 4,
+    secretFloor: secretFloor("Vault of Maps", 2.5),
+    ending: [
+      "GRETEL GROSSE HAS FALLEN.",
+      "THE MAPS TO THE CHEMICAL",
+      "WAR ARE YOURS.",
+    ],
+  },
+  {
+    name: "Confrontation",
+    floors: rampFloors(
+      [
+        "Outer Walls",
+        "Garrison",
+        "War Room",
+        "Barracks",
+        "Cellblock",
+        "Depot",
+        "Gallery",
+        "Ramparts",
+        "The Long Hall",
+        "Fettgesicht's Fortress",
+      ],
+      1.5,
+    ),
+    theme: [7, 8, 5, 4],
+    boss: 108, // General Fettgesicht
+    secretFrom: 2,
+    secretFloor: secretFloor("Officers' Retreat", 3),
+    ending: [
+      "GENERAL FETTGESICHT IS DEAD.",
+      "THE GIANT-MUTANT WAR",
+      "ENDS BEFORE IT BEGINS.",
+      "YOU ARE A HERO.",
+    ],
+  },
+];
+
+/**
+ * Par time in seconds for a floor of an episode (or its secret floor), or 0
+ * if it has none.
+ */
+export function getParTime(
+  episode: number,
+  floor: number,
+  secret: boolean,
+): number {
+  return floorParams(episode, floor, secret)?.par ?? 0;
+}
+
+/**
+ * Music track for a floor of an episode (or its secret floor).
+ */
+export function getFloorMusic(
+  episode: number,
+  floor: number,
+  secret: boolean,
+): string {
+  return floorParams(episode, floor, secret)?.music ?? PACMAN_MUSIC;
+}
+
+/** The Pac-Man maze has no LevelParams but still gets the secret tune. */
+const PACMAN_MUSIC = "secret";
+
+/** A floor's parameters, or null for the Pac-Man maze. */
+function floorParams(
+  episode: number,
+  floor: number,
+  secret: boolean,
+): LevelParams | null {
+  const ep = getEpisode(episode);
+  if (secret) return ep.secretFloor;
+  return ep.floors[Math.max(0, Math.min(floor, ep.floors.length - 1))];
+}
+
+/**
+ * The episode with the given index (clamped to the six that exist).
+ */
+export function getEpisode(episode: number): Episode {
+  return EPISODES[Math.max(0, Math.min(episode, EPISODES.length - 1))];
+}
@@ -0,0 +1,189 @@
+import { describe, expect, it } from "vitest";
+import {
+  NUMMAPS,
+  carmackExpand,
+  loadMap,
+  parseMapHead,
+  rlewExpand,
+} from "./gamemaps";
+import {
+  AREATILE,
+  GD_BABY,
+  GD_HARD,
+  GD_MEDIUM,
+  MAPSIZE,
+  PUSHABLETILE,
+  STATICTILE,
+  tileIndex,
+} from "./types";
+
+const TAG = 0xabcd;
+
+/** RLEW-compress words: runs of three or more, and any tag word, as runs */
+function rlew(words: number[]): Uint16Array {
+  const out = [words.length * 2];
+  for (let i = 0; i < words.length; ) {
+    let n = 1;
+    while (words[i + n] === words[i]) n++;
+    if (n >= 3 || words[i] === TAG) out.push(TAG, n, words[i]);
+    else out.push(...words.slice(i, i + n));
+    i += n;
+  }
+  return Uint16Array.from(out);
+}
+
+/** Carmack-"compress" words as literals, escaping those that look like tags */
+function carmack(words: Uint16Array): Uint8Array {
+  const out = [(words.length * 2) & 0xff, (words.length * 2) >> 8];
+  for (const word of words) {
+    const high = word >> 8;
+    if (high === 0xa7 || high === 0xa8) out.push(0, high, word & 0xff);
+    else out.push(word & 0xff, high);
+  }
+  return Uint8Array.from(out);
+}
+
+/**
+ * A MAPHEAD/GAMEMAPS pair holding one map in slot 0: open floor, with the
+ * given original objects (plane 1) and plane 0 tiles dropped on top.
+ */
+function mapFiles(
+  objects: Record<number, number>,
+  tiles: Record<number, number> = {},
+): { head: Uint8Array; gamemaps: Uint8Array } {
+  const plane0 = new Array<number>(MAPSIZE * MAPSIZE).fill(AREATILE + 1);
+  const plane1 = new Array<number>(MAPSIZE * MAPSIZE).fill(0);
+  for (const [idx, tile] of Object.entries(tiles)) plane0[+idx] = tile;
+  for (const [idx, value] of Object.entries(objects)) plane1[+idx] = value;
+  const planes = [plane0, plane1, plane1.map(() => 0)].map((p) =>
+    carmack(rlew(p)),
+  );
+
+  const headerAt = planes.reduce((n, p) => n + p.length, 0);
+  const gamemaps = new Uint8Array(headerAt + 38);
+  const view = new DataView(gamemaps.buffer);
+  let start = 0;
+  planes.forEach((p, i) => {
+    gamemaps.set(p, start);
+    view.setUint32(headerAt + i * 4, start, true);
+    view.setUint16(headerAt + 12 + i * 2, p.length, true);
+    start += p.length;
+  });
+  view.setUint16(headerAt + 18, MAPSIZE, true);
+  view.setUint16(headerAt + 20, MAPSIZE, true);
+  gamemaps.set([..."Test Map"].map((c) => c.charCodeAt(0)), headerAt + 22);
+
+  const head = new Uint8Array(2 + NUMMAPS * 4);
+  new DataView(head.buffer).setUint16(0, TAG, true);
+  new DataView(head.buffer).setUint32(2, headerAt, true);
+  return { head, gamemaps };
+}
+
+/** What original objects translate to at a given skill, by value */
+function translate(values: number[], difficulty: number): number[] {
+  const objects = Object.fromEntries(values.map((v, i) => [i, v]));
+  const { head, gamemaps } = mapFiles(objects);
+  const map = loadMap(parseMapHead(head), gamemaps, 0, difficulty);
+  return values.map((_, i) => map.objects[i]);
+}
+
+describe("carmackExpand", () => {
+  it("copies near and far back-references", () => {
+    // 1 2 3, then 3 words from 3 back, then 2 words from offset 1
+    const src = Uint8Array.from([
+      16, 0, 1, 0, 2, 0, 3, 0, 3, 0xa7, 3, 2, 0xa8, 1, 0,
+    ]);
+    expect([...carmackExpand(src)]).toEqual([1, 2, 3, 1, 2, 3, 2, 3]);
+  });
+
+  it("round-trips words that look like tags", () => {
+    const words = Uint16Array.from([0xa712, 0xa800, 0x1234, 0xa7ff]);
+    expect(carmackExpand(carmack(words))).toEqual(words);
+  });
+
+  it("throws on truncated data", () => {
+    expect(() => carmackExpand(new Uint8Array(1))).toThrow(/truncated/);
+    expect(() => carmackExpand(Uint8Array.from([4, 0, 1, 0]))).toThrow(
+      /truncated/,
+    );
+    expect(() =>
+      carmackExpand(Uint8Array.from([4, 0, 1, 0, 0, 0xa7])),
+    ).toThrow(/truncated/);
+  });
+
+  it("throws on copies from outside what is expanded so far", () => {
+    const near = Uint8Array.from([6, 0, 1, 0, 2, 0xa7, 5]);
+    const far = Uint8Array.from([6, 0, 1, 0, 2, 0xa8, 1, 0]);
+    const long = Uint8Array.from([6, 0, 1, 0, 2, 0, 9, 0xa7, 2]);
+    for (const src of [near, far, long]) {
+      expect(() => carmackExpand(src)).toThrow(/copy out of range/);
+    }
+  });
+});
+
+describe("rlewExpand", () => {
+  it("round-trips runs, single words and the tag itself", () => {
+    const words = [1, 7, 7, 7, 7, 2, TAG, 3, 3, 0, 0, 0];
+    expect([...rlewExpand(rlew(words), TAG)]).toEqual(words);
+  });
+
+  it("throws on truncated data", () => {
+    expect(() => rlewExpand(new Uint16Array(0), TAG)).toThrow(/truncated/);
+    expect(() => rlewExpand(Uint16Array.from([4, 1]), TAG)).toThrow(
+      /truncated/,
+    );
+    expect(() => rlewExpand(Uint16Array.from([4, TAG, 2]), TAG)).toThrow(
+      /truncated/,
+    );
+  });
+
+  it("throws on runs past the expanded size", () => {
+    expect(() => rlewExpand(Uint16Array.from([4, TAG, 3, 1]), TAG)).toThrow(
+      /run out of range/,
+    );
+  });
+});
+
+describe("loadMap", () => {
+  it("reads the map back from compressed planes", () => {
+    const { head, gamemaps } = mapFiles({ [tileIndex(5, 6)]: 98 });
+    const map = loadMap(parseMapHead(head), gamemaps, 0, GD_HARD);
+    expect(map.name).toBe("Test Map");
+    expect(map.walls[tileIndex(5, 6)]).toBe(PUSHABLETILE);
+    expect(map.areas[tileIndex(1, 1)]).toBe(AREATILE + 1);
+  });
+
+  it("translates statics to ours, dropping what we have nothing like", () => {
+    // Puddle, table and chairs, bed, dead guard
+    expect(translate([23, 25, 45, 124], GD_BABY)).toEqual([
+      47 + 29,
+      STATICTILE + 2,
+      0,
+      STATICTILE,
+    ]);
+  });
+
+  it("spawns each enemy tier from its skill up", () => {
+    // Guard standing east, north from medium, patrolling south on hard
+    const guards = [108, 145, 187];
+    expect(translate(guards, GD_BABY)).toEqual([24, 0, 0]);
+    expect(translate(guards, GD_MEDIUM)).toEqual([24, 23, 0]);
+    expect(translate(guards, GD_HARD)).toEqual([24, 23, 29]);
+    // A dog standing and a mutant patrolling east, and Hans Grosse (who
+    // always faces south), on any skill
+    expect(translate([134, 216, 214], GD_BABY)).toEqual([40, 44, 65]);
+  });
+
+  it("marks standing enemies on ambush tiles as ambushing", () => {
+    const stand = tileIndex(2, 2);
+    const patrol = tileIndex(3, 2);
+    const { head, gamemaps } = mapFiles(
+      { [stand]: 108, [patrol]: 112 },
+      { [stand]: 106, [patrol]: 106 },
+    );
+    const map = loadMap(parseMapHead(head), gamemaps, 0, GD_BABY);
+    expect(map.objects[stand]).toBe(24 + 157);
+    expect(map.objects[patrol]).toBe(28);
+    expect(map.areas[stand]).toBe(AREATILE + 1);
+  });
+});
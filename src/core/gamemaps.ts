@@ -0,0 +1,512 @@
+/**
+ * Wolfenstein 3D TypeScript Port - Original Map Loader
+ * Ported from CA_LoadAllMaps / CA_CacheMap (ID_CA.C) and ScanInfoPlane (WL_GAME.C)
+ *
+ * Reads the MAPHEAD + GAMEMAPS pair shipped with Wolfenstein 3D (.WL1 for the
+ * shareware episode, .WL6 for the registered six) or Spear of Destiny, and
+ * turns a map into the same MapData the generator produces, so setupLevel
+ * plays it unchanged with the procedural textures.
+ *
+ * MAPHEAD is the RLEW tag word followed by 100 little-endian offsets into
+ * GAMEMAPS (0 or 0xFFFFFFFF for an empty slot). Each offset points at a
+ * header: three plane offsets, three plane lengths, width, height and a
+ * 16-byte name. Every plane is Carmack-compressed, then RLEW-compressed.
+ *
+ * Plane 0 holds walls, doors and floor area numbers exactly as our walls and
+ * areas planes expect. Plane 1 uses the original's object numbering, which is
+ * translated here: original statics and enemies live in different ranges
+ * than ours, and enemies come in three skill tiers.
+ */
+
+import {
+  MAPSIZE,
+  AREATILE,
+  PUSHABLETILE,
+  ELEVATORTILE,
+  SECRETEXITTILE,
+  STATICTILE,
+  GD_MEDIUM,
+  GD_HARD,
+  MapData,
+  createMapData,
+  tileIndex,
+} from "./types";
+
+// ============================================================
+// File layout
+// ============================================================
+
+/** Map slots in MAPHEAD */
+export const NUMMAPS = 100;
+/** Map header size in GAMEMAPS */
+const MAP_HEADER_SIZE = 38;
+
+/** Carmack compression tags (high byte of a word) */
+const NEARTAG = 0xa7;
+const FARTAG = 0xa8;
+
+export interface MapHead {
+  /** RLEW run marker, 0xABCD in every id game */
+  rlewTag: number;
+  /** GAMEMAPS offset of each map's header, or -1 for an empty slot */
+  offsets: number[];
+}
+
+export interface MapListing {
+  /** MAPHEAD slot */
+  index: number;
+  /** Episode (0-based) and floor within it, as the game counts them */
+  episode: number;
+  floor: number;
+  name: string;
+  width: number;
+  height: number;
+}
+
+export type MapEdition = "shareware" | "registered" | "spear" | "unknown";
+
+// ============================================================
+// Decompression
+// ============================================================
+
+/**
+ * Undo Carmack compression. The first word is the expanded size in bytes;
+ * after it, words pass through except those tagged 0xA7 (copy `count` words
+ * from a byte-sized distance back) or 0xA8 (copy from an absolute word
+ * offset). A tag with a count of 0 escapes a literal word with that high byte.
+ */
+export function carmackExpand(src: Uint8Array): Uint16Array {
+  const fail = (why: string): never => {
+    throw new Error(`Invalid Carmack data: ${why}`);
+  };
+  if (src.length < 2) fail("truncated");
+
+  const out = new Uint16Array((src[0] | (src[1] << 8)) >> 1);
+  let p = 2;
+  let o = 0;
+  while (o < out.length) {
+    if (p + 2 > src.length) fail("truncated");
+    const word = src[p] | (src[p + 1] << 8);
+    p += 2;
+    const tag = word >> 8;
+    const count = word & 0xff;
+
+    if (tag !== NEARTAG && tag !== FARTAG) {
+      out[o++] = word;
+      continue;
+    }
+    if (count === 0) {
+      if (p >= src.length) fail("truncated");
+      out[o++] = (tag << 8) | src[p++];
+      continue;
+    }
+
+    let from: number;
+    if (tag === NEARTAG) {
+      if (p >= src.length) fail("truncated");
+      from = o - src[p++];
+    } else {
+      if (p + 2 > src.length) fail("truncated");
+      from = src[p] | (src[p + 1] << 8);
+      p += 2;
+    }
+    if (from < 0 || from >= o || o + count > out.length) {
+      fail("copy out of range");
+    }
+    for (let i = 0; i < count; i++) out[o++] = out[from + i];
+  }
+  return out;
+}
+
+/**
+ * Undo RLEW compression. The first word is the expanded size in bytes; a
+ * `tag` word is followed by a count and the word to repeat, anything else
+ * passes through.
+ */
+export function rlewExpand(src: Uint16Array, tag: number): Uint16Array {
+  const fail = (why: string): never => {
+    throw new Error(`Invalid RLEW data: ${why}`);
+  };
+  if (src.length < 1) fail("truncated");
+
+  const out = new Uint16Array(src[0] >> 1);
+  let p = 1;
+  let o = 0;
+  while (o < out.length) {
+    if (p >= src.length) fail("truncated");
+    const word = src[p++];
+    if (word !== tag) {
+      out[o++] = word;
+      continue;
+    }
+    if (p + 2 > src.length) fail("truncated");
+    const count = src[p++];
+    const value = src[p++];
+    if (o + count > out.length) fail("run out of range");
+    out.fill(value, o, o + count);
+    o += count;
+  }
+  return out;
+}
+
+// ============================================================
+// MAPHEAD / GAMEMAPS
+// ============================================================
+
+/**
+ * Parse MAPHEAD. Throws if it is too short to hold the offset table.
+ */
+export function parseMapHead(bytes: Uint8Array): MapHead {
+  if (bytes.length < 2 + NUMMAPS * 4) {
+    throw new Error("Invalid MAPHEAD: truncated");
+  }
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const offsets: number[] = [];
+  for (let i = 0; i < NUMMAPS; i++) {
+    const offset = view.getUint32(2 + i * 4, true);
+    offsets.push(offset === 0 || offset === 0xffffffff ? -1 : offset);
+  }
+  return { rlewTag: view.getUint16(0, true), offsets };
+}
+
+interface MapHeader {
+  planeStart: number[];
+  planeLength: number[];
+  width: number;
+  height: number;
+  name: string;
+}
+
+function readMapHeader(gamemaps: Uint8Array, offset: number): MapHeader {
+  if (offset + MAP_HEADER_SIZE > gamemaps.length) {
+    throw new Error(`Invalid GAMEMAPS: map header at ${offset} is truncated`);
+  }
+  const view = new DataView(
+    gamemaps.buffer,
+    gamemaps.byteOffset,
+    gamemaps.byteLength,
+  );
+  let name = "";
+  for (let i = 0; i < 16; i++) {
+    const ch = gamemaps[offset + 22 + i];
+    if (ch === 0) break;
+    name += String.fromCharCode(ch);
+  }
+  return {
+    planeStart: [0, 1, 2].map((i) => view.getUint32(offset + i * 4, true)),
+    planeLength: [0, 1, 2].map((i) =>
+      view.getUint16(offset + 12 + i * 2, true),
+    ),
+    width: view.getUint16(offset + 18, true),
+    height: view.getUint16(offset + 20, true),
+    name: name.trim(),
+  };
+}
+
+function readPlane(
+  gamemaps: Uint8Array,
+  header: MapHeader,
+  plane: number,
+  rlewTag: number,
+): Uint16Array {
+  const start = header.planeStart[plane];
+  const end = start + header.planeLength[plane];
+  if (end > gamemaps.length) {
+    throw new Error(`Invalid GAMEMAPS: plane ${plane} is truncated`);
+  }
+  const words = rlewExpand(
+    carmackExpand(gamemaps.subarray(start, end)),
+    rlewTag,
+  );
+  if (words.length !== header.width * header.height) {
+    throw new Error(`Invalid GAMEMAPS: plane ${plane} has the wrong size`);
+  }
+  return words;
+}
+
+/**
+ * List the maps present in a MAPHEAD/GAMEMAPS pair, in slot order.
+ */
+export function listMaps(head: MapHead, gamemaps: Uint8Array): MapListing[] {
+  const spear = detectEdition(head).edition === "spear";
+  const maps: MapListing[] = [];
+  head.offsets.forEach((offset, index) => {
+    if (offset < 0) return;
+    const { name, width, height } = readMapHeader(gamemaps, offset);
+    maps.push({
+      index,
+      episode: spear ? 0 : Math.floor(index / 10),
+      floor: spear ? index : index % 10,
+      name,
+      width,
+      height,
+    });
+  });
+  return maps;
+}
+
+/**
+ * Tell the game a MAPHEAD belongs to from how many maps it has: the
+ * shareware release has one episode of 10 floors, the registered one six,
+ * and Spear of Destiny 21 floors (18 plus two secret floors and the boss
+ * rush). Anything else is reported as unknown, e.g. a community map set.
+ */
+export function detectEdition(head: MapHead): {
+  edition: MapEdition;
+  episodes: number;
+} {
+  const count = head.offsets.filter((o) => o >= 0).length;
+  switch (count) {
+    case 10:
+      return { edition: "shareware", episodes: 1 };
+    case 60:
+      return { edition: "registered", episodes: 6 };
+    case 21:
+      return { edition: "spear", episodes: 1 };
+    default:
+      return { edition: "unknown", episodes: Math.ceil(count / 10) };
+  }
+}
+
+/**
+ * Load one map as MapData ready for setupLevel. Enemies that only appear on
+ * harder skills are left out below `difficulty`, as the original does.
+ * Throws if the slot is empty, the data is damaged or the map isn't 64x64.
+ */
+export function loadMap(
+  head: MapHead,
+  gamemaps: Uint8Array,
+  index: number,
+  difficulty: number,
+): MapData {
+  const offset = head.offsets[index] ?? -1;
+  if (offset < 0) throw new Error(`No map in slot ${index}`);
+
+  const header = readMapHeader(gamemaps, offset);
+  if (header.width !== MAPSIZE || header.height !== MAPSIZE) {
+    throw new Error(
+      `Map "${header.name}" is ${header.width}x${header.height}, expected ${MAPSIZE}x${MAPSIZE}`,
+    );
+  }
+
+  const map = createMapData();
+  map.name = header.name;
+  convertPlanes(
+    map,
+    readPlane(gamemaps, header, 0, head.rlewTag),
+    readPlane(gamemaps, header, 1, head.rlewTag),
+    difficulty,
+  );
+  return map;
+}
+
+// ============================================================
+// Plane translation
+// ============================================================
+
+/** Floor tile in plane 0 marking an ambushing enemy standing on it */
+const AMBUSHTILE = 106;
+/** Floor tile in front of a secret elevator switch */
+const ALTELEVATORTILE = 107;
+/** Plane 1 value of a pushwall */
+const ORIG_PUSHWALL = 98;
+
+/** Our object value for STATIC_DEFS[index] (actors.ts) */
+function staticValue(index: number): number {
+  return 47 + index > 74 ? 47 + index : STATICTILE + index;
+}
+
+/**
+ * Original statics (object value - 23, the statinfo table) to the index of
+ * the matching entry in actors.ts's STATIC_DEFS. Statics we have nothing
+ * like (beds, baskets, the Spear's truck...) are dropped.
+ */
+const STATIC_INDEX: (number | null)[] = [
+  29, // puddle
+  30, // green barrel
+  2, // table and chairs
+  3, // floor lamp
+  4, // chandelier
+  5, // hanged man
+  6, // dog food
+  7, // red pillar
+  8, // tree
+  9, // skeleton
+  10, // sink
+  11, // potted plant
+  12, // urn
+  13, // bare table
+  14, // ceiling light
+  15, // kitchen stuff
+  16, // suit of armor
+  17, // hanging cage
+  18, // skeleton in cage
+  19, // skeleton relax
+  20, // gold key
+  21, // silver key
+  null, // bed
+  null, // basket
+  6, // food
+  23, // first aid
+  22, // clip
+  37, // machine gun
+  38, // chain gun
+  24, // cross
+  25, // chalice
+  26, // chest
+  27, // crown
+  28, // extra life
+  29, // gibs
+  30, // barrel
+  31, // well
+  32, // empty well
+  29, // gibs
+  34, // flag
+  35, // sign
+  19, // bones
+  19, // bones and skull
+  33, // bones and blood
+  15, // pots
+  39, // stove
+  40, // spears
+  41, // vines
+];
+
+/**
+ * Original enemies with four facings to stand and four to patrol, at three
+ * skill tiers: [first value, medium tier, hard tier, our standing value,
+ * our patrolling value].
+ */
+const ENEMY_RANGES: [number, number, number, number, number][] = [
+  [108, 144, 180, 23, 27], // guard
+  [116, 152, 188, 31, 47], // officer
+  [126, 162, 198, 35, 51], // SS
+  [134, 170, 206, 39, 55], // dog
+  [216, 234, 252, 43, 59], // mutant
+];
+
+/**
+ * Single-spawn bosses and the ghosts to our values. Bosses always start
+ * facing south (offset 2 in our NESW order).
+ */
+const SINGLE_SPAWNS: Record<number, number> = {
+  214: 63 + 2, // Hans Grosse
+  196: 67 + 2, // Dr. Schabbs
+  160: 71 + 2, // Fake Hitler
+  197: 100 + 2, // Gretel Grosse
+  215: 104 + 2, // Giftmacher
+  179: 108 + 2, // Fettgesicht
+  178: 112 + 2, // Mecha Hitler
+  106: 116 + 2, // Spectre
+  107: 120 + 2, // Angel of Death
+  125: 124 + 2, // Trans Grosse
+  142: 128 + 2, // Ubermutant
+  143: 132 + 2, // Barnacle Wilhelm
+  161: 136 + 2, // Death Knight
+  224: 140, // Blinky
+  225: 141, // Clyde
+  226: 142, // Pinky
+  227: 143, // Inky
+};
+
+/** Original facing (east, north, west, south) to our NESW offset */
+const DIR_OFFSET = [1, 0, 3, 2];
+
+/** Dead guard decoration (original object 124), STATIC_DEFS[0] */
+const ORIG_DEADGUARD = 124;
+
+/**
+ * Translate one original object value. Returns our value and whether it is
+ * an enemy that may be ambushing, or null for nothing.
+ */
+function translateObject(
+  value: number,
+  difficulty: number,
+): { value: number; standing: boolean } | null {
+  // Player starts are numbered the same
+  if (value >= 19 && value <= 22) return { value, standing: false };
+
+  if (value >= 23 && value < 23 + STATIC_INDEX.length) {
+    const index = STATIC_INDEX[value - 23];
+    return index === null
+      ? null
+      : { value: staticValue(index), standing: false };
+  }
+  if (value === ORIG_DEADGUARD) {
+    return { value: staticValue(0), standing: false };
+  }
+
+  const single = SINGLE_SPAWNS[value];
+  if (single !== undefined) return { value: single, standing: false };
+
+  for (const [easy, medium, hard, stand, patrol] of ENEMY_RANGES) {
+    for (const [first, skill] of [
+      [easy, 0],
+      [medium, GD_MEDIUM],
+      [hard, GD_HARD],
+    ]) {
+      const offset = value - first;
+      if (offset < 0 || offset >= 8) continue;
+      if (difficulty < skill) return null;
+      const dir = DIR_OFFSET[offset & 3];
+      return offset < 4
+        ? { value: stand + dir, standing: true }
+        : { value: patrol + dir, standing: false };
+    }
+  }
+
+  // Patrol turning arrows, the end-game trigger and anything unknown
+  return null;
+}
+
+/**
+ * Fill the walls, objects and areas planes from original planes 0 and 1.
+ */
+function convertPlanes(
+  map: MapData,
+  plane0: Uint16Array,
+  plane1: Uint16Array,
+  difficulty: number,
+): void {
+  const at = (x: number, y: number): number =>
+    x < 0 || x >= MAPSIZE || y < 0 || y >= MAPSIZE
+      ? 0
+      : plane0[tileIndex(x, y)];
+
+  for (let y = 0; y < MAPSIZE; y++) {
+    for (let x = 0; x < MAPSIZE; x++) {
+      const idx = tileIndex(x, y);
+      let tile = plane0[idx];
+      let ambush = false;
+
+      if (tile === AMBUSHTILE) {
+        // Take the area of a neighbouring floor tile, as SpawnStand does
+        ambush = true;
+        tile =
+          [at(x + 1, y), at(x, y - 1), at(x, y + 1), at(x - 1, y)].find(
+            (t) => t >= AREATILE,
+          ) ?? AREATILE;
+      } else if (
+        tile === ELEVATORTILE &&
+        [at(x + 1, y), at(x, y - 1), at(x, y + 1), at(x - 1, y)].includes(
+          ALTELEVATORTILE,
+        )
+      ) {
+        // A switch pressed from the marked floor leads to the secret floor
+        tile = SECRETEXITTILE;
+      }
+      map.walls[idx] = tile;
+      map.areas[idx] = tile;
+
+      const objval = plane1[idx];
+      if (objval === ORIG_PUSHWALL) {
+        map.walls[idx] = PUSHABLETILE;
+        continue;
+      }
+      const obj = translateObject(objval, difficulty);
+      if (!obj) continue;
+      // Ambush variants sit 157 above (setupLevel's objval - 180 + 23)
+      map.objects[idx] = ambush && obj.standing ? obj.value + 157 : obj.value;
+    }
+  }
+}
@@ -1,23 +1,31 @@
 /**
  * Wolfenstein 3D TypeScript Port - Procedural Map Generator
  *
- * Generates 10 deterministic levels using a seedable RNG.
- * Maps are 64x64 tiles and feature rooms, corridors, doors,
+ * Generates deterministic floors for each episode (see episodes.ts) using a
+ * seedable RNG. Maps are 64x64 tiles and feature rooms, corridors, doors,
  * enemies, pickups, keys, secrets, and an exit elevator.
+ * One secret floor is a fixed Pac-Man maze instead. Mod packs can stand
+ * their own maps in for any floor (see setFloorOverrides).
  */
 
 import {
   MAPSIZE,
   AREATILE,
+  NUMAREAS,
   PUSHABLETILE,
   EXITTILE,
   ELEVATORTILE,
+  SECRETEXITTILE,
   MapData,
   createMapData,
   setSeed,
   rnd,
   tileIndex,
+  GD_MEDIUM,
+  GD_HARD,
 } from "./types";
+import { EPISODES, getEpisode } from "./episodes";
+import type { Episode, LevelParams } from "./episodes";
 
 // ============================================================
 // Internal helpers and room descriptor
@@ -36,154 +44,6 @@ interface Room {
   connected: boolean;
 }
 
-/** Difficulty ramp per level: controls enemy counts, pickups, etc. */
-interface LevelParams {
-  name: string;
-  minRooms: number;
-  maxRooms: number;
-  minRoomSize: number;
-  maxRoomSize: number;
-  enemyDensity: number; // approximate enemies per room
-  pickupDensity: number; // approximate pickups per room
-  corridorWidth: number;
-  hasGoldKeyDoor: boolean;
-  hasSilverKeyDoor: boolean;
-  secretRooms: number;
-}
-
-const LEVEL_PARAMS: LevelParams[] = [
-  {
-    name: "Escape!",
-    minRooms: 5,
-    maxRooms: 7,
-    minRoomSize: 5,
-    maxRoomSize: 10,
-    enemyDensity: 1.0,
-    pickupDensity: 1.2,
-    corridorWidth: 2,
-    hasGoldKeyDoor: false,
-    hasSilverKeyDoor: false,
-    secretRooms: 0,
-  },
-  {
-    name: "The Dungeons",
-    minRooms: 6,
-    maxRooms: 9,
-    minRoomSize: 4,
-    maxRoomSize: 10,
-    enemyDensity: 1.5,
-    pickupDensity: 1.0,
-    corridorWidth: 2,
-    hasGoldKeyDoor: true,
-    hasSilverKeyDoor: false,
-    secretRooms: 1,
-  },
-  {
-    name: "Castle Hollehammer",
-    minRooms: 7,
-    maxRooms: 10,
-    minRoomSize: 4,
-    maxRoomSize: 11,
-    enemyDensity: 2.0,
-    pickupDensity: 1.0,
-    corridorWidth: 2,
-    hasGoldKeyDoor: true,
-    hasSilverKeyDoor: false,
-    secretRooms: 1,
-  },
-  {
-    name: "Tomb of the Dead",
-    minRooms: 7,
-    maxRooms: 11,
-    minRoomSize: 4,
-    maxRoomSize: 12,
-    enemyDensity: 2.5,
-    pickupDensity: 1.0,
-    corridorWidth: 2,
-    hasGoldKeyDoor: true,
-    hasSilverKeyDoor: true,
-    secretRooms: 1,
-  },
-  {
-    name: "Tunnels",
-    minRooms: 8,
-    maxRooms: 12,
-    minRoomSize: 4,
-    maxRoomSize: 10,
-    enemyDensity: 3.0,
-    pickupDensity: 1.2,
-    corridorWidth: 2,
-    hasGoldKeyDoor: true,
-    hasSilverKeyDoor: true,
-    secretRooms: 1,
-  },
-  {
-    name: "Command Center",
-    minRooms: 8,
-    maxRooms: 13,
-    minRoomSize: 4,
-    maxRoomSize: 12,
-    enemyDensity: 3.0,
-    pickupDensity: 1.0,
-    corridorWidth: 2,
-    hasGoldKeyDoor: true,
-    hasSilverKeyDoor: true,
-    secretRooms: 2,
-  },
-  {
-    name: "The Arsenal",
-    minRooms: 9,
-    maxRooms: 14,
-    minRoomSize: 4,
-    maxRoomSize: 12,
-    enemyDensity: 3.5,
-    pickupDensity: 1.5,
-    corridorWidth: 2,
-    hasGoldKeyDoor: true,
-    hasSilverKeyDoor: true,
-    secretRooms: 2,
-  },
-  {
-    name: "Barracks",
-    minRooms: 9,
-    maxRooms: 14,
-    minRoomSize: 4,
-    maxRoomSize: 12,
-    enemyDensity: 4.0,
-    pickupDensity: 1.0,
-    corridorWidth: 2,
-    hasGoldKeyDoor: true,
-    hasSilverKeyDoor: true,
-    secretRooms: 2,
-  },
-  {
-    name: "The Gauntlet",
-    minRooms: 10,
-    maxRooms: 15,
-    minRoomSize: 4,
-    maxRoomSize: 12,
-    enemyDensity: 4.5,
-    pickupDensity: 1.0,
-    corridorWidth: 2,
-    hasGoldKeyDoor: true,
-    hasSilverKeyDoor: true,
-    secretRooms: 2,
-  },
-  {
-    name: "Castle Wolfenstein",
-    minRooms: 10,
-    maxRooms: 16,
-    minRoomSize: 4,
-    maxRoomSize: 12,
-    enemyDensity: 5.0,
-    pickupDensity: 1.2,
-    corridorWidth: 2,
-    hasGoldKeyDoor: true,
-    hasSilverKeyDoor: true,
-    secretRooms: 3,
-  },
-];
-
 // Wall plane special values
 const WALL_EMPTY = 0;
 const DOOR_HORIZ = 90;
@@ -591,6 +451,60 @@ function placeSecretRooms(map: MapData, rooms: Room[], count: number): void {
   }
 }
 
+/**
+ * Hide a secret elevator behind a pushwall off one of the middle rooms: the
+ * wall slides to the back of a two-tile pocket, uncovering the switch in
+ * the pocket's side wall. Nothing is placed if no room has a free wall.
+ */
+function placeSecretElevator(map: MapData, rooms: Room[]): void {
+  const first = rooms.length > 2 ? 1 : 0;
+  const count = rooms.length > 2 ? rooms.length - 2 : rooms.length;
+  const roomStart = rnd(count);
+  const sideStart = rnd(4);
+
+  for (let r = 0; r < count; r++) {
+    const room = rooms[first + ((roomStart + r) % count)];
+    const { x, y, w, h } = room.rect;
+    // Entrance wall tile and the direction leading away from the room
+    const sides = [
+      { wx: x - 1, wy: y + Math.floor(h / 2), dx: -1, dy: 0 },
+      { wx: x + w, wy: y + Math.floor(h / 2), dx: 1, dy: 0 },
+      { wx: x + Math.floor(w / 2), wy: y - 1, dx: 0, dy: -1 },
+      { wx: x + Math.floor(w / 2), wy: y + h, dx: 0, dy: 1 },
+    ];
+
+    for (let i = 0; i < 4; i++) {
+      const { wx, wy, dx, dy } = sides[(sideStart + i) % 4];
+      // Perpendicular to the pocket
+      const px = dy;
+      const py = -dx;
+
+      // The entrance and a 3x3 block of plain wall behind it must be free
+      let solid = wallAt(map, wx, wy) === 1;
+      for (let t = 1; t <= 3 && solid; t++) {
+        for (let side = -1; side <= 1; side++) {
+          const tx = wx + dx * t + px * side;
+          const ty = wy + dy * t + py * side;
+          if (tx < 1 || tx >= MAPSIZE - 1 || ty < 1 || ty >= MAPSIZE - 1) {
+            solid = false;
+          } else if (wallAt(map, tx, ty) !== 1) {
+            solid = false;
+          }
+        }
+      }
+      if (!solid) continue;
+
+      setWall(map, wx, wy, PUSHABLETILE);
+      for (let t = 1; t <= 2; t++) {
+        setWall(map, wx + dx * t, wy + dy * t, WALL_EMPTY);
+        setArea(map, wx + dx * t, wy + dy * t, room.areaNumber);
+      }
+      setWall(map, wx + dx + px, wy + dy + py, SECRETEXITTILE);
+      return;
+    }
+  }
+}
+
 // ============================================================
 // Exit elevator
 // ============================================================
@@ -620,6 +534,27 @@ function placeExit(map: MapData, rooms: Room[]): void {
   }
 }
 
+// ============================================================
+// Boss
+// ============================================================
+
+/**
+ * Station the episode's boss in the exit room, facing into it.
+ */
+function placeBoss(map: MapData, rooms: Room[], bossObj: number): void {
+  const { cx, cy } = roomCenter(rooms[rooms.length - 1]);
+  for (let r = 0; r < 3; r++) {
+    for (let dy = -r; dy <= r; dy++) {
+      for (let dx = -r; dx <= r; dx++) {
+        if (isTileFree(map, cx + dx, cy + dy)) {
+          setObj(map, cx + dx, cy + dy, bossObj);
+          return;
+        }
+      }
+    }
+  }
+}
+
 // ============================================================
 // Player start
 // ============================================================
@@ -652,71 +587,84 @@ function placeEnemies(
   rooms: Room[],
   params: LevelParams,
   level: number,
+  difficulty: number,
 ): void {
   // Skip the first room (player start) and the last room (exit)
   for (let i = 1; i < rooms.length - 1; i++) {
     const room = rooms[i];
-    const { x, y, w, h } = room.rect;
-    const count = Math.max(1, Math.round(params.enemyDensity + rnd(2) - 1));
+    let count = Math.max(1, Math.round(params.enemyDensity + rnd(2) - 1));
 
-    for (let e = 0; e < count; e++) {
-      // Pick a random free tile in the room
-      let placed = false;
-      for (let attempt = 0; attempt < 30; attempt++) {
-        const ex = x + 1 + rnd(Math.max(1, w - 2));
-        const ey = y + 1 + rnd(Math.max(1, h - 2));
-        if (!isTileFree(map, ex, ey)) continue;
+    // Reinforcements on the harder skills, like the original's medium- and
+    // hard-only map objects: every other room on medium, every room on hard
+    if (difficulty >= GD_HARD || (difficulty === GD_MEDIUM && i % 2 === 0)) {
+      count++;
+    }
 
-        // Pick enemy type based on level progression
-        const dir = rnd(4); // N/E/S/W
-        let enemyBase: number;
+    for (let e = 0; e < count; e++) {
+      placeEnemyInRoom(map, room, level);
+    }
+  }
+}
 
-        const roll = rnd(100);
-        if (level < 2) {
-          // Early levels: mostly guards
-          if (roll < 70) {
-            enemyBase = rnd(2) === 0 ? 23 : 27; // standing or patrolling guard
-          } else if (roll < 90) {
-            enemyBase = 39; // dog
-          } else {
-            enemyBase = 31; // officer
-          }
-        } else if (level < 5) {
-          // Mid levels: mix of guards, officers, SS
-          if (roll < 40) {
-            enemyBase = rnd(2) === 0 ? 23 : 27;
-          } else if (roll < 60) {
-            enemyBase = 31; // officer
-          } else if (roll < 80) {
-            enemyBase = 35; // SS
-          } else if (roll < 90) {
-            enemyBase = 39; // dog
-          } else {
-            enemyBase = 43; // mutant
-          }
-        } else {
-          // Late levels: more SS, mutants, officers
-          if (roll < 20) {
-            enemyBase = rnd(2) === 0 ? 23 : 27;
-          } else if (roll < 40) {
-            enemyBase = 31;
-          } else if (roll < 60) {
-            enemyBase = 35;
-          } else if (roll < 75) {
-            enemyBase = 43;
-          } else if (roll < 90) {
-            enemyBase = 39;
-          } else {
-            // Patrolling officer or SS for variety
-            enemyBase = rnd(2) === 0 ? 31 : 35;
-          }
-        }
+/**
+ * Place one enemy, picked by level progression, on a free tile of a room.
+ */
+function placeEnemyInRoom(map: MapData, room: Room, level: number): void {
+  const { x, y, w, h } = room.rect;
 
-        setObj(map, ex, ey, enemyBase + dir);
-        placed = true;
-        break;
+  // Pick a random free tile in the room
+  for (let attempt = 0; attempt < 30; attempt++) {
+    const ex = x + 1 + rnd(Math.max(1, w - 2));
+    const ey = y + 1 + rnd(Math.max(1, h - 2));
+    if (!isTileFree(map, ex, ey)) continue;
+
+    // Pick enemy type based on level progression
+    const dir = rnd(4); // N/E/S/W
+    let enemyBase: number;
+
+    const roll = rnd(100);
+    if (level < 2) {
+      // Early levels: mostly guards
+      if (roll < 70) {
+        enemyBase = rnd(2) === 0 ? 23 : 27; // standing or patrolling guard
+      } else if (roll < 90) {
+        enemyBase = 39; // dog
+      } else {
+        enemyBase = 31; // officer
+      }
+    } else if (level < 5) {
+      // Mid levels: mix of guards, officers, SS
+      if (roll < 40) {
+        enemyBase = rnd(2) === 0 ? 23 : 27;
+      } else if (roll < 60) {
+        enemyBase = 31; // officer
+      } else if (roll < 80) {
+        enemyBase = 35; // SS
+      } else if (roll < 90) {
+        enemyBase = 39; // dog
+      } else {
+        enemyBase = 43; // mutant
+      }
+    } else {
+      // Late levels: more SS, mutants, officers
+      if (roll < 20) {
+        enemyBase = rnd(2) === 0 ? 23 : 27;
+      } else if (roll < 40) {
+        enemyBase = 31;
+      } else if (roll < 60) {
+        enemyBase = 35;
+      } else if (roll < 75) {
+        enemyBase = 43;
+      } else if (roll < 90) {
+        enemyBase = 39;
+      } else {
+        // Patrolling officer or SS for variety
+        enemyBase = rnd(2) === 0 ? 31 : 35;
       }
     }
+
+    setObj(map, ex, ey, enemyBase + dir);
+    return;
   }
 }
 
@@ -831,24 +779,9 @@ function placePickups(
 // Wall texture variation
 // ============================================================
 
-function applyWallTextures(map: MapData, level: number): void {
-  // Different levels use different texture palettes
-  // Texture IDs 1-8 represent different wall appearances
-  const palettes: number[][] = [
-    [1, 2], // Level 0: gray stone, blue stone
-    [1, 2, 3], // Level 1: + wood
-    [2, 3, 4], // Level 2: blue, wood, gray brick
-    [1, 3, 4, 5], // Level 3: stone, wood, brick, blue brick
-    [3, 4, 5], // Level 4: wood, brick variations
-    [1, 4, 5, 6], // Level 5: stone, brick, mossy
-    [2, 5, 6, 7], // Level 6: blue, brick, mossy, red
-    [1, 3, 6, 7], // Level 7: stone, wood, mossy, red
-    [4, 5, 7, 8], // Level 8: brick, mossy, red, metal
-    [1, 2, 3, 4, 5, 6, 7, 8], // Level 9: all textures
-  ];
-
-  const pal = palettes[Math.min(level, palettes.length - 1)];
-
+function applyWallTextures(map: MapData, theme: number[], level: number): void {
+  // Texture IDs 1-8 represent different wall appearances; each episode
+  // builds its floors from its own set
   for (let y = 0; y < MAPSIZE; y++) {
     for (let x = 0; x < MAPSIZE; x++) {
       const idx = tileIndex(x, y);
@@ -857,7 +790,7 @@ function applyWallTextures(map: MapData, level: number): void {
       if (v === 1) {
         // Use position-based deterministic texture selection with some variation
         const hash = (x * 7919 + y * 6271 + level * 1013) & 0xffff;
-        map.walls[idx] = pal[hash % pal.length];
+        map.walls[idx] = theme[hash % theme.length];
       }
     }
   }
@@ -881,48 +814,225 @@ function sealBorder(map: MapData): void {
 }
 
 // ============================================================
-// Flood-fill area numbers for correctness
+// Areas
 // ============================================================
 
-function floodFillAreas(map: MapData, rooms: Room[]): void {
-  // Already set during carving, but fill any corridor tiles that
-  // might have been missed (area 0). Assign them to nearest room area.
+/**
+ * Number the areas the way the original's maps are drawn: an area is a
+ * stretch of floor bounded by walls and doors, so areas only join where a
+ * door opens between them. Pushwalls count as floor, putting the pockets
+ * behind them in the area they open into. Past NUMAREAS, the remaining
+ * regions share the last area number.
+ */
+function floodFillAreas(map: MapData): void {
+  const isFloor = (idx: number): boolean =>
+    map.walls[idx] === WALL_EMPTY || map.walls[idx] === PUSHABLETILE;
+
+  map.areas.fill(0);
+  let nextArea = 0;
   for (let y = 1; y < MAPSIZE - 1; y++) {
     for (let x = 1; x < MAPSIZE - 1; x++) {
-      const idx = tileIndex(x, y);
-      if (map.walls[idx] === WALL_EMPTY && map.areas[idx] === 0) {
-        // Find nearest room
-        let bestDist = Infinity;
-        let bestArea = 1;
-        for (const room of rooms) {
-          const rc = roomCenter(room);
-          const dist = Math.abs(x - rc.cx) + Math.abs(y - rc.cy);
-          if (dist < bestDist) {
-            bestDist = dist;
-            bestArea = room.areaNumber;
+      const start = tileIndex(x, y);
+      if (!isFloor(start) || map.areas[start] !== 0) continue;
+
+      const area = AREATILE + Math.min(nextArea++, NUMAREAS - 1);
+      const stack = [start];
+      map.areas[start] = area;
+      while (stack.length > 0) {
+        const idx = stack.pop()!;
+        for (const next of [idx - 1, idx + 1, idx - MAPSIZE, idx + MAPSIZE]) {
+          if (isFloor(next) && map.areas[next] === 0) {
+            map.areas[next] = area;
+            stack.push(next);
           }
         }
-        map.areas[idx] = AREATILE + bestArea;
       }
     }
   }
 }
 
+// ============================================================
+// Secret floor: the Pac-Man maze
+// ============================================================
+
+/**
+ * Layout of the secret floor, after the original's E3M10. Legend:
+ *   # wall   . floor   P player start (facing north)   X exit switch
+ *   B C K I  Blinky, Clyde, Pinky and Inky in the ghost house
+ */
+const PACMAN_MAZE = [
+  "###########################",
+  "#............#............#",
+  "#.####.#####.#.#####.####.#",
+  "#.####.#####.#.#####.####.#",
+  "#.........................#",
+  "#.####.##.#######.##.####.#",
+  "#......##....#....##......#",
+  "######.#####.#.#####.######",
+  "######.##.........##.######",
+  "######.##.###.###.##.######",
+  "#.........#BCKI#..........#",
+  "######.##.#####.#.##.######",
+  "######.##.........##.######",
+  "######.##.#######.##.######",
+  "#............#............#",
+  "#.####.#####.#.#####.####.#",
+  "#...##.......P.......##...#",
+  "###.##.##.#######.##.##.###",
+  "#......##....#....##......#",
+  "#.##########.#.##########.#",
+  "#.........................#",
+  "#############X#############",
+];
+
+/** Object codes for the maze legend (ghosts are 140-143, see actors.ts) */
+const PACMAN_OBJECTS: Record<string, number> = {
+  P: 19,
+  B: 140,
+  C: 141,
+  K: 142,
+  I: 143,
+};
+
+/** Blue stone, for the arcade look */
+const PACMAN_WALL = 2;
+
+/**
+ * Build the Pac-Man maze: a single-area floor haunted by the four ghosts,
+ * with an exit switch at the bottom. It is always the same.
+ */
+function generatePacmanMap(): MapData {
+  const map = createMapData();
+  map.name = "Secret Floor";
+  map.walls.fill(PACMAN_WALL);
+
+  const ox = (MAPSIZE - PACMAN_MAZE[0].length) >> 1;
+  const oy = (MAPSIZE - PACMAN_MAZE.length) >> 1;
+  for (let row = 0; row < PACMAN_MAZE.length; row++) {
+    for (let col = 0; col < PACMAN_MAZE[row].length; col++) {
+      const ch = PACMAN_MAZE[row][col];
+      const x = ox + col;
+      const y = oy + row;
+      if (ch === "#") continue;
+      if (ch === "X") {
+        setWall(map, x, y, EXITTILE);
+        continue;
+      }
+      setWall(map, x, y, WALL_EMPTY);
+      setArea(map, x, y, 1);
+      if (ch in PACMAN_OBJECTS) setObj(map, x, y, PACMAN_OBJECTS[ch]);
+    }
+  }
+
+  return map;
+}
+
+// ============================================================
+// Replacement floors
+// ============================================================
+
+/** Builds a replacement floor at a difficulty (GD_*) */
+export type FloorSource = (difficulty: number) => MapData;
+
+/** A floor of an episode: its index, or its secret floor */
+export interface FloorSlot {
+  episode: number;
+  floor: number | "secret";
+}
+
+const floorOverrides = new Map<string, FloorSource>();
+
+function floorKey(slot: FloorSlot): string {
+  return `${slot.episode}:${slot.floor}`;
+}
+
+/**
+ * Play these floors instead of generating them, replacing any set before.
+ * When two name the same floor, the later one wins.
+ */
+export function setFloorOverrides(
+  overrides: [FloorSlot, FloorSource][],
+): void {
+  floorOverrides.clear();
+  for (const [slot, source] of overrides) {
+    floorOverrides.set(floorKey(slot), source);
+  }
+}
+
 // ============================================================
 // Public API
 // ============================================================
 
 /**
- * Generate a complete 64x64 map for the given level (0-9).
- * Uses the provided seed for deterministic output.
+ * Generate a complete 64x64 map for the given floor of an episode.
+ * Uses the provided seed for deterministic output; the difficulty (GD_*)
+ * only adds enemies. The last floor of an episode is guarded by its boss, and
+ * the one its secret floor is reached from hides a secret elevator. A floor
+ * replaced by a mod pack is loaded instead.
  */
-export function generateMap(level: number, seed: number): MapData {
-  // Clamp level
-  const lvl = Math.max(0, Math.min(level, LEVEL_PARAMS.length - 1));
-  const params = LEVEL_PARAMS[lvl];
+export function generateMap(
+  episode: number,
+  level: number,
+  seed: number,
+  difficulty: number,
+): MapData {
+  const ep = getEpisode(episode);
+  const lvl = Math.max(0, Math.min(level, ep.floors.length - 1));
+  const override = floorOverrides.get(floorKey({ episode, floor: lvl }));
+  if (override) return override(difficulty);
+  const boss = lvl === ep.floors.length - 1 ? ep.boss : 0;
+  const secretElevator = lvl === ep.secretFrom;
+  return buildFloor(
+    ep.floors[lvl],
+    ep,
+    level,
+    seed,
+    difficulty,
+    boss,
+    secretElevator,
+  );
+}
+
+/**
+ * Generate an episode's secret floor: its own LevelParams, or the Pac-Man
+ * maze. A secret floor replaced by a mod pack is loaded instead.
+ */
+export function generateSecretMap(
+  episode: number,
+  seed: number,
+  difficulty: number,
+): MapData {
+  const override = floorOverrides.get(floorKey({ episode, floor: "secret" }));
+  if (override) return override(difficulty);
+  const ep = getEpisode(episode);
+  if (!ep.secretFloor) return generatePacmanMap();
+  return buildFloor(
+    ep.secretFloor,
+    ep,
+    ep.floors.length,
+    seed,
+    difficulty,
+    0,
+    false,
+  );
+}
 
-  // Initialize RNG
-  setSeed(seed + level * 65537);
+/**
+ * Run the generator pipeline for one floor (see generateMap).
+ */
+function buildFloor(
+  params: LevelParams,
+  ep: Episode,
+  level: number,
+  seed: number,
+  difficulty: number,
+  bossObj: number,
+  secretElevator: boolean,
+): MapData {
+  const lvl = Math.min(level, ep.floors.length - 1);
+
+  // Initialize RNG (episode 1 keeps the seeds it always had)
+  setSeed(seed + level * 65537 + EPISODES.indexOf(ep) * 1000003);
 
   // Create empty map (all zeros)
   const map = createMapData();
@@ -970,33 +1080,38 @@ export function generateMap(level: number, seed: number): MapData {
     placeSecretRooms(map, rooms, params.secretRooms);
   }
 
+  // Step 6b: The floor the episode's secret floor is reached from hides a
+  // secret elevator
+  if (secretElevator) placeSecretElevator(map, rooms);
+
   // Step 7: Place player start in first room
   placePlayerStart(map, rooms);
 
   // Step 8: Place enemies
-  placeEnemies(map, rooms, params, lvl);
+  placeEnemies(map, rooms, params, lvl, difficulty);
 
   // Step 9: Place pickups and decorations
   placePickups(map, rooms, params, lvl);
 
-  // Step 10: Place exit elevator in last room
+  // Step 10: Place exit elevator in last room, and the boss by it
   placeExit(map, rooms);
+  if (bossObj) placeBoss(map, rooms, bossObj);
 
   // Step 11: Apply wall texture variation
-  applyWallTextures(map, lvl);
+  applyWallTextures(map, ep.theme, lvl);
 
   // Step 12: Ensure border is sealed
   sealBorder(map);
 
-  // Step 13: Flood-fill area numbers for any gaps
-  floodFillAreas(map, rooms);
+  // Step 13: Number the areas between doors
+  floodFillAreas(map);
 
   return map;
 }
 
 /**
- * Returns the total number of available maps.
+ * Returns the number of regular floors in an episode.
  */
-export function getMapCount(): number {
-  return 10;
+export function getMapCount(episode: number): number {
+  return getEpisode(episode).floors.length;
 }
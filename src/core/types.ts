@@ -3,6 +3,13 @@
  * Ported from WL_DEF.H, WL_ACT2.C, WL_AGENT.C
  */
 
+// ============================================================
+// Build Info
+// ============================================================
+
+/** Game version stamped into demos and saves (keep in sync with package.json). */
+export const GAME_VERSION = "1.0.0";
+
 // ============================================================
 // Map & World Constants
 // ============================================================
@@ -37,6 +44,13 @@ export const AREATILE = 107;
 export const PUSHABLETILE = 98;
 export const EXITTILE = 99;
 export const ELEVATORTILE = 21;
+/** Switch of the secret elevator (ExitType.SecretLevel) */
+export const SECRETEXITTILE = 97;
+/**
+ * Object plane values from here on spawn the static at (value - STATICTILE)
+ * in actors.ts's table, for the statics whose own values clash with enemies
+ */
+export const STATICTILE = 512;
 
 // ============================================================
 // Screen / View Constants
@@ -60,6 +74,16 @@ export const MOVESCALE = 150;
 export const BACKMOVESCALE = 100;
 export const ANGLESCALE = 20;
 
+// ============================================================
+// Difficulty (gamestate.difficulty)
+// ============================================================
+
+export const GD_BABY = 0; // "Can I play, Daddy?"
+export const GD_EASY = 1; // "Don't hurt me."
+export const GD_MEDIUM = 2; // "Bring 'em on!"
+export const GD_HARD = 3; // "I am Death incarnate!"
+export const NUM_DIFFICULTIES = 4;
+
 // ============================================================
 // Actor / Projectile Constants
 // ============================================================
@@ -176,6 +200,7 @@ export enum DoorLock {
   Lock2,
   Lock3,
   Lock4,
+  Elevator,
 }
 
 export enum ActiveType {
@@ -273,6 +298,10 @@ export interface StateType {
   think: ((ob: Actor) => void) | null;
   action: ((ob: Actor) => void) | null;
   next: StateType | null;
+  /** Unique id, assigned when the state is registered (see stateRegistry.ts) */
+  id?: number;
+  /** Source name such as "s_guard_chase1", assigned on registration */
+  name?: string;
 }
 
 export interface Actor {
@@ -322,6 +351,7 @@ export interface DoorObj {
 export interface GameState {
   difficulty: number; // 0-3
   mapon: number;
+  secretlevel: boolean; // on the secret floor reached from floor mapon
   oldscore: number;
   score: number;
   nextextra: number;
@@ -372,6 +402,16 @@ export function getSeed(): number {
   return _initialSeed;
 }
 
+/** Current generator position, for save games. */
+export function getRngState(): number {
+  return _seed;
+}
+
+/** Resume the generator from a position captured with getRngState. */
+export function setRngState(state: number): void {
+  _seed = state >>> 0;
+}
+
 /** Mulberry32 PRNG -- produces a float in [0, 1) */
 function mulberry32(): number {
   _seed = (_seed + 0x6d2b79f5) >>> 0;
@@ -450,6 +490,7 @@ export function createGameState(): GameState {
   return {
     difficulty: 1,
     mapon: 0,
+    secretlevel: false,
     oldscore: 0,
     score: 0,
     nextextra: 40000,
@@ -493,38 +534,6 @@ export function tileIndex(x: number, y: number): number {
   return y * MAPSIZE + x;
 }
 
-// ============================================================
-// Hit Point Tables (from WL_ACT2.C starthitpoints)
-// Indexed as START_HITPOINTS[difficulty][enemyType]
-// Enemy ordering matches EnemyType enum:
-//   Guard, Officer, SS, Dog, Boss, Schabbs, Fake, Hitler, Mutant,
-//   Blinky, Clyde, Pinky, Inky, Gretel, Gift, Fat,
-//   Spectre, Angel, Trans, Uber, Will, Death
-// ============================================================
-
-export const START_HITPOINTS: number[][] = [
-  // Baby (difficulty 0)
-  [
-    25, 50, 100, 1, 850, 850, 200, 800, 45, 25, 25, 25, 25, 850, 850, 850, 5,
-    1450, 850, 1050, 950, 1250,
-  ],
-  // Easy (difficulty 1)
-  [
-    25, 50, 100, 1, 950, 950, 300, 950, 55, 25, 25, 25, 25, 950, 950, 950, 10,
-    1550, 950, 1150, 1050, 1350,
-  ],
-  // Medium (difficulty 2)
-  [
-    25, 50, 100, 1, 1050, 1050, 400, 1050, 55, 25, 25, 25, 25, 1050, 1050, 1050,
-    15, 1650, 1050, 1250, 1150, 1450,
-  ],
-  // Hard (difficulty 3)
-  [
-    25, 50, 100, 1, 1200, 1200, 500, 1200, 65, 25, 25, 25, 25, 1200, 1200, 1200,
-    25, 2000, 1200, 1400, 1300, 1600,
-  ],
-];
-
 // ============================================================
 // Attack Info (from WL_AGENT.C)
 // Indexed as ATTACK_INFO[weapon][frame]
@@ -1,10 +1,16 @@
 /**
  * Wolf3D-TS Asset Loader
  *
- * Loads PNG textures at runtime and converts them to the ABGR Uint32Array
- * format used by the software renderer.
+ * Loads the PNG textures listed in public/assets/manifest.json at runtime and
+ * converts them to the ABGR Uint32Array format used by the software
+ * renderer. Players who own the game can instead drop its VSWAP file into
+ * public/data/, which is decoded directly.
  */
 
+import { parseVswap, vswapToManifest } from "./vswap";
+import { validateManifest } from "./assetManifest";
+import type { AssetManifestFile } from "./assetManifest";
+
 // Detect base URL for asset paths (works with Vite's base config)
 const BASE = (() => {
   try {
@@ -61,134 +67,160 @@ export async function loadImageAsABGR(
   }
 }
 
+/** A sprite's pixels and size */
+export interface SpriteTexture {
+  pixels: Uint32Array;
+  width: number;
+  height: number;
+}
+
 /**
- * Asset manifest: all the textures we need to load.
+ * The loaded textures, as the renderer takes them. Anything missing is null
+ * and keeps its procedural stand-in.
  */
 export interface AssetManifest {
-  walls: (Uint32Array | null)[]; // 8 wall textures
-  doors: (Uint32Array | null)[]; // 2 door textures
-  enemies: {
-    guard: (Uint32Array | null)[];
-    officer: (Uint32Array | null)[];
-    ss: (Uint32Array | null)[];
-    mutant: (Uint32Array | null)[];
-  };
-  weapons: {
-    knife: (Uint32Array | null)[];
-    pistol: (Uint32Array | null)[];
-    machinegun: (Uint32Array | null)[];
-    chaingun: (Uint32Array | null)[];
-  };
+  walls: (Uint32Array | null)[]; // 64x64, by wall tile - 1
+  doors: (Uint32Array | null)[]; // 64x64: normal, elevator, jamb, locked
+  /**
+   * Every sprite by its number in the original game (SPR_* in WL_DEF.H):
+   * enemy frames in each rotation, statics, weapon frames (64x64) and the
+   * rest.
+   */
+  sprites: (SpriteTexture | null)[];
 }
 
+/** VSWAP files tried by loadVswapAssets, registered version first */
+const VSWAP_FILES = ["data/VSWAP.WL6", "data/VSWAP.WL1"];
+
 /**
- * Load all game assets with progress callback.
- * Returns null for any individual asset that fails (graceful degradation).
+ * Decode the first VSWAP file found under public/data/, or return null if
+ * there is none (or it can't be read) so the PNG set is used instead.
  */
-export async function loadAllAssets(
+export async function loadVswapAssets(): Promise<AssetManifest | null> {
+  for (const file of VSWAP_FILES) {
+    try {
+      const response = await fetch(`${BASE}${file}`);
+      // The dev server answers a missing file with index.html
+      const type = response.headers.get("content-type") ?? "";
+      if (!response.ok || type.includes("text/html")) continue;
+      const bytes = new Uint8Array(await response.arrayBuffer());
+      const manifest = vswapToManifest(parseVswap(bytes));
+      console.log(`Loaded textures and sprites from ${file}`);
+      return manifest;
+    } catch (err) {
+      console.warn(`Failed to load ${file}:`, err);
+    }
+  }
+  return null;
+}
+
+/**
+ * Load every texture a manifest lists, with `resolve` turning its paths into
+ * URLs. Files that fail to load are reported together in one warning and
+ * left null (graceful degradation).
+ */
+export async function loadManifestAssets(
+  file: AssetManifestFile,
+  resolve: (path: string) => string,
   onProgress?: (loaded: number, total: number) => void,
 ): Promise<AssetManifest> {
-  const manifest: AssetManifest = {
-    walls: [],
-    doors: [],
-    enemies: { guard: [], officer: [], ss: [], mutant: [] },
-    weapons: { knife: [], pistol: [], machinegun: [], chaingun: [] },
-  };
-
-  // Build list of all URLs to load
+  const manifest: AssetManifest = { walls: [], doors: [], sprites: [] };
+
+  // Every file to load and where its pixels go
   interface LoadTask {
-    url: string;
-    target: "wall" | "door" | "enemy" | "weapon";
-    index: number;
-    category?: string;
+    path: string;
+    width: number;
+    height: number;
+    store: (pixels: Uint32Array | null) => void;
   }
 
   const tasks: LoadTask[] = [];
-
-  // Walls (0-7)
-  for (let i = 0; i < 8; i++) {
-    tasks.push({
-      url: `${BASE}assets/walls/wall_${i}.png`,
-      target: "wall",
-      index: i,
-    });
-  }
-
-  // Doors (0-1)
-  for (let i = 0; i < 2; i++) {
-    tasks.push({
-      url: `${BASE}assets/walls/door_${i}.png`,
-      target: "door",
-      index: i,
-    });
-  }
-
-  // Enemy frames
-  const enemyDefs = [
-    { name: "guard", frames: "abcdefghijklmn" },
-    { name: "officer", frames: "abcdefghijklmno" },
-    { name: "ss", frames: "abcdefghijklmn" },
-    { name: "mutant", frames: "abcdefghijklmnop" },
-  ];
-
-  for (const def of enemyDefs) {
-    for (let i = 0; i < def.frames.length; i++) {
-      tasks.push({
-        url: `${BASE}assets/enemies/${def.name}/${def.frames[i]}.png`,
-        target: "enemy",
-        index: i,
-        category: def.name,
-      });
-    }
-  }
-
-  // Weapon frames
-  const weaponNames = ["knife", "pistol", "machinegun", "chaingun"];
-  for (const name of weaponNames) {
-    for (let i = 0; i < 5; i++) {
-      tasks.push({
-        url: `${BASE}assets/weapons/${name}_${i}.png`,
-        target: "weapon",
-        index: i,
-        category: name,
-      });
+  for (const entry of file.textures) {
+    const { width, height } = entry;
+    switch (entry.category) {
+      case "wall":
+        tasks.push({
+          path: entry.file,
+          width,
+          height,
+          store: (pixels) => (manifest.walls[entry.index] = pixels),
+        });
+        break;
+      case "door":
+        tasks.push({
+          path: entry.file,
+          width,
+          height,
+          store: (pixels) => (manifest.doors[entry.index] = pixels),
+        });
+        break;
+      case "enemy":
+      case "static":
+      case "weapon": {
+        // Rotation r of a frame is the sprite r after it
+        const paths = entry.rotations ?? [entry.file];
+        for (const [r, path] of paths.entries()) {
+          const n = entry.sprite! + r;
+          tasks.push({
+            path,
+            width,
+            height,
+            store: (pixels) =>
+              (manifest.sprites[n] = pixels && { pixels, width, height }),
+          });
+        }
+        break;
+      }
+      case "pic":
+        // Nothing draws the pictures yet
+        break;
     }
   }
 
   // Load all in parallel with progress tracking
   const total = tasks.length;
   let loaded = 0;
+  const missing: string[] = [];
 
-  const results = await Promise.all(
+  await Promise.all(
     tasks.map(async (task) => {
-      const pixels = await loadImageAsABGR(task.url);
+      const pixels = await loadImageAsABGR(
+        resolve(task.path),
+        task.width,
+        task.height,
+      );
+      if (!pixels) missing.push(task.path);
+      task.store(pixels);
       loaded++;
       onProgress?.(loaded, total);
-      return { task, pixels };
     }),
   );
 
-  // Distribute results into manifest
-  for (const { task, pixels } of results) {
-    switch (task.target) {
-      case "wall":
-        manifest.walls[task.index] = pixels;
-        break;
-      case "door":
-        manifest.doors[task.index] = pixels;
-        break;
-      case "enemy": {
-        const cat = task.category as keyof typeof manifest.enemies;
-        manifest.enemies[cat][task.index] = pixels;
-        break;
-      }
-      case "weapon": {
-        const cat = task.category as keyof typeof manifest.weapons;
-        manifest.weapons[cat][task.index] = pixels;
-        break;
-      }
-    }
+  if (missing.length > 0) {
+    console.warn(
+      `${missing.length} of ${total} asset files failed to load:\n  ` +
+        missing.sort().join("\n  "),
+    );
   }
-
   return manifest;
 }
+
+/**
+ * Load the PNG set in public/assets/ as its manifest.json describes, with
+ * progress callback. Throws if the manifest is missing or invalid.
+ */
+export async function loadAllAssets(
+  onProgress?: (loaded: number, total: number) => void,
+): Promise<AssetManifest> {
+  const url = `${BASE}assets/manifest.json`;
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Asset manifest ${url}: HTTP ${response.status}`);
+  }
+  const file = validateManifest(await response.json());
+  return loadManifestAssets(
+    file,
+    (path) => `${BASE}assets/${path}`,
+    onProgress,
+  );
+}
@@ -0,0 +1,199 @@
+/**
+ * Wolf3D-TS Asset Manifest Format
+ *
+ * public/assets/manifest.json lists every texture file in the asset folder:
+ * what it is, where it sits among its kind and how big it is. It is written
+ * by scripts/convert-assets.ts alongside the PNGs it converts from the
+ * original data files, and is all the asset loader goes by: walls land on
+ * their wall tile, doors on their door, and enemy frames (each rotation
+ * counting on from `sprite`), statics and weapon frames on their original
+ * sprite number. Pictures are listed but not drawn yet.
+ */
+
+export const MANIFEST_VERSION = 1;
+
+export type TextureCategory =
+  "wall" | "door" | "enemy" | "static" | "weapon" | "pic";
+
+export interface TextureEntry {
+  category: TextureCategory;
+  /** Enemy or weapon it belongs to */
+  name?: string;
+  /**
+   * Position within its kind: wall tile - 1, door (normal, elevator, jamb,
+   * locked), frame of an enemy or weapon, statinfo index, picture number
+   */
+  index: number;
+  /** PNG path relative to the manifest */
+  file: string;
+  width: number;
+  height: number;
+  /**
+   * For enemy frames drawn from eight directions, rotations 1-8 (rotation 1
+   * faces the player and is also `file`)
+   */
+  rotations?: string[];
+  /** Original sprite number (SPR_* in WL_DEF.H) */
+  sprite?: number;
+}
+
+export interface AssetManifestFile {
+  version: number;
+  /** Data files the textures were converted from */
+  source: string;
+  textures: TextureEntry[];
+}
+
+/** Number of doors: normal, elevator, jamb, locked */
+export const NUM_DOORS = 4;
+
+/** Door indices, in that order */
+export enum DoorTexture {
+  Normal,
+  Elevator,
+  Jamb,
+  Locked,
+}
+
+/** Wall, door and weapon textures are drawn at this size */
+const TEX_SIZE = 64;
+
+const CATEGORIES: readonly TextureCategory[] = [
+  "wall",
+  "door",
+  "enemy",
+  "static",
+  "weapon",
+  "pic",
+];
+
+// ============================================================
+// Validation
+// ============================================================
+
+const isObject = (v: unknown): v is Record<string, unknown> =>
+  typeof v === "object" && v !== null && !Array.isArray(v);
+
+const isInt = (v: unknown): v is number =>
+  typeof v === "number" && Number.isInteger(v);
+
+const isFile = (v: unknown): v is string =>
+  typeof v === "string" && v.length > 0;
+
+function checkTexture(
+  where: string,
+  raw: unknown,
+  seen: Map<string, string>,
+  problems: string[],
+): void {
+  if (!isObject(raw)) {
+    problems.push(`${where}: must be an object`);
+    return;
+  }
+  if (isFile(raw.file)) where += ` (${raw.file})`;
+  else problems.push(`${where}.file: must be a non-empty path`);
+
+  const category = raw.category as TextureCategory;
+  if (!CATEGORIES.includes(category)) {
+    problems.push(
+      `${where}.category: unknown category ${JSON.stringify(category)} ` +
+        `(expected one of ${CATEGORIES.join(", ")})`,
+    );
+    return;
+  }
+  if (!isInt(raw.index) || raw.index < 0) {
+    problems.push(`${where}.index: must be a non-negative integer`);
+  } else if (category === "door" && raw.index >= NUM_DOORS) {
+    problems.push(`${where}.index: doors go from 0 to ${NUM_DOORS - 1}`);
+  }
+  for (const key of ["width", "height"] as const) {
+    if (!isInt(raw[key]) || raw[key] <= 0) {
+      problems.push(`${where}.${key}: must be a positive integer`);
+    }
+  }
+  if (
+    (category === "wall" || category === "door" || category === "weapon") &&
+    (raw.width !== TEX_SIZE || raw.height !== TEX_SIZE)
+  ) {
+    problems.push(`${where}: ${category} textures must be 64x64`);
+  }
+  if (raw.name !== undefined && typeof raw.name !== "string") {
+    problems.push(`${where}.name: must be a string`);
+  }
+
+  const rotations = raw.rotations;
+  if (rotations !== undefined) {
+    if (
+      category !== "enemy" ||
+      !Array.isArray(rotations) ||
+      rotations.length !== 8 ||
+      !rotations.every(isFile)
+    ) {
+      problems.push(`${where}.rotations: must be 8 paths, for enemy frames`);
+    } else if (rotations[0] !== raw.file) {
+      problems.push(`${where}.rotations: rotation 1 must be the file itself`);
+    }
+  }
+
+  // Where the texture lands, so two entries don't fight over it
+  const slots: string[] = [];
+  if (category === "wall" || category === "door" || category === "pic") {
+    slots.push(`${category} ${raw.index}`);
+  } else if (!isInt(raw.sprite) || raw.sprite < 0) {
+    problems.push(
+      `${where}.sprite: must be the original sprite number (SPR_* in WL_DEF.H)`,
+    );
+  } else {
+    const count = Array.isArray(rotations) ? rotations.length : 1;
+    for (let r = 0; r < count; r++) slots.push(`sprite ${raw.sprite + r}`);
+  }
+  for (const slot of slots) {
+    if (seen.has(slot)) {
+      problems.push(`${where}: ${slot} is already given by ${seen.get(slot)}`);
+    } else {
+      seen.set(slot, where);
+    }
+  }
+}
+
+/**
+ * Check a list of texture entries, adding one line to `problems` for each
+ * thing wrong with it. Mod packs (see modPack.ts) list theirs the same way.
+ */
+export function checkTextures(textures: unknown, problems: string[]): void {
+  if (!Array.isArray(textures)) {
+    problems.push("textures: must be an array");
+    return;
+  }
+  const seen = new Map<string, string>();
+  for (const [i, raw] of textures.entries()) {
+    checkTexture(`textures[${i}]`, raw, seen, problems);
+  }
+}
+
+/**
+ * Check a parsed manifest.json. Throws a single Error listing every problem
+ * found, so a hand-edited manifest can be fixed in one go.
+ */
+export function validateManifest(data: unknown): AssetManifestFile {
+  if (!isObject(data)) {
+    throw new Error("Invalid asset manifest: expected an object");
+  }
+
+  const problems: string[] = [];
+  if (data.version !== MANIFEST_VERSION) {
+    problems.push(
+      `version: ${JSON.stringify(data.version)} is not supported ` +
+        `(expected ${MANIFEST_VERSION})`,
+    );
+  }
+  if (typeof data.source !== "string") {
+    problems.push("source: must be a string");
+  }
+  checkTextures(data.textures, problems);
+
+  if (problems.length > 0) {
+    throw new Error(`Invalid asset manifest:\n  ${problems.join("\n  ")}`);
+  }
+  return data as unknown as AssetManifestFile;
+}
@@ -0,0 +1,123 @@
+/**
+ * Wolf3D-TS Audio Output
+ *
+ * Plays the synthesized sound effects (see sfx.ts) and the looping music
+ * (see music.ts) through WebAudio. Each sound is rendered once into an
+ * AudioBuffer and reused. Browsers keep the AudioContext suspended until the
+ * page has had a key press or click, so resume() is called from input.
+ */
+
+import type { SoundEvent } from "../game/sound";
+import { SFX_SAMPLE_RATE, synthesizeSound } from "./sfx";
+
+/** Lowpass cutoff in Hz for sounds heard through walls */
+const MUFFLED_CUTOFF = 800;
+
+export class AudioPlayer {
+  private ctx: AudioContext | null = null;
+  private master: GainNode | null = null;
+  private music: GainNode | null = null;
+  private musicSource: AudioBufferSourceNode | null = null;
+  private buffers = new Map<string, AudioBuffer>();
+  private volume: number;
+  private musicVolume: number;
+
+  constructor(volume: number = 0.5, musicVolume: number = 0.35) {
+    this.volume = volume;
+    this.musicVolume = musicVolume;
+  }
+
+  /**
+   * Play a sound event, placed in the stereo field and muffled as the event
+   * asks. Silently does nothing where WebAudio is missing.
+   */
+  play(event: SoundEvent): void {
+    const ctx = this.context();
+    if (!ctx || !this.master) return;
+
+    const source = ctx.createBufferSource();
+    source.buffer = this.buffer(ctx, event);
+
+    // source -> [lowpass] -> [gain] -> [panner] -> master
+    let out: AudioNode = this.master;
+    if (event.pan) {
+      const panner = ctx.createStereoPanner();
+      panner.pan.value = Math.max(-1, Math.min(1, event.pan));
+      panner.connect(out);
+      out = panner;
+    }
+    if (event.volume !== undefined && event.volume < 1) {
+      const gain = ctx.createGain();
+      gain.gain.value = Math.max(0, event.volume);
+      gain.connect(out);
+      out = gain;
+    }
+    if (event.muffled) {
+      const filter = ctx.createBiquadFilter();
+      filter.type = "lowpass";
+      filter.frequency.value = MUFFLED_CUTOFF;
+      filter.connect(out);
+      out = filter;
+    }
+    source.connect(out);
+    source.start();
+  }
+
+  /**
+   * Loop PCM samples as music, replacing whatever music was playing. Pass
+   * null to stop the music.
+   */
+  playMusic(pcm: Float32Array | null, sampleRate: number): void {
+    if (this.musicSource) {
+      this.musicSource.stop();
+      this.musicSource.disconnect();
+      this.musicSource = null;
+    }
+    if (!pcm || pcm.length === 0) return;
+    const ctx = this.context();
+    if (!ctx || !this.music) return;
+
+    const buf = ctx.createBuffer(1, pcm.length, sampleRate);
+    buf.getChannelData(0).set(pcm);
+    const source = ctx.createBufferSource();
+    source.buffer = buf;
+    source.loop = true;
+    source.connect(this.music);
+    source.start();
+    this.musicSource = source;
+  }
+
+  /**
+   * Let a suspended AudioContext start. Call from a key or click handler.
+   */
+  resume(): void {
+    if (this.ctx && this.ctx.state === "suspended") void this.ctx.resume();
+  }
+
+  private context(): AudioContext | null {
+    if (!this.ctx) {
+      if (typeof AudioContext === "undefined") return null;
+      this.ctx = new AudioContext();
+      this.master = this.ctx.createGain();
+      this.master.gain.value = this.volume;
+      this.master.connect(this.ctx.destination);
+      this.music = this.ctx.createGain();
+      this.music.gain.value = this.musicVolume;
+      this.music.connect(this.ctx.destination);
+    }
+    if (this.ctx.state === "suspended") void this.ctx.resume();
+    return this.ctx;
+  }
+
+  private buffer(ctx: AudioContext, event: SoundEvent): AudioBuffer {
+    const key = `${event.sound}:${event.voice ?? ""}`;
+    let buf = this.buffers.get(key);
+    if (!buf) {
+      const pcm = synthesizeSound(event.sound, event.voice);
+      buf = ctx.createBuffer(1, Math.max(1, pcm.length), SFX_SAMPLE_RATE);
+      buf.getChannelData(0).set(pcm);
+      this.buffers.set(key, buf);
+    }
+    return buf;
+  }
+}
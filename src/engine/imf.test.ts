@@ -0,0 +1,96 @@
+import { describe, expect, it } from "vitest";
+import {
+  IMF_RATE,
+  encodeImf,
+  imfDuration,
+  parseImf,
+  renderImf,
+} from "./imf";
+import type { ImfCommand } from "./imf";
+import { getTrack, TRACK_NAMES } from "./tracks";
+
+const RATE = 11025;
+
+/** A sine-ish FM tone on channel 0, held for `ticks`, then keyed off */
+function tone(ticks: number): ImfCommand[] {
+  return [
+    { reg: 0x20, value: 0x01, delay: 0 },
+    { reg: 0x23, value: 0x01, delay: 0 },
+    { reg: 0x40, value: 0x10, delay: 0 },
+    { reg: 0x43, value: 0x00, delay: 0 },
+    { reg: 0x60, value: 0xf0, delay: 0 },
+    { reg: 0x63, value: 0xf0, delay: 0 },
+    { reg: 0x80, value: 0x77, delay: 0 },
+    { reg: 0x83, value: 0x77, delay: 0 },
+    { reg: 0xa0, value: 0x41, delay: 0 },
+    { reg: 0xb0, value: 0x32, delay: ticks },
+    { reg: 0xb0, value: 0x12, delay: 0 },
+  ];
+}
+
+function peak(pcm: Float32Array): number {
+  return pcm.reduce((max, s) => Math.max(max, Math.abs(s)), 0);
+}
+
+describe("encodeImf / parseImf", () => {
+  it("round-trips commands through a type-1 file", () => {
+    const commands = tone(350);
+    const imf = encodeImf(commands);
+    expect(imf[0] | (imf[1] << 8)).toBe(imf.length - 2);
+    expect(parseImf(imf)).toEqual(commands);
+  });
+
+  it("splits delays past 16 bits without changing the duration", () => {
+    const commands: ImfCommand[] = [{ reg: 0xa0, value: 1, delay: 70000 }];
+    const parsed = parseImf(encodeImf(commands));
+    expect(parsed).toHaveLength(2);
+    expect(imfDuration(parsed)).toBe(70000 / IMF_RATE);
+  });
+
+  it("throws when the data overflows the length word", () => {
+    const commands = new Array<ImfCommand>(0x4000).fill({
+      reg: 0,
+      value: 0,
+      delay: 1,
+    });
+    expect(() => encodeImf(commands.slice(1))).not.toThrow();
+    expect(() => encodeImf(commands)).toThrow(/more than a type-1 file/);
+  });
+
+  it("reads data without a length word as type 0", () => {
+    const bytes = new Uint8Array([0xa0, 0x41, 0x07, 0x00, 0xb0, 0x32, 0, 0]);
+    expect(parseImf(bytes)).toEqual([
+      { reg: 0xa0, value: 0x41, delay: 7 },
+      { reg: 0xb0, value: 0x32, delay: 0 },
+    ]);
+  });
+});
+
+describe("renderImf", () => {
+  it("renders exactly the song's length", () => {
+    expect(renderImf(tone(IMF_RATE), RATE)).toHaveLength(RATE);
+  });
+
+  it("is silent with no key on", () => {
+    const pcm = renderImf([{ reg: 0xa0, value: 0x41, delay: 70 }], RATE);
+    expect(peak(pcm)).toBe(0);
+  });
+
+  it("plays a keyed note within -1..1, the same every time", () => {
+    const pcm = renderImf(tone(70), RATE);
+    expect(pcm.every(Number.isFinite)).toBe(true);
+    expect(peak(pcm)).toBeGreaterThan(0.01);
+    expect(peak(pcm)).toBeLessThanOrEqual(1);
+    expect(renderImf(tone(70), RATE)).toEqual(pcm);
+  });
+
+  it("renders every shipped track", () => {
+    for (const name of TRACK_NAMES) {
+      const commands = parseImf(getTrack(name)!);
+      const pcm = renderImf(commands.slice(0, 400), RATE);
+      expect(pcm.length, name).toBeGreaterThan(0);
+      expect(pcm.every(Number.isFinite), name).toBe(true);
+      expect(peak(pcm), name).toBeGreaterThan(0.01);
+    }
+  });
+});
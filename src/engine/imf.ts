@@ -0,0 +1,119 @@
+/**
+ * Wolf3D-TS IMF Music
+ *
+ * IMF is id's AdLib music format: a list of (register, value, delay) writes
+ * replayed against the OPL2 at 700 Hz. Type-0 files are the bare list; type-1
+ * files (what Wolf3D ships) prefix it with a 16-bit byte length. Rendering
+ * runs the writes through the emulator in opl2.ts, offline and
+ * deterministically, so it works the same under Node as in the browser.
+ */
+
+import { OPL2 } from "./opl2";
+
+// ============================================================
+// Format
+// ============================================================
+
+/** Command rate of Wolf3D's music player, in Hz */
+export const IMF_RATE = 700;
+
+export const MUSIC_SAMPLE_RATE = 22050;
+
+export interface ImfCommand {
+  reg: number;
+  value: number;
+  /** Ticks (1/IMF_RATE s) to wait after this write */
+  delay: number;
+}
+
+/**
+ * Decode an IMF file. A leading length word that fits the data marks a
+ * type-1 file; anything else is read as type 0.
+ */
+export function parseImf(bytes: Uint8Array): ImfCommand[] {
+  let start = 0;
+  let end = bytes.length - (bytes.length % 4);
+  if (bytes.length >= 2) {
+    const length = bytes[0] | (bytes[1] << 8);
+    if (length > 0 && length % 4 === 0 && length + 2 <= bytes.length) {
+      start = 2;
+      end = 2 + length;
+    }
+  }
+
+  const commands: ImfCommand[] = [];
+  for (let i = start; i + 4 <= end; i += 4) {
+    commands.push({
+      reg: bytes[i],
+      value: bytes[i + 1],
+      delay: bytes[i + 2] | (bytes[i + 3] << 8),
+    });
+  }
+  return commands;
+}
+
+/**
+ * Encode commands as a type-1 IMF file. Delays longer than a 16-bit tick
+ * count are split across padding writes to register 0. Throws if the
+ * commands take more bytes than the length word can hold.
+ */
+export function encodeImf(commands: ImfCommand[]): Uint8Array {
+  const bytes: number[] = [];
+  for (const cmd of commands) {
+    let delay = cmd.delay;
+    bytes.push(cmd.reg & 0xff, cmd.value & 0xff);
+    while (delay > 0xffff) {
+      bytes.push(0xff, 0xff, 0, 0);
+      delay -= 0xffff;
+    }
+    bytes.push(delay & 0xff, delay >> 8);
+  }
+  if (bytes.length > 0xffff) {
+    throw new Error(
+      `IMF data is ${bytes.length} bytes, more than a type-1 file can hold`,
+    );
+  }
+
+  const out = new Uint8Array(bytes.length + 2);
+  out[0] = bytes.length & 0xff;
+  out[1] = bytes.length >> 8;
+  out.set(bytes, 2);
+  return out;
+}
+
+/** Length of a song in seconds. */
+export function imfDuration(commands: ImfCommand[]): number {
+  return commands.reduce((t, c) => t + c.delay, 0) / IMF_RATE;
+}
+
+// ============================================================
+// Rendering
+// ============================================================
+
+/**
+ * Play an IMF song through a fresh OPL2 into mono PCM samples in -1..1.
+ * The buffer is exactly as long as the song's delays add up to.
+ */
+export function renderImf(
+  commands: ImfCommand[],
+  sampleRate: number = MUSIC_SAMPLE_RATE,
+): Float32Array {
+  const opl = new OPL2(sampleRate);
+  const out = new Float32Array(Math.round(imfDuration(commands) * sampleRate));
+
+  let ticks = 0;
+  let written = 0;
+  for (const cmd of commands) {
+    opl.write(cmd.reg, cmd.value);
+    ticks += cmd.delay;
+    const target = Math.min(
+      out.length,
+      Math.round((ticks * sampleRate) / IMF_RATE),
+    );
+    if (target > written) {
+      opl.generate(out, written, target - written);
+      written = target;
+    }
+  }
+  return out;
+}
@@ -0,0 +1,425 @@
+/**
+ * Wolf3D-TS Mod Packs
+ *
+ * A mod pack is a zip file or a folder holding a mod.json and the PNGs and
+ * map files it names, by path relative to mod.json:
+ *
+ *   {
+ *     "version": 1,
+ *     "name": "Brick Remix",
+ *     "textures": [ ...entries as in manifest.json (see assetManifest.ts) ],
+ *     "maps": {
+ *       "maphead": "MAPHEAD.WL6",
+ *       "gamemaps": "GAMEMAPS.WL6",
+ *       "floors": [{ "slot": 0, "episode": 0, "floor": 0 }]
+ *     }
+ *   }
+ *
+ * Its textures are layered over the base assets through
+ * Renderer.applyAssets, so a pack can replace any wall, door or SPR_* sprite
+ * and add walls past the procedural set, up to the last wall tile. Its maps
+ * are an original MAPHEAD/GAMEMAPS pair, as the map editors write them, with
+ * each slot it uses standing in for one of our floors (or a secret floor).
+ *
+ * Active packs are kept file by file in IndexedDB so they come back next
+ * session; their order (later packs win) is kept in localStorage.
+ */
+
+import { checkTextures } from "./assetManifest";
+import type { TextureEntry } from "./assetManifest";
+import { loadManifestAssets } from "./assetLoader";
+import type { AssetManifest } from "./assetLoader";
+import { readZip } from "./zip";
+import { parseMapHead, loadMap } from "../core/gamemaps";
+import { EPISODES } from "../core/episodes";
+import { NUM_DIFFICULTIES } from "../core/types";
+import type { FloorSlot, FloorSource } from "../core/maps";
+
+// ============================================================
+// Format
+// ============================================================
+
+export const MOD_MANIFEST = "mod.json";
+export const MOD_VERSION = 1;
+
+/** Wall tiles run from 1 to this; 90 and up are doors and markers */
+const LAST_WALL_TILE = 89;
+
+export interface ModFloorEntry {
+  /** MAPHEAD slot of the map */
+  slot: number;
+  /** Floor it replaces: episode (0-based) and floor index, or "secret" */
+  episode: number;
+  floor: number | "secret";
+}
+
+export interface ModManifestFile {
+  version: number;
+  /** Shown in the mod list; also names the pack in storage */
+  name: string;
+  description?: string;
+  textures?: TextureEntry[];
+  maps?: {
+    maphead: string;
+    gamemaps: string;
+    floors: ModFloorEntry[];
+  };
+}
+
+/** A pack's files, by path relative to its mod.json */
+export type ModPackFiles = Map<string, Blob>;
+
+/** A pack read and loaded, ready to apply */
+export interface ModPack {
+  manifest: ModManifestFile;
+  files: ModPackFiles;
+  assets: AssetManifest;
+  floors: [FloorSlot, FloorSource][];
+}
+
+// ============================================================
+// Validation
+// ============================================================
+
+const isObject = (v: unknown): v is Record<string, unknown> =>
+  typeof v === "object" && v !== null && !Array.isArray(v);
+
+const isInt = (v: unknown): v is number =>
+  typeof v === "number" && Number.isInteger(v);
+
+const isFile = (v: unknown): v is string =>
+  typeof v === "string" && v.length > 0;
+
+function checkFloor(where: string, raw: unknown, problems: string[]): void {
+  if (!isObject(raw)) {
+    problems.push(`${where}: must be an object`);
+    return;
+  }
+  if (!isInt(raw.slot) || raw.slot < 0) {
+    problems.push(`${where}.slot: must be a MAPHEAD slot number`);
+  }
+  const episode = isInt(raw.episode) ? EPISODES[raw.episode] : undefined;
+  if (!episode) {
+    problems.push(
+      `${where}.episode: episodes go from 0 to ${EPISODES.length - 1}`,
+    );
+  } else if (
+    raw.floor !== "secret" &&
+    (!isInt(raw.floor) || raw.floor < 0 || raw.floor >= episode.floors.length)
+  ) {
+    problems.push(
+      `${where}.floor: must be "secret" or a floor from 0 to ` +
+        `${episode.floors.length - 1}`,
+    );
+  }
+}
+
+/**
+ * Check a parsed mod.json. Throws a single Error listing every problem
+ * found, as validateManifest does.
+ */
+export function validateModManifest(data: unknown): ModManifestFile {
+  if (!isObject(data)) {
+    throw new Error(`Invalid ${MOD_MANIFEST}: expected an object`);
+  }
+
+  const problems: string[] = [];
+  if (data.version !== MOD_VERSION) {
+    problems.push(
+      `version: ${JSON.stringify(data.version)} is not supported ` +
+        `(expected ${MOD_VERSION})`,
+    );
+  }
+  if (!isFile(data.name)) problems.push("name: must be a non-empty string");
+  if (data.description !== undefined && typeof data.description !== "string") {
+    problems.push("description: must be a string");
+  }
+
+  if (data.textures !== undefined) {
+    checkTextures(data.textures, problems);
+    if (Array.isArray(data.textures)) {
+      for (const [i, raw] of data.textures.entries()) {
+        if (
+          isObject(raw) &&
+          raw.category === "wall" &&
+          isInt(raw.index) &&
+          raw.index >= LAST_WALL_TILE
+        ) {
+          problems.push(
+            `textures[${i}].index: walls go from 0 to ${LAST_WALL_TILE - 1} ` +
+              `(wall tile - 1)`,
+          );
+        }
+      }
+    }
+  }
+
+  const maps = data.maps;
+  if (maps !== undefined) {
+    if (!isObject(maps)) {
+      problems.push("maps: must be an object");
+    } else {
+      for (const key of ["maphead", "gamemaps"] as const) {
+        if (!isFile(maps[key])) problems.push(`maps.${key}: must be a path`);
+      }
+      if (!Array.isArray(maps.floors)) {
+        problems.push("maps.floors: must be an array");
+      } else {
+        for (const [i, raw] of maps.floors.entries()) {
+          checkFloor(`maps.floors[${i}]`, raw, problems);
+        }
+      }
+    }
+  }
+
+  if (problems.length > 0) {
+    throw new Error(`Invalid ${MOD_MANIFEST}:\n  ${problems.join("\n  ")}`);
+  }
+  return data as unknown as ModManifestFile;
+}
+
+// ============================================================
+// Reading packs
+// ============================================================
+
+/**
+ * Take the files of a zip or folder by their full path and keep the ones
+ * under its mod.json (the shallowest, if there are several), by path
+ * relative to it. Throws if there is no mod.json.
+ */
+export function rootAtManifest(files: Map<string, Blob>): ModPackFiles {
+  let root: string | null = null;
+  for (const path of files.keys()) {
+    if (path !== MOD_MANIFEST && !path.endsWith("/" + MOD_MANIFEST)) continue;
+    const dir = path.slice(0, path.length - MOD_MANIFEST.length);
+    if (root === null || dir.length < root.length) root = dir;
+  }
+  if (root === null) throw new Error(`Mod pack has no ${MOD_MANIFEST}`);
+
+  const rooted: ModPackFiles = new Map();
+  for (const [path, blob] of files) {
+    if (path.startsWith(root)) rooted.set(path.slice(root.length), blob);
+  }
+  return rooted;
+}
+
+/** Read a zipped mod pack. */
+export async function readZipPack(file: Blob): Promise<ModPackFiles> {
+  const files = await readZip(new Uint8Array(await file.arrayBuffer()));
+  return rootAtManifest(files);
+}
+
+/** Read a mod pack folder picked with <input webkitdirectory>. */
+export function readFolderPack(list: FileList): ModPackFiles {
+  const files = new Map<string, Blob>();
+  for (const file of Array.from(list)) {
+    files.set(file.webkitRelativePath || file.name, file);
+  }
+  return rootAtManifest(files);
+}
+
+// Every file under a dropped folder, by path from the folder it was dropped in
+async function readEntry(
+  entry: FileSystemEntry,
+  files: Map<string, Blob>,
+): Promise<void> {
+  if (entry.isFile) {
+    const file = await new Promise<File>((resolve, reject) =>
+      (entry as FileSystemFileEntry).file(resolve, reject),
+    );
+    files.set(entry.fullPath.replace(/^\//, ""), file);
+    return;
+  }
+  const reader = (entry as FileSystemDirectoryEntry).createReader();
+  // readEntries hands the listing over in batches until it returns none
+  for (;;) {
+    const batch = await new Promise<FileSystemEntry[]>((resolve, reject) =>
+      reader.readEntries(resolve, reject),
+    );
+    if (batch.length === 0) break;
+    for (const child of batch) await readEntry(child, files);
+  }
+}
+
+/**
+ * Read a mod pack dropped on the page: a zip file, or a folder. Throws if
+ * the drop holds neither.
+ */
+export async function readDroppedPack(
+  transfer: DataTransfer,
+): Promise<ModPackFiles> {
+  const entries = Array.from(transfer.items)
+    .map((item) => item.webkitGetAsEntry())
+    .filter((entry): entry is FileSystemEntry => entry !== null);
+  if (entries.length === 1 && entries[0].isDirectory) {
+    const files = new Map<string, Blob>();
+    await readEntry(entries[0], files);
+    return rootAtManifest(files);
+  }
+  const zip = Array.from(transfer.files).find((file) =>
+    file.name.toLowerCase().endsWith(".zip"),
+  );
+  if (!zip) throw new Error("Drop a mod pack folder or .zip file");
+  return readZipPack(zip);
+}
+
+// ============================================================
+// Loading packs
+// ============================================================
+
+async function readBytes(
+  files: ModPackFiles,
+  path: string,
+): Promise<Uint8Array> {
+  const blob = files.get(path);
+  if (!blob) throw new Error(`Mod pack is missing ${path}`);
+  return new Uint8Array(await blob.arrayBuffer());
+}
+
+/**
+ * Load a pack's textures and maps. Textures that fail to load are left out
+ * (see loadManifestAssets); a missing or invalid mod.json or map file,
+ * or a listed map that doesn't load at every skill level, throws.
+ */
+export async function openModPack(files: ModPackFiles): Promise<ModPack> {
+  const text = new TextDecoder().decode(await readBytes(files, MOD_MANIFEST));
+  const manifest = validateModManifest(JSON.parse(text));
+
+  // Images load from object URLs for the pack's files, freed once loaded
+  const urls: string[] = [];
+  const assets = await loadManifestAssets(
+    {
+      version: manifest.version,
+      source: manifest.name,
+      textures: manifest.textures ?? [],
+    },
+    (path) => {
+      const blob = files.get(path);
+      if (!blob) return "";
+      const url = URL.createObjectURL(blob);
+      urls.push(url);
+      return url;
+    },
+  );
+  for (const url of urls) URL.revokeObjectURL(url);
+
+  const floors: [FloorSlot, FloorSource][] = [];
+  if (manifest.maps) {
+    const head = parseMapHead(await readBytes(files, manifest.maps.maphead));
+    const gamemaps = await readBytes(files, manifest.maps.gamemaps);
+    for (const { slot, episode, floor } of manifest.maps.floors) {
+      // Load it at every skill now, so a damaged map fails the pack here
+      // rather than the game when the floor is reached
+      for (let difficulty = 0; difficulty < NUM_DIFFICULTIES; difficulty++) {
+        try {
+          loadMap(head, gamemaps, slot, difficulty);
+        } catch (err) {
+          const why = err instanceof Error ? err.message : String(err);
+          throw new Error(`${manifest.maps.gamemaps}, slot ${slot}: ${why}`);
+        }
+      }
+      floors.push([
+        { episode, floor },
+        (difficulty) => loadMap(head, gamemaps, slot, difficulty),
+      ]);
+    }
+  }
+
+  return { manifest, files, assets, floors };
+}
+
+// ============================================================
+// Storage
+// ============================================================
+
+const ORDER_KEY = "wolf3d-ts.mods";
+const DB_NAME = "wolf3d-ts";
+const DB_STORE = "mods";
+
+interface StoredPack {
+  name: string;
+  files: ModPackFiles;
+}
+
+function openDb(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, 1);
+    request.onupgradeneeded = () =>
+      request.result.createObjectStore(DB_STORE, { keyPath: "name" });
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// Run one request against the pack store and wait for its transaction
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>,
+): Promise<T> {
+  const db = await openDb();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const tx = db.transaction(DB_STORE, mode);
+      const request = run(tx.objectStore(DB_STORE));
+      tx.oncomplete = () => resolve(request.result);
+      tx.onerror = () => reject(tx.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+/** Names of the active packs, in the order they are applied. */
+export function readModOrder(): string[] {
+  try {
+    const names = JSON.parse(localStorage.getItem(ORDER_KEY) ?? "[]");
+    return Array.isArray(names) ? names.filter(isFile) : [];
+  } catch {
+    return [];
+  }
+}
+
+function writeModOrder(names: string[]): void {
+  localStorage.setItem(ORDER_KEY, JSON.stringify(names));
+}
+
+/**
+ * Keep a pack for later sessions, last in the order. A pack of the same name
+ * is replaced and moves to the end. Throws if storage is unavailable.
+ */
+export async function storeModPack(pack: ModPack): Promise<void> {
+  const { name } = pack.manifest;
+  const stored: StoredPack = { name, files: pack.files };
+  await withStore("readwrite", (store) => store.put(stored));
+  writeModOrder([...readModOrder().filter((n) => n !== name), name]);
+}
+
+/** Forget a stored pack. */
+export async function deleteModPack(name: string): Promise<void> {
+  writeModOrder(readModOrder().filter((n) => n !== name));
+  await withStore("readwrite", (store) => store.delete(name));
+}
+
+/**
+ * Open every stored pack, in order. Packs that can no longer be read are
+ * reported and skipped, but stay stored.
+ */
+export async function loadStoredModPacks(): Promise<ModPack[]> {
+  const packs: ModPack[] = [];
+  for (const name of readModOrder()) {
+    try {
+      const stored = await withStore<StoredPack | undefined>(
+        "readonly",
+        (store) => store.get(name),
+      );
+      if (!stored) {
+        console.warn(`Mod pack "${name}" is no longer stored`);
+        continue;
+      }
+      packs.push(await openModPack(stored.files));
+    } catch (err) {
+      console.warn(`Failed to load mod pack "${name}":`, err);
+    }
+  }
+  return packs;
+}
@@ -0,0 +1,74 @@
+/**
+ * Wolf3D-TS Music Manager
+ *
+ * Decides which track plays (each floor's LevelParams names one; the title,
+ * intermission and victory screens have their own) and hands it to the
+ * AudioPlayer as a seamless loop. Tracks are rendered from IMF through the
+ * OPL2 emulator in a worker (see musicWorker.ts) the first time they are
+ * needed, and kept.
+ */
+
+import { getFloorMusic } from "../core/episodes";
+import type { AudioPlayer } from "./audio";
+import { MUSIC_SAMPLE_RATE } from "./imf";
+import type { MusicReply, MusicRequest } from "./musicWorker";
+
+export const TITLE_MUSIC = "title";
+export const INTERMISSION_MUSIC = "intermission";
+export const VICTORY_MUSIC = "victory";
+
+export class MusicManager {
+  private audio: AudioPlayer;
+  private current: string | null = null;
+  /** Samples of each track rendered so far (null if there is no such track) */
+  private rendered = new Map<string, Float32Array | null>();
+  private pending = new Set<string>();
+  private worker: Worker;
+
+  constructor(audio: AudioPlayer) {
+    this.audio = audio;
+    this.worker = new Worker(new URL("./musicWorker.ts", import.meta.url), {
+      type: "module",
+    });
+    this.worker.addEventListener("message", (e: MessageEvent<MusicReply>) =>
+      this.finished(e.data),
+    );
+    this.worker.addEventListener("error", (e) =>
+      console.warn("Music worker failed:", e.message),
+    );
+  }
+
+  /**
+   * Switch to a track by name, or to silence with null. Asking for the track
+   * already playing leaves it running. A track not rendered yet starts once
+   * the worker is done with it; until then there is silence.
+   */
+  play(track: string | null): void {
+    if (track === this.current) return;
+    this.current = track;
+    const pcm = track ? this.rendered.get(track) : null;
+    this.audio.playMusic(pcm ?? null, MUSIC_SAMPLE_RATE);
+    if (track && pcm === undefined) this.request(track);
+  }
+
+  /**
+   * Play the track for a floor of an episode (or its secret floor).
+   */
+  playFloor(episode: number, floor: number, secret: boolean): void {
+    this.play(getFloorMusic(episode, floor, secret));
+  }
+
+  private request(track: string): void {
+    if (this.pending.has(track)) return;
+    this.pending.add(track);
+    const request: MusicRequest = { track };
+    this.worker.postMessage(request);
+  }
+
+  private finished({ track, pcm }: MusicReply): void {
+    this.pending.delete(track);
+    if (!pcm) console.warn(`No music track "${track}"`);
+    this.rendered.set(track, pcm);
+    if (track === this.current) this.audio.playMusic(pcm, MUSIC_SAMPLE_RATE);
+  }
+}
@@ -0,0 +1,28 @@
+/**
+ * Wolf3D-TS Music Worker
+ *
+ * Renders tracks from IMF through the OPL2 emulator off the main thread; a
+ * track takes a few hundred milliseconds, long enough to stall the game
+ * loop. Each message names a track, and the reply carries its samples (or
+ * null if there is no such track), handed over rather than copied.
+ */
+
+import { MUSIC_SAMPLE_RATE, parseImf, renderImf } from "./imf";
+import { getTrack } from "./tracks";
+
+export interface MusicRequest {
+  track: string;
+}
+
+export interface MusicReply {
+  track: string;
+  pcm: Float32Array | null;
+}
+
+self.addEventListener("message", (e: MessageEvent<MusicRequest>) => {
+  const { track } = e.data;
+  const imf = getTrack(track);
+  const pcm = imf ? renderImf(parseImf(imf), MUSIC_SAMPLE_RATE) : null;
+  const reply: MusicReply = { track, pcm };
+  self.postMessage(reply, { transfer: pcm ? [pcm.buffer] : [] });
+});
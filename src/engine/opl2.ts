@@ -0,0 +1,487 @@
+/**
+ * Wolf3D-TS OPL2 (YM3812) Emulator
+ *
+ * A register-level model of the AdLib's FM chip, enough to play the music
+ * the original drove through its IMF player: nine two-operator channels with
+ * FM or additive connection, operator feedback, the four OPL2 waveforms,
+ * ADSR envelopes with key scaling, total level and key scale level, and the
+ * tremolo / vibrato LFOs. Rhythm mode (register 0xBD bit 5) is not emulated;
+ * its channels keep playing as melodic ones.
+ *
+ * Pure arithmetic with no browser APIs, so music renders offline under Node.
+ */
+
+// ============================================================
+// Chip Constants
+// ============================================================
+
+/** The chip's native sample rate: 3.579545 MHz / 72. */
+export const OPL_CLOCK_RATE = 49716;
+
+export const OPL_CHANNELS = 9;
+
+/** Frequency multiplier per MULT register value */
+const MULTIPLIERS = [0.5, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 10, 12, 12, 15, 15];
+
+/** Milliseconds for an attack from silence at rates 0-15 (0 never starts) */
+const ATTACK_MS = [
+  Infinity,
+  2826,
+  1413,
+  706,
+  353,
+  176,
+  88,
+  44,
+  22,
+  11,
+  5.5,
+  2.8,
+  1.4,
+  0.7,
+  0.38,
+  0,
+];
+
+/** Milliseconds for a decay or release to fall 96 dB at rates 0-15 */
+const DECAY_MS = [
+  Infinity,
+  39280,
+  19640,
+  9820,
+  4910,
+  2455,
+  1227,
+  614,
+  307,
+  153,
+  77,
+  38,
+  19,
+  9.6,
+  4.8,
+  2.4,
+];
+
+/** Key scale level in dB at block 7, by the top four F-number bits */
+const KSL_DB = [
+  0, 9, 12, 13.875, 15, 16.125, 16.875, 17.625, 18, 18.75, 19.125, 19.5, 19.875,
+  20.25, 20.625, 21,
+];
+
+/** KSL register value to a multiple of the 3 dB/octave table above */
+const KSL_SCALE = [0, 1, 0.5, 2];
+
+/** Operator slot for register offsets 0x00-0x15 (-1 for the gaps) */
+const SLOT_OF_OFFSET = [
+  0, 1, 2, 3, 4, 5, -1, -1, 6, 7, 8, 9, 10, 11, -1, -1, 12, 13, 14, 15, 16, 17,
+];
+
+/** Modulator and carrier slots of each channel */
+const CHANNEL_SLOTS: [number, number][] = [
+  [0, 3],
+  [1, 4],
+  [2, 5],
+  [6, 9],
+  [7, 10],
+  [8, 11],
+  [12, 15],
+  [13, 16],
+  [14, 17],
+];
+
+/** Silence, in dB of attenuation */
+const MAX_ATTENUATION = 96;
+
+const TREMOLO_HZ = 3.7;
+const VIBRATO_HZ = 6.1;
+
+// ============================================================
+// Lookup Tables
+// ============================================================
+
+const SINE_BITS = 10;
+const SINE_SIZE = 1 << SINE_BITS;
+const SINE = new Float32Array(SINE_SIZE);
+for (let i = 0; i < SINE_SIZE; i++)
+  SINE[i] = Math.sin((2 * Math.PI * i) / SINE_SIZE);
+
+/** Attenuation to amplitude in 1/8 dB steps */
+const AMP_STEPS = 8;
+const AMPLITUDE = new Float32Array(MAX_ATTENUATION * 2 * AMP_STEPS + 1);
+for (let i = 0; i < AMPLITUDE.length; i++) {
+  AMPLITUDE[i] = Math.pow(10, -i / AMP_STEPS / 20);
+}
+
+function amplitude(db: number): number {
+  if (db >= MAX_ATTENUATION) return 0;
+  return AMPLITUDE[Math.min(AMPLITUDE.length - 1, Math.floor(db * AMP_STEPS))];
+}
+
+/** One of the four OPL2 waveforms at phase 0..1. */
+function waveform(wave: number, phase: number): number {
+  const s = SINE[Math.floor(phase * SINE_SIZE) & (SINE_SIZE - 1)];
+  switch (wave) {
+    case 1: // half sine
+      return s > 0 ? s : 0;
+    case 2: // absolute sine
+      return Math.abs(s);
+    case 3: // quarter sine pulses
+      return phase - Math.floor(phase * 2) / 2 < 0.25 ? Math.abs(s) : 0;
+    default:
+      return s;
+  }
+}
+
+// ============================================================
+// Operators and Channels
+// ============================================================
+
+enum EnvStage {
+  Off,
+  Attack,
+  Decay,
+  Sustain,
+  Release,
+}
+
+interface Operator {
+  tremolo: boolean;
+  vibrato: boolean;
+  /** EG-TYP: hold at the sustain level while the key is down */
+  sustain: boolean;
+  ksr: boolean;
+  mult: number;
+  ksl: number;
+  totalLevel: number;
+  attackRate: number;
+  decayRate: number;
+  sustainLevel: number;
+  releaseRate: number;
+  wave: number;
+
+  stage: EnvStage;
+  /** Envelope attenuation in dB */
+  env: number;
+  /** Per-sample attack factor and decay / release steps (dB) */
+  attackK: number;
+  decayStep: number;
+  releaseStep: number;
+  /** Phase in cycles, 0..1 */
+  phase: number;
+  /** Last two outputs, for feedback */
+  out: number;
+  prevOut: number;
+}
+
+interface Channel {
+  fnum: number;
+  block: number;
+  keyOn: boolean;
+  feedback: number;
+  additive: boolean;
+}
+
+function createOperator(): Operator {
+  return {
+    tremolo: false,
+    vibrato: false,
+    sustain: false,
+    ksr: false,
+    mult: 1,
+    ksl: 0,
+    totalLevel: 0,
+    attackRate: 0,
+    decayRate: 0,
+    sustainLevel: 0,
+    releaseRate: 0,
+    wave: 0,
+    stage: EnvStage.Off,
+    env: MAX_ATTENUATION,
+    attackK: 0,
+    decayStep: 0,
+    releaseStep: 0,
+    phase: 0,
+    out: 0,
+    prevOut: 0,
+  };
+}
+
+// ============================================================
+// Chip
+// ============================================================
+
+export class OPL2 {
+  private sampleRate: number;
+  private ops: Operator[] = [];
+  private channels: Channel[] = [];
+  private waveSelect = false;
+  private deepTremolo = false;
+  private deepVibrato = false;
+  private lfoTime = 0;
+
+  constructor(sampleRate: number = OPL_CLOCK_RATE) {
+    this.sampleRate = sampleRate;
+    this.reset();
+  }
+
+  /** Silence every channel and clear all registers. */
+  reset(): void {
+    this.ops = [];
+    for (let i = 0; i < 18; i++) this.ops.push(createOperator());
+    this.channels = [];
+    for (let i = 0; i < OPL_CHANNELS; i++) {
+      this.channels.push({
+        fnum: 0,
+        block: 0,
+        keyOn: false,
+        feedback: 0,
+        additive: false,
+      });
+    }
+    this.waveSelect = false;
+    this.deepTremolo = false;
+    this.deepVibrato = false;
+    this.lfoTime = 0;
+  }
+
+  /** Write a value to a chip register, as an OUT to port 0x389 would. */
+  write(reg: number, value: number): void {
+    reg &= 0xff;
+    value &= 0xff;
+
+    if (reg === 0x01) {
+      this.waveSelect = (value & 0x20) !== 0;
+      return;
+    }
+    if (reg === 0xbd) {
+      this.deepTremolo = (value & 0x80) !== 0;
+      this.deepVibrato = (value & 0x40) !== 0;
+      return;
+    }
+
+    const group = reg & 0xe0;
+    if ((group >= 0x20 && group <= 0x80) || group === 0xe0) {
+      const slot = SLOT_OF_OFFSET[reg & 0x1f] ?? -1;
+      if (slot < 0) return;
+      this.writeOperator(slot, group, value);
+      return;
+    }
+
+    const ch = reg & 0x0f;
+    if (ch >= OPL_CHANNELS) return;
+    const channel = this.channels[ch];
+    switch (reg & 0xf0) {
+      case 0xa0:
+        channel.fnum = (channel.fnum & 0x300) | value;
+        this.updateRates(ch);
+        break;
+      case 0xb0: {
+        channel.fnum = (channel.fnum & 0xff) | ((value & 3) << 8);
+        channel.block = (value >> 2) & 7;
+        const keyOn = (value & 0x20) !== 0;
+        if (keyOn && !channel.keyOn) this.keyOn(ch);
+        if (!keyOn && channel.keyOn) this.keyOff(ch);
+        channel.keyOn = keyOn;
+        this.updateRates(ch);
+        break;
+      }
+      case 0xc0:
+        channel.feedback = (value >> 1) & 7;
+        channel.additive = (value & 1) !== 0;
+        break;
+    }
+  }
+
+  private writeOperator(slot: number, group: number, value: number): void {
+    const op = this.ops[slot];
+    switch (group) {
+      case 0x20:
+        op.tremolo = (value & 0x80) !== 0;
+        op.vibrato = (value & 0x40) !== 0;
+        op.sustain = (value & 0x20) !== 0;
+        op.ksr = (value & 0x10) !== 0;
+        op.mult = MULTIPLIERS[value & 0x0f];
+        break;
+      case 0x40:
+        op.ksl = value >> 6;
+        op.totalLevel = value & 0x3f;
+        break;
+      case 0x60:
+        op.attackRate = value >> 4;
+        op.decayRate = value & 0x0f;
+        break;
+      case 0x80:
+        op.sustainLevel = value >> 4;
+        op.releaseRate = value & 0x0f;
+        break;
+      case 0xe0:
+        op.wave = value & 3;
+        break;
+    }
+    this.updateRates(this.channelOf(slot));
+  }
+
+  private channelOf(slot: number): number {
+    return CHANNEL_SLOTS.findIndex(([m, c]) => m === slot || c === slot);
+  }
+
+  /** Recompute a channel's envelope speeds after a rate, KSR or pitch change. */
+  private updateRates(ch: number): void {
+    const channel = this.channels[ch];
+    const keyScale = channel.block * 2 + ((channel.fnum >> 9) & 1);
+    const msPerSample = 1000 / this.sampleRate;
+    for (const slot of CHANNEL_SLOTS[ch]) {
+      const op = this.ops[slot];
+      // Each step of key scaling is a quarter of a rate, i.e. 2^(1/4) faster
+      const speedup = Math.pow(2, (op.ksr ? keyScale : keyScale >> 2) / 4);
+
+      const attackMs = ATTACK_MS[op.attackRate] / speedup;
+      op.attackK =
+        attackMs === 0
+          ? 1
+          : attackMs === Infinity
+            ? 0
+            : Math.min(1, (Math.log(193) * msPerSample) / attackMs);
+      const step = (rate: number): number => {
+        const ms = DECAY_MS[rate] / speedup;
+        return ms === Infinity ? 0 : (MAX_ATTENUATION * msPerSample) / ms;
+      };
+      op.decayStep = step(op.decayRate);
+      op.releaseStep = step(op.releaseRate);
+    }
+  }
+
+  private keyOn(ch: number): void {
+    for (const slot of CHANNEL_SLOTS[ch]) {
+      const op = this.ops[slot];
+      op.stage = EnvStage.Attack;
+      op.phase = 0;
+    }
+  }
+
+  private keyOff(ch: number): void {
+    for (const slot of CHANNEL_SLOTS[ch]) {
+      const op = this.ops[slot];
+      if (op.stage !== EnvStage.Off) op.stage = EnvStage.Release;
+    }
+  }
+
+  /** Advance an operator's envelope by one sample. */
+  private stepEnvelope(op: Operator): void {
+    switch (op.stage) {
+      case EnvStage.Attack:
+        op.env -= (op.env + 0.5) * op.attackK;
+        if (op.env <= 0.01) {
+          op.env = 0;
+          op.stage = EnvStage.Decay;
+        }
+        break;
+      case EnvStage.Decay: {
+        const level = op.sustainLevel === 15 ? 93 : op.sustainLevel * 3;
+        op.env += op.decayStep;
+        if (op.env >= level) {
+          op.env = level;
+          // Percussive sounds carry on fading even with the key held
+          op.stage = op.sustain ? EnvStage.Sustain : EnvStage.Release;
+        }
+        break;
+      }
+      case EnvStage.Sustain:
+        break;
+      case EnvStage.Release:
+        op.env += op.releaseStep;
+        if (op.env >= MAX_ATTENUATION) {
+          op.env = MAX_ATTENUATION;
+          op.stage = EnvStage.Off;
+        }
+        break;
+    }
+  }
+
+  /** Run one operator for one sample with the given phase modulation (cycles). */
+  private stepOperator(
+    op: Operator,
+    freq: number,
+    modulation: number,
+    kslDb: number,
+    tremoloDb: number,
+    vibrato: number,
+  ): number {
+    this.stepEnvelope(op);
+    const f = op.vibrato ? freq * vibrato : freq;
+    op.phase = (op.phase + (f * op.mult) / this.sampleRate) % 1;
+    if (op.stage === EnvStage.Off) return 0;
+
+    const db =
+      op.env +
+      op.totalLevel * 0.75 +
+      kslDb * KSL_SCALE[op.ksl] +
+      (op.tremolo ? tremoloDb : 0);
+    const p = op.phase + modulation;
+    return (
+      waveform(this.waveSelect ? op.wave : 0, p - Math.floor(p)) * amplitude(db)
+    );
+  }
+
+  /**
+   * Render samples into out[offset .. offset + count), replacing what was
+   * there.
+   */
+  generate(out: Float32Array, offset: number = 0, count?: number): void {
+    const n = count ?? out.length - offset;
+    const tremoloDepth = this.deepTremolo ? 4.8 : 1;
+    const vibratoCents = this.deepVibrato ? 14 : 7;
+
+    for (let i = 0; i < n; i++) {
+      this.lfoTime += 1 / this.sampleRate;
+      const tremoloDb =
+        (tremoloDepth *
+          (1 - Math.cos(2 * Math.PI * TREMOLO_HZ * this.lfoTime))) /
+        2;
+      const vibrato = Math.pow(
+        2,
+        (vibratoCents * Math.sin(2 * Math.PI * VIBRATO_HZ * this.lfoTime)) /
+          1200,
+      );
+
+      let sample = 0;
+      for (let ch = 0; ch < OPL_CHANNELS; ch++) {
+        const [m, c] = CHANNEL_SLOTS[ch];
+        const mod = this.ops[m];
+        const car = this.ops[c];
+        if (mod.stage === EnvStage.Off && car.stage === EnvStage.Off) continue;
+
+        const channel = this.channels[ch];
+        const freq =
+          (channel.fnum * OPL_CLOCK_RATE) / Math.pow(2, 20 - channel.block);
+        const kslDb = Math.max(
+          0,
+          KSL_DB[channel.fnum >> 6] - 6 * (7 - channel.block),
+        );
+
+        // Feedback: pi/16 at level 1 doubling up to 4 pi at level 7
+        const fb =
+          channel.feedback > 0
+            ? ((mod.out + mod.prevOut) / 2) *
+              (Math.pow(2, channel.feedback - 1) / 32)
+            : 0;
+        mod.prevOut = mod.out;
+        mod.out = this.stepOperator(mod, freq, fb, kslDb, tremoloDb, vibrato);
+
+        // A full-scale modulator swings the carrier's phase by 4 pi
+        const carOut = this.stepOperator(
+          car,
+          freq,
+          channel.additive ? 0 : mod.out * 2,
+          kslDb,
+          tremoloDb,
+          vibrato,
+        );
+        sample += channel.additive ? mod.out + carOut : carOut;
+      }
+
+      out[offset + i] = Math.max(-1, Math.min(1, sample * 0.25));
+    }
+  }
+}
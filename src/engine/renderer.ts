@@ -17,11 +17,20 @@ import {
   ACTORSIZE,
   ClassType,
   StaticItemType,
+  DoorLock,
   tileIndex,
 } from "../core/types";
-import type { Actor, StaticObj, DoorObj } from "../core/types";
+import type { Actor, StaticObj, DoorObj, StateType } from "../core/types";
 import { sintable, costable, pixelangle } from "../core/math";
 import type { AssetManifest } from "./assetLoader";
+import { DoorTexture } from "./assetManifest";
+import {
+  STATIC_SPRITE_START,
+  WEAPON_SPRITE_START,
+  WEAPON_FRAMES,
+} from "./vswap";
+import { findEnemyDef } from "../game/enemyDefs";
+import type { EnemySprite } from "../game/enemyDefs";
 
 // ============================================================================
 // Constants
@@ -30,15 +39,24 @@ import type { AssetManifest } from "./assetLoader";
 const TEX_SIZE = 64; // wall texture size (64x64)
 const SPRITE_SIZE = 64; // sprite texture height
 const NUM_WALL_TEXTURES = 8; // procedural wall textures
-const NUM_SPRITE_TEXTURES = 20; // procedural sprite textures
+const NUM_SPRITE_TEXTURES = 30; // procedural sprite textures
 
 // Ceiling and floor colors packed as 0xAABBGGRR (little-endian ABGR for Uint32Array)
 const CEILING_COLOR = 0xff393939; // dark gray ceiling
 const FLOOR_COLOR = 0xff808080; // lighter gray floor (more contrast with ceiling)
 
-// Door tile value range
-const DOOR_TILE_MIN = 90;
-const DOOR_TILE_MAX = 93;
+// Tilemap value of door 0; door n is DOOR_TILE + n (see setupLevel)
+const DOOR_TILE = 128;
+
+// Door texture drawn for each lock (the original's DOORWALL pages)
+const DOOR_TEXTURE_BY_LOCK: Record<DoorLock, DoorTexture> = {
+  [DoorLock.Normal]: DoorTexture.Normal,
+  [DoorLock.Lock1]: DoorTexture.Locked,
+  [DoorLock.Lock2]: DoorTexture.Locked,
+  [DoorLock.Lock3]: DoorTexture.Locked,
+  [DoorLock.Lock4]: DoorTexture.Locked,
+  [DoorLock.Elevator]: DoorTexture.Elevator,
+};
 
 // Maximum ray distance before we give up
 const MAX_RAY_DISTANCE = 0x7fff0000;
@@ -72,38 +90,141 @@ const SPR_DEAD_GUARD = 16;
 const SPR_WEAPON_KNIFE = 17;
 const SPR_WEAPON_PISTOL = 18;
 const SPR_WEAPON_MACHINEGUN = 19;
+const SPR_NEEDLE = 20;
+const SPR_FIREBALL = 21;
+const SPR_ROCKET = 22;
+const SPR_SPARK = 23;
+const SPR_IMPACT = 24;
+const SPR_SPECTRE = 25;
+const SPR_BLINKY = 26; // ...27 Clyde, 28 Pinky, 29 Inky
+
+// Mapping from enemies.json sprite names to sprite texture index
+const ENEMY_SPRITE_INDEX: Record<EnemySprite, number> = {
+  guard: SPR_GUARD,
+  dog: SPR_DOG,
+  ss: SPR_SS,
+  officer: SPR_OFFICER,
+  spectre: SPR_SPECTRE,
+  ghost: SPR_BLINKY,
+};
+
+// Projectiles and their impact puffs (see projectiles.ts)
+const PROJECTILE_SPRITE_INDEX: Partial<Record<ClassType, number>> = {
+  [ClassType.Needle]: SPR_NEEDLE,
+  [ClassType.Fire]: SPR_FIREBALL,
+  [ClassType.Rocket]: SPR_ROCKET,
+  [ClassType.HRocket]: SPR_ROCKET,
+  [ClassType.Spark]: SPR_SPARK,
+  [ClassType.Inert]: SPR_IMPACT,
+};
+
+// SPR_BLINKY_W1: the Pac-Man ghosts' frames, two each for Blinky, Pinky,
+// Clyde and Inky
+const GHOST_SPRITE_START = 288;
+// Their procedural stand-ins, in that order (after SPR_BLINKY)
+const GHOST_PROCEDURAL_OFFSET = [0, 2, 1, 3];
+
+// Loaded sprites sit after the procedural ones, by original sprite number
+const ASSET_SPRITE_BASE = NUM_SPRITE_TEXTURES;
+
+// The sprite in the original game (SPR_* in WL_DEF.H) of each actor whose
+// states don't carry one, drawn instead of the procedural one when the assets
+// have it. Enemy states' shapes are their SPR_* frame (see enemies.json)
+const ORIGINAL_ACTOR_SPRITES: Partial<Record<ClassType, number>> = {
+  [ClassType.BJ]: 408, // SPR_BJ_W1
+  [ClassType.Needle]: 317, // SPR_HYPO1
+  [ClassType.Fire]: 326, // SPR_FIRE1
+  [ClassType.Rocket]: 370, // SPR_ROCKET_1
+  [ClassType.HRocket]: 370,
+  [ClassType.Inert]: 382, // SPR_BOOM_1
+};
+
+// Facing of each DirType in ANGLES (dirangle in WL_ACT2.C)
+const DIR_ANGLE = [0, 45, 90, 135, 180, 225, 270, 315, 0];
+
+// Static items to their statinfo entry (SPR_STAT_0 + n, from WL_ACT1.C)
+const ORIGINAL_STATIC_SPRITES: Partial<Record<StaticItemType, number>> = {
+  [StaticItemType.Blood]: 0,
+  [StaticItemType.TableChairs]: 2,
+  [StaticItemType.FloorLamp]: 3,
+  [StaticItemType.Lamp]: 3,
+  [StaticItemType.Chandelier]: 4,
+  [StaticItemType.Skeleton]: 5,
+  [StaticItemType.EmptyBowl]: 6,
+  [StaticItemType.Pillar]: 7,
+  [StaticItemType.TreeBrown]: 8,
+  [StaticItemType.TreeGreen]: 8,
+  [StaticItemType.Bones]: 9,
+  [StaticItemType.Sink]: 10,
+  [StaticItemType.PlantGreen]: 11,
+  [StaticItemType.PlantBrown]: 11,
+  [StaticItemType.Vase]: 12,
+  [StaticItemType.Table]: 13,
+  [StaticItemType.CeilingLight]: 14,
+  [StaticItemType.CeilingLight2]: 14,
+  [StaticItemType.CeilingLamp]: 14,
+  [StaticItemType.Pot]: 15,
+  [StaticItemType.Stand]: 16,
+  [StaticItemType.GutHang]: 17,
+  [StaticItemType.GoldKey]: 20,
+  [StaticItemType.SilverKey]: 21,
+  [StaticItemType.Food]: 24,
+  [StaticItemType.FirstAid]: 25,
+  [StaticItemType.Clip]: 26,
+  [StaticItemType.MachineGunPickup]: 27,
+  [StaticItemType.ChainGunPickup]: 28,
+  [StaticItemType.Cross]: 29,
+  [StaticItemType.Chalice]: 30,
+  [StaticItemType.Chest]: 31,
+  [StaticItemType.Crown]: 32,
+  [StaticItemType.ExtraLife]: 33,
+  [StaticItemType.Barrel]: 35,
+  [StaticItemType.Well]: 36,
+  [StaticItemType.WellRed]: 36,
+  [StaticItemType.EmptyWell]: 37,
+  [StaticItemType.Flag]: 39,
+  [StaticItemType.FlagDown]: 39,
+  [StaticItemType.BucketBlood]: 43,
+  [StaticItemType.Stove]: 45,
+  [StaticItemType.Rack]: 46,
+  [StaticItemType.Vine]: 47,
+};
+
+// Which of an enemy's eight rotations faces a viewer at (viewx, viewy),
+// 0 being straight at it (CalcRotate in WL_DRAW.C)
+function calcRotate(actor: Actor, viewx: number, viewy: number): number {
+  // Bearing from the viewer to the actor; north (-y) is 90
+  const bearing =
+    (Math.atan2(viewy - actor.y, actor.x - viewx) * ANGLES) / (2 * Math.PI);
+  let angle = bearing - DEG180 - DIR_ANGLE[actor.dir] + ANGLES / 16;
+  angle = ((angle % ANGLES) + ANGLES) % ANGLES;
+  return Math.floor(angle / (ANGLES / 8)) & 7;
+}
 
-// Mapping from actor ClassType to sprite texture index
-function actorSpriteIndex(obclass: ClassType): number {
-  switch (obclass) {
-    case ClassType.Guard:
-      return SPR_GUARD;
-    case ClassType.Dog:
-      return SPR_DOG;
-    case ClassType.SS:
-      return SPR_SS;
-    case ClassType.Officer:
-      return SPR_OFFICER;
-    case ClassType.Mutant:
-      return SPR_DOG; // mutant gets its own sprite (slot shared with dog)
-    case ClassType.Boss:
-    case ClassType.Schabbs:
-    case ClassType.Fake:
-    case ClassType.MechaHitler:
-    case ClassType.RealHitler:
-    case ClassType.Gretel:
-    case ClassType.Gift:
-    case ClassType.Fat:
-    case ClassType.Spectre:
-    case ClassType.Angel:
-    case ClassType.Trans:
-    case ClassType.Uber:
-    case ClassType.Will:
-    case ClassType.Death:
-      return SPR_SS; // reuse SS sprite for boss types
-    default:
-      return SPR_GUARD;
+// An enemy lying dead: the last state of its death, which never moves on
+function isCorpse(state: StateType): boolean {
+  return state.tictime === 0 && state.next === state && !state.think;
+}
+
+// Mapping from a static item to its original sprite number (-1: none)
+function staticOriginalSprite(item: StaticItemType): number {
+  if (item === StaticItemType.DeadGuard) return 95; // SPR_GRD_DEAD
+  const stat = ORIGINAL_STATIC_SPRITES[item];
+  return stat === undefined ? -1 : STATIC_SPRITE_START + stat;
+}
+
+// Mapping from an actor in a state to its procedural sprite texture index
+// (-1: not drawn)
+function actorSpriteIndex(actor: Actor, state: StateType): number {
+  if (actor.obclass === ClassType.Ghost) {
+    const ghost = (state.shapenum - GHOST_SPRITE_START) >> 1;
+    return SPR_BLINKY + (GHOST_PROCEDURAL_OFFSET[ghost] ?? 0);
+  }
+  const def = findEnemyDef(actor.obclass);
+  if (def) {
+    return isCorpse(state) ? SPR_DEAD_GUARD : ENEMY_SPRITE_INDEX[def.sprite];
   }
+  return PROJECTILE_SPRITE_INDEX[actor.obclass] ?? -1;
 }
 
 // Mapping from static item type to sprite texture index
@@ -185,14 +306,14 @@ export class Renderer {
   private screenBuffer: ImageData;
   private screenPixels: Uint32Array;
   private wallTextures: Uint32Array[];
+  // Door textures from the assets: normal, elevator, jamb, locked
+  private doorTextures: (Uint32Array | null)[] = [];
   private spriteTextures: Uint32Array[];
   private spriteWidths: number[];
   private spriteHeights: number[];
   private wallHeight: number[];
   private zbuffer: number[];
 
-  // Weapon frame textures (loaded from assets): [weaponType][frameIdx] = 64x64 ABGR
-  private weaponFrames: (Uint32Array | null)[][] = [];
   // Whether real assets were loaded (vs procedural fallback)
   private assetsLoaded = false;
 
@@ -273,6 +394,9 @@ export class Renderer {
   // ==========================================================================
 
   generateTextures(): void {
+    // Also drops whatever applyAssets brought in, so assets can be re-layered
+    this.assetsLoaded = false;
+    this.doorTextures = [];
     this.wallTextures = [];
     for (let i = 0; i < NUM_WALL_TEXTURES; i++) {
       this.wallTextures.push(new Uint32Array(TEX_SIZE * TEX_SIZE));
@@ -291,51 +415,35 @@ export class Renderer {
   }
 
   // ==========================================================================
-  // Load real textures from asset manifest (replaces procedural where available)
+  // Load real textures from asset manifest (replaces procedural where available).
+  // Called again for each mod pack, each layering over the last
   // ==========================================================================
 
   applyAssets(manifest: AssetManifest): void {
-    // --- Wall textures: replace procedural with real PNGs ---
+    // --- Wall textures: replace procedural with real ones. A VSWAP brings
+    // one per wall tile, past the procedural set; gaps repeat that set ---
     for (let i = 0; i < manifest.walls.length; i++) {
       const tex = manifest.walls[i];
-      if (tex && i < this.wallTextures.length) {
-        this.wallTextures[i] = tex;
+      if (tex) this.wallTextures[i] = tex;
+    }
+    for (let i = 0; i < this.wallTextures.length; i++) {
+      if (!this.wallTextures[i]) {
+        this.wallTextures[i] = this.wallTextures[i % NUM_WALL_TEXTURES];
       }
     }
 
-    // --- Enemy sprites: replace the 4 main enemy types ---
-    // Map: guard=SPR_GUARD(0), officer=SPR_OFFICER(3), ss=SPR_SS(2), mutant uses guard(0)
-    // Use first frame (standing, front-facing = frame 'a') for the sprite texture
-    const enemyMap: { cat: keyof typeof manifest.enemies; idx: number }[] = [
-      { cat: "guard", idx: SPR_GUARD },
-      { cat: "officer", idx: SPR_OFFICER },
-      { cat: "ss", idx: SPR_SS },
-      // For mutant, we overwrite the guard mapping in actorSpriteIndex,
-      // so give mutant its own slot by reusing SPR_DOG (1) for now
-      { cat: "mutant", idx: SPR_DOG },
-    ];
-
-    for (const { cat, idx } of enemyMap) {
-      const frames = manifest.enemies[cat];
-      if (frames.length > 0 && frames[0]) {
-        // Use frame 'a' (index 0) as the standing sprite
-        this.spriteTextures[idx] = frames[0];
-        this.spriteWidths[idx] = 64;
-        this.spriteHeights[idx] = 64;
-      }
+    for (let i = 0; i < manifest.doors.length; i++) {
+      const tex = manifest.doors[i];
+      if (tex) this.doorTextures[i] = tex;
     }
 
-    // --- Weapon frames: store all 5 frames per weapon ---
-    // WeaponType: 0=knife, 1=pistol, 2=machinegun, 3=chaingun
-    const weaponOrder: (keyof typeof manifest.weapons)[] = [
-      "knife",
-      "pistol",
-      "machinegun",
-      "chaingun",
-    ];
-    this.weaponFrames = [];
-    for (const name of weaponOrder) {
-      this.weaponFrames.push([...manifest.weapons[name]]);
+    // --- Sprites: by original number, after the procedural slots ---
+    for (let n = 0; n < manifest.sprites.length; n++) {
+      const sprite = manifest.sprites[n];
+      if (!sprite) continue;
+      this.spriteTextures[ASSET_SPRITE_BASE + n] = sprite.pixels;
+      this.spriteWidths[ASSET_SPRITE_BASE + n] = sprite.width;
+      this.spriteHeights[ASSET_SPRITE_BASE + n] = sprite.height;
     }
 
     this.assetsLoaded = true;
@@ -344,10 +452,43 @@ export class Renderer {
   // --- Public getters for weapon frames ---
 
   getWeaponFrame(weaponType: number, frameIdx: number): Uint32Array | null {
-    if (!this.assetsLoaded) return null;
-    const frames = this.weaponFrames[weaponType];
-    if (!frames) return null;
-    return frames[frameIdx] ?? null;
+    if (!this.assetsLoaded || frameIdx < 0 || frameIdx >= WEAPON_FRAMES) {
+      return null;
+    }
+    const n = WEAPON_SPRITE_START + weaponType * WEAPON_FRAMES + frameIdx;
+    return this.spriteTextures[ASSET_SPRITE_BASE + n] ?? null;
+  }
+
+  // Texture index of an actor's current frame: its state's shape as a loaded
+  // sprite, turned to face the viewer if the state rotates (the frame's
+  // first rotation if that one isn't loaded), or the procedural stand-in
+  private pickActorSprite(
+    actor: Actor,
+    state: StateType,
+    viewx: number,
+    viewy: number,
+  ): number {
+    const fallback = actorSpriteIndex(actor, state);
+    if (!findEnemyDef(actor.obclass)) {
+      return this.pickSprite(
+        ORIGINAL_ACTOR_SPRITES[actor.obclass] ?? -1,
+        fallback,
+      );
+    }
+    const frame = this.pickSprite(state.shapenum, fallback);
+    if (!state.rotate) return frame;
+    return this.pickSprite(
+      state.shapenum + calcRotate(actor, viewx, viewy),
+      frame,
+    );
+  }
+
+  // Texture index of a loaded original sprite, or the procedural fallback
+  private pickSprite(original: number, fallback: number): number {
+    if (original < 0) return fallback;
+    return this.spriteTextures[ASSET_SPRITE_BASE + original]
+      ? ASSET_SPRITE_BASE + original
+      : fallback;
   }
 
   hasRealAssets(): boolean {
@@ -711,6 +852,167 @@ export class Renderer {
     addSprite(64, 64, (tex, w, h) => this.generateWeaponPistol(tex, w, h));
     // 19: Weapon - Machine Gun
     addSprite(64, 64, (tex, w, h) => this.generateWeaponMachinegun(tex, w, h));
+    // 20: Needle (Schabbs' syringe)
+    addSprite(32, 32, (tex, w, h) => this.generateNeedle(tex, w, h));
+    // 21: Fireball
+    addSprite(32, 32, (tex, w, h) =>
+      this.generateGlow(tex, w, h, 5, [255, 240, 120], [230, 90, 20]),
+    );
+    // 22: Rocket
+    addSprite(32, 32, (tex, w, h) => this.generateRocket(tex, w, h));
+    // 23: Spark (Angel of Death)
+    addSprite(32, 32, (tex, w, h) =>
+      this.generateGlow(tex, w, h, 4, [255, 255, 255], [120, 160, 255]),
+    );
+    // 24: Impact / smoke puff
+    addSprite(32, 32, (tex, w, h) => this.generateImpact(tex, w, h));
+    // 25: Spectre
+    addSprite(32, 64, (tex, w, h) => this.generateSpectre(tex, w, h));
+    // 26-29: Pac-Man ghosts (Blinky, Clyde, Pinky, Inky)
+    for (const [r, g, b] of [
+      [255, 0, 0],
+      [255, 184, 82],
+      [255, 184, 255],
+      [0, 255, 255],
+    ]) {
+      addSprite(32, 32, (tex, w, h) =>
+        this.generatePacGhost(tex, w, h, r, g, b),
+      );
+    }
+  }
+
+  // Syringe: a thin diagonal barrel with a steel tip
+  private generateNeedle(tex: Uint32Array, w: number, h: number): void {
+    const glass = Renderer.packColor(200, 230, 200);
+    const steel = Renderer.packColor(160, 160, 170);
+    const cx = w >> 1;
+    const cy = h >> 1;
+    tex.fill(0);
+    for (let i = -5; i <= 5; i++) {
+      const x = cx + i;
+      const y = cy - i;
+      tex[y * w + x] = i > 2 ? steel : glass;
+      if (i <= 2) tex[y * w + x + 1] = glass;
+    }
+  }
+
+  // Round glowing projectile: hot core fading to an outer color
+  private generateGlow(
+    tex: Uint32Array,
+    w: number,
+    h: number,
+    radius: number,
+    core: [number, number, number],
+    outer: [number, number, number],
+  ): void {
+    const cx = w >> 1;
+    const cy = h >> 1;
+    for (let y = 0; y < h; y++) {
+      for (let x = 0; x < w; x++) {
+        const d = Math.sqrt((x - cx) * (x - cx) + (y - cy) * (y - cy));
+        if (d > radius) {
+          tex[y * w + x] = 0;
+          continue;
+        }
+        const t = d / radius;
+        tex[y * w + x] = Renderer.packColor(
+          Math.round(core[0] + (outer[0] - core[0]) * t),
+          Math.round(core[1] + (outer[1] - core[1]) * t),
+          Math.round(core[2] + (outer[2] - core[2]) * t),
+        );
+      }
+    }
+  }
+
+  // Spectre: a pale, dithered shroud with dark eyes, fading out at the hem
+  private generateSpectre(tex: Uint32Array, w: number, h: number): void {
+    const body = Renderer.packColor(200, 210, 230);
+    const eye = Renderer.packColor(20, 20, 40);
+    const cx = w >> 1;
+    tex.fill(0);
+    for (let y = 8; y < h; y++) {
+      // Round head widening into a robe
+      const half =
+        y < 24 ? Math.sqrt(64 - (y - 16) * (y - 16)) : 8 + (y - 24) / 5;
+      for (let x = Math.ceil(cx - half); x < cx + half; x++) {
+        // Thin out towards the bottom so the ghost trails away
+        if (y > 44 && (x * 7 + y * 3) % (h - y + 2) < y - 44) continue;
+        if ((x + y) % 2 === 0 || y < 40) tex[y * w + x] = body;
+      }
+    }
+    for (const ex of [cx - 4, cx + 2]) {
+      for (let y = 14; y < 18; y++) {
+        tex[y * w + ex] = eye;
+        tex[y * w + ex + 1] = eye;
+      }
+    }
+  }
+
+  // Pac-Man ghost: domed body with a wavy hem and big eyes
+  private generatePacGhost(
+    tex: Uint32Array,
+    w: number,
+    h: number,
+    r: number,
+    g: number,
+    b: number,
+  ): void {
+    const body = Renderer.packColor(r, g, b);
+    const white = Renderer.packColor(255, 255, 255);
+    const pupil = Renderer.packColor(30, 30, 200);
+    const cx = w >> 1;
+    tex.fill(0);
+    for (let y = 4; y < h; y++) {
+      for (let x = 4; x < w - 4; x++) {
+        const dome = y < 16 && (x - cx) * (x - cx) + (y - 16) * (y - 16) > 144;
+        const hem = y >= h - 3 && ((x - 4) >> 2) % 2 === 0;
+        if (!dome && !hem) tex[y * w + x] = body;
+      }
+    }
+    for (const ex of [cx - 6, cx + 2]) {
+      for (let y = 11; y < 17; y++) {
+        for (let x = ex; x < ex + 5; x++) tex[y * w + x] = white;
+      }
+      for (let y = 13; y < 16; y++) {
+        for (let x = ex + 2; x < ex + 4; x++) tex[y * w + x] = pupil;
+      }
+    }
+  }
+
+  // Rocket seen head-on: gray casing ringed by exhaust flame
+  private generateRocket(tex: Uint32Array, w: number, h: number): void {
+    const casing = Renderer.packColor(110, 110, 100);
+    const nose = Renderer.packColor(170, 40, 30);
+    const flame = Renderer.packColor(255, 170, 40);
+    const cx = w >> 1;
+    const cy = h >> 1;
+    for (let y = 0; y < h; y++) {
+      for (let x = 0; x < w; x++) {
+        const d2 = (x - cx) * (x - cx) + (y - cy) * (y - cy);
+        if (d2 <= 4) tex[y * w + x] = nose;
+        else if (d2 <= 16) tex[y * w + x] = casing;
+        else if (d2 <= 25 && (x + y) % 2 === 0) tex[y * w + x] = flame;
+        else tex[y * w + x] = 0;
+      }
+    }
+  }
+
+  // Impact: ragged cloud of fire and smoke
+  private generateImpact(tex: Uint32Array, w: number, h: number): void {
+    const fire = Renderer.packColor(250, 160, 40);
+    const smoke = Renderer.packColor(120, 120, 120);
+    const cx = w >> 1;
+    const cy = h >> 1;
+    for (let y = 0; y < h; y++) {
+      for (let x = 0; x < w; x++) {
+        const angle = Math.atan2(y - cy, x - cx);
+        const edge = 9 + 3 * Math.sin(angle * 5);
+        const d = Math.sqrt((x - cx) * (x - cx) + (y - cy) * (y - cy));
+        if (d <= edge * 0.5) tex[y * w + x] = fire;
+        else if (d <= edge) tex[y * w + x] = smoke;
+        else tex[y * w + x] = 0;
+      }
+    }
   }
 
   // Humanoid shape (guard, SS, officer)
@@ -1369,6 +1671,9 @@ export class Renderer {
       let vertWallTile = 0;
       let horizDoorOffset = -1;
       let vertDoorOffset = -1;
+      // Walls beside a door show its jamb
+      let horizJamb = false;
+      let vertJamb = false;
 
       // Trace horizontal intersections (stepping through Y grid lines)
       {
@@ -1381,31 +1686,28 @@ export class Renderer {
           const mapVal = tilemap[hy * MAPSIZE + tx];
           if (mapVal > 0) {
             // Check if it's a door
-            if (mapVal >= DOOR_TILE_MIN && mapVal <= DOOR_TILE_MAX) {
+            if (mapVal >= DOOR_TILE) {
               // For doors, check if the ray passes through the half-tile
-              const doorIdx = this.findDoor(doors, tx, hy);
-              if (doorIdx >= 0) {
-                const door = doors[doorIdx];
-                // Door is at the midpoint of the tile
-                const doorX = hx + (horizXstep >> 1);
-                const doorTex = (doorX >> (TILESHIFT - 6)) & 63;
-                const doorPos = Math.floor(door.position * 64);
-                if (doorTex >= doorPos) {
-                  horizDist = this.rayDistance(
-                    viewx,
-                    viewy,
-                    doorX,
-                    (hy << TILESHIFT) + (TILEGLOBAL >> 1),
-                    cosA,
-                    sinA,
-                  );
-                  horizHitX = doorX;
-                  horizHitY = (hy << TILESHIFT) + (TILEGLOBAL >> 1);
-                  horizWallTile = mapVal;
-                  horizDoorOffset = doorPos;
-                  hitHoriz = true;
-                  break;
-                }
+              const door = doors[mapVal - DOOR_TILE];
+              // Door is at the midpoint of the tile
+              const doorX = hx + (horizXstep >> 1);
+              const doorTex = (doorX >> (TILESHIFT - 6)) & 63;
+              const doorPos = Math.floor(door.position * 64);
+              if (doorTex >= doorPos) {
+                horizDist = this.rayDistance(
+                  viewx,
+                  viewy,
+                  doorX,
+                  (hy << TILESHIFT) + (TILEGLOBAL >> 1),
+                  cosA,
+                  sinA,
+                );
+                horizHitX = doorX;
+                horizHitY = (hy << TILESHIFT) + (TILEGLOBAL >> 1);
+                horizWallTile = mapVal;
+                horizDoorOffset = doorPos;
+                hitHoriz = true;
+                break;
               }
             } else {
               // Solid wall
@@ -1420,6 +1722,8 @@ export class Renderer {
               horizHitX = hx;
               horizHitY = hy << TILESHIFT;
               horizWallTile = mapVal;
+              horizJamb =
+                tilemap[(hy - horizYtilestep) * MAPSIZE + tx] >= DOOR_TILE;
               hitHoriz = true;
               break;
             }
@@ -1439,29 +1743,26 @@ export class Renderer {
 
           const mapVal = tilemap[ty * MAPSIZE + vx];
           if (mapVal > 0) {
-            if (mapVal >= DOOR_TILE_MIN && mapVal <= DOOR_TILE_MAX) {
-              const doorIdx = this.findDoor(doors, vx, ty);
-              if (doorIdx >= 0) {
-                const door = doors[doorIdx];
-                const doorY = vy + (vertYstep >> 1);
-                const doorTex = (doorY >> (TILESHIFT - 6)) & 63;
-                const doorPos = Math.floor(door.position * 64);
-                if (doorTex >= doorPos) {
-                  vertDist = this.rayDistance(
-                    viewx,
-                    viewy,
-                    (vx << TILESHIFT) + (TILEGLOBAL >> 1),
-                    doorY,
-                    cosA,
-                    sinA,
-                  );
-                  vertHitX = (vx << TILESHIFT) + (TILEGLOBAL >> 1);
-                  vertHitY = doorY;
-                  vertWallTile = mapVal;
-                  vertDoorOffset = doorPos;
-                  hitVert = true;
-                  break;
-                }
+            if (mapVal >= DOOR_TILE) {
+              const door = doors[mapVal - DOOR_TILE];
+              const doorY = vy + (vertYstep >> 1);
+              const doorTex = (doorY >> (TILESHIFT - 6)) & 63;
+              const doorPos = Math.floor(door.position * 64);
+              if (doorTex >= doorPos) {
+                vertDist = this.rayDistance(
+                  viewx,
+                  viewy,
+                  (vx << TILESHIFT) + (TILEGLOBAL >> 1),
+                  doorY,
+                  cosA,
+                  sinA,
+                );
+                vertHitX = (vx << TILESHIFT) + (TILEGLOBAL >> 1);
+                vertHitY = doorY;
+                vertWallTile = mapVal;
+                vertDoorOffset = doorPos;
+                hitVert = true;
+                break;
               }
             } else {
               vertDist = this.rayDistance(
@@ -1475,6 +1776,8 @@ export class Renderer {
               vertHitX = vx << TILESHIFT;
               vertHitY = vy;
               vertWallTile = mapVal;
+              vertJamb =
+                tilemap[ty * MAPSIZE + vx - vertXtilestep] >= DOOR_TILE;
               hitVert = true;
               break;
             }
@@ -1489,11 +1792,13 @@ export class Renderer {
       let wallTile: number;
       let texColumn: number;
       let isVertHit: boolean;
+      let jamb: boolean;
 
       if (hitHoriz && (!hitVert || horizDist <= vertDist)) {
         distance = horizDist;
         wallTile = horizWallTile;
         isVertHit = false;
+        jamb = horizJamb;
         if (horizDoorOffset >= 0) {
           texColumn = ((horizHitX >> (TILESHIFT - 6)) & 63) - horizDoorOffset;
           if (texColumn < 0) texColumn += 64;
@@ -1504,6 +1809,7 @@ export class Renderer {
         distance = vertDist;
         wallTile = vertWallTile;
         isVertHit = true;
+        jamb = vertJamb;
         if (vertDoorOffset >= 0) {
           texColumn = ((vertHitY >> (TILESHIFT - 6)) & 63) - vertDoorOffset;
           if (texColumn < 0) texColumn += 64;
@@ -1536,12 +1842,20 @@ export class Renderer {
       this.wallHeight[pixx] = projHeight;
 
       // Determine which texture to use
-      let texIdx = 0;
-      if (wallTile >= DOOR_TILE_MIN && wallTile <= DOOR_TILE_MAX) {
-        texIdx = 2; // Use wood texture for doors
+      let tex: Uint32Array | undefined;
+      if (wallTile >= DOOR_TILE) {
+        // The loaded door for its lock, or the wood texture
+        const slot = DOOR_TEXTURE_BY_LOCK[doors[wallTile - DOOR_TILE].lock];
+        tex =
+          this.doorTextures[slot] ??
+          this.doorTextures[DoorTexture.Normal] ??
+          this.wallTextures[2];
+      } else if (jamb && this.doorTextures[DoorTexture.Jamb]) {
+        tex = this.doorTextures[DoorTexture.Jamb];
       } else {
-        texIdx = (wallTile - 1) % NUM_WALL_TEXTURES;
+        let texIdx = (wallTile - 1) % this.wallTextures.length;
         if (texIdx < 0) texIdx = 0;
+        tex = this.wallTextures[texIdx];
       }
 
       // Draw the column
@@ -1549,7 +1863,7 @@ export class Renderer {
         pixx,
         projHeight,
         halfView,
-        texIdx,
+        tex,
         texColumn,
         isVertHit,
       );
@@ -1573,19 +1887,6 @@ export class Renderer {
     return Math.sqrt(dx * dx + dy * dy);
   }
 
-  // ==========================================================================
-  // Find door by tile coordinates
-  // ==========================================================================
-
-  private findDoor(doors: DoorObj[], tilex: number, tiley: number): number {
-    for (let i = 0; i < doors.length; i++) {
-      if (doors[i].tilex === tilex && doors[i].tiley === tiley) {
-        return i;
-      }
-    }
-    return -1;
-  }
-
   // ==========================================================================
   // Draw a wall column with texturing
   // ==========================================================================
@@ -1594,7 +1895,7 @@ export class Renderer {
     pixx: number,
     projHeight: number,
     halfView: number,
-    texIdx: number,
+    tex: Uint32Array | undefined,
     texColumn: number,
     isVertHit: boolean,
   ): void {
@@ -1604,7 +1905,6 @@ export class Renderer {
     const screenTop = Math.max(0, wallTop);
     const screenBottom = Math.min(VIEWHEIGHT, wallBottom);
 
-    const tex = this.wallTextures[texIdx];
     const tcx = texColumn & 63;
 
     // Draw ceiling (dark gray)
@@ -1691,7 +1991,11 @@ export class Renderer {
     // Collect visible actors (skip player at index 0)
     for (let i = 1; i < actors.length; i++) {
       const actor = actors[i];
-      if (!actor.state) continue; // inactive actor
+      const actorState = actor.state;
+      if (!actorState) continue; // inactive actor
+      if (actorState.shapenum === 0) continue; // between lives, vanishing
+      const texIndex = this.pickActorSprite(actor, actorState, viewx, viewy);
+      if (texIndex < 0) continue;
 
       const tx = actor.x >> TILESHIFT;
       const ty = actor.y >> TILESHIFT;
@@ -1704,7 +2008,7 @@ export class Renderer {
         viewy,
         viewSin,
         viewCos,
-        actorSpriteIndex(actor.obclass),
+        texIndex,
       );
       if (sprite) {
         if (this.visSpriteCount < this.visSpritePool.length) {
@@ -1740,7 +2044,10 @@ export class Renderer {
         viewy,
         viewSin,
         viewCos,
-        staticSpriteIndex(stat.itemnumber),
+        this.pickSprite(
+          staticOriginalSprite(stat.itemnumber),
+          staticSpriteIndex(stat.itemnumber),
+        ),
       );
       if (sprite) {
         if (this.visSpriteCount < this.visSpritePool.length) {
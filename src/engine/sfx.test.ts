@@ -0,0 +1,80 @@
+import { describe, expect, it } from "vitest";
+import {
+  SFX_SAMPLE_RATE,
+  renderTones,
+  soundTones,
+  synthesizeSound,
+} from "./sfx";
+import { SoundType } from "../game/sound";
+import enemies from "../game/enemies.json";
+
+const SOUNDS = Object.values(SoundType).filter(
+  (v): v is SoundType => typeof v === "number",
+);
+const VOICED = [
+  SoundType.EnemyAlert,
+  SoundType.EnemyDeath,
+  SoundType.EnemyFire,
+  SoundType.EnemyBite,
+];
+
+function peak(pcm: Float32Array): number {
+  return pcm.reduce((max, s) => Math.max(max, Math.abs(s)), 0);
+}
+
+/** Every sound, and each voiced one in every enemy's voice */
+const CASES: [string, SoundType, string | undefined][] = [
+  ...SOUNDS.map((s): [string, SoundType, undefined] => [
+    SoundType[s],
+    s,
+    undefined,
+  ]),
+  ...Object.keys(enemies).flatMap((voice) =>
+    VOICED.map((s): [string, SoundType, string] => [
+      `${SoundType[s]} (${voice})`,
+      s,
+      voice,
+    ]),
+  ),
+];
+
+describe("synthesizeSound", () => {
+  it.each(CASES)("%s is a short, audible buffer in -1..1", (_, s, voice) => {
+    const pcm = synthesizeSound(s, voice);
+    const end = Math.max(
+      ...soundTones(s, voice).map((t) => t.start + t.duration),
+    );
+    expect(pcm.length).toBe(Math.ceil(end * SFX_SAMPLE_RATE));
+    expect(pcm.length).toBeLessThan(2 * SFX_SAMPLE_RATE);
+    expect(pcm.every(Number.isFinite)).toBe(true);
+    expect(peak(pcm)).toBeGreaterThan(0.05);
+    expect(peak(pcm)).toBeLessThanOrEqual(1);
+  });
+
+  it("comes out the same every time", () => {
+    for (const s of SOUNDS) {
+      expect(synthesizeSound(s, "dog")).toEqual(synthesizeSound(s, "dog"));
+    }
+  });
+
+  it("gives enemies their own voices", () => {
+    expect(synthesizeSound(SoundType.EnemyAlert, "dog")).not.toEqual(
+      synthesizeSound(SoundType.EnemyAlert, "guard"),
+    );
+  });
+});
+
+describe("renderTones", () => {
+  it("is empty with no tones", () => {
+    expect(renderTones([])).toHaveLength(0);
+  });
+
+  it("clips overlapping tones to -1..1", () => {
+    const loud = { wave: "square" as const, start: 0, duration: 0.1 };
+    const pcm = renderTones([
+      { ...loud, freq: 200, volume: 1 },
+      { ...loud, freq: 200, volume: 1 },
+    ]);
+    expect(peak(pcm)).toBe(1);
+  });
+});
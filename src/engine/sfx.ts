@@ -0,0 +1,467 @@
+/**
+ * Wolf3D-TS Sound Effect Synthesizer
+ *
+ * Builds every sound effect from a few oscillators, the way the PC speaker
+ * and AdLib effects of the original were made, instead of shipping samples.
+ * Each sound is a list of tones (waveform, pitch sweep, volume envelope)
+ * mixed into a mono Float32Array of PCM samples in -1..1. Plain arithmetic
+ * only, with its own noise generator, so it runs under Node and the same
+ * sound always comes out sample for sample.
+ */
+
+import { SoundType } from "../game/sound";
+
+// ============================================================
+// Tones
+// ============================================================
+
+export const SFX_SAMPLE_RATE = 22050;
+
+export type Waveform = "square" | "triangle" | "saw" | "sine" | "noise";
+
+export interface Tone {
+  wave: Waveform;
+  /** Seconds from the start of the sound */
+  start: number;
+  duration: number;
+  /** Pitch in Hz at the start, sliding linearly to freqEnd */
+  freq: number;
+  freqEnd?: number;
+  /** Peak amplitude, 0-1 */
+  volume: number;
+  /** Seconds to fade in; the rest of the tone fades out linearly */
+  attack?: number;
+  /** Vibrato depth (fraction of the pitch) and rate in Hz */
+  vibrato?: { depth: number; rate: number };
+}
+
+/** Small LCG so noise is reproducible and leaves the game RNG alone. */
+function makeNoise(seed: number): () => number {
+  let state = seed >>> 0 || 1;
+  return () => {
+    state = (Math.imul(state, 1664525) + 1013904223) >>> 0;
+    return state / 0x80000000 - 1;
+  };
+}
+
+/** One sample of a periodic waveform at phase 0..1. */
+function oscillator(wave: Exclude<Waveform, "noise">, phase: number): number {
+  switch (wave) {
+    case "square":
+      return phase < 0.5 ? 1 : -1;
+    case "triangle":
+      return phase < 0.5 ? phase * 4 - 1 : 3 - phase * 4;
+    case "saw":
+      return phase * 2 - 1;
+    case "sine":
+      return Math.sin(phase * 2 * Math.PI);
+  }
+}
+
+/**
+ * Mix tones into PCM samples. The buffer is as long as the last tone and is
+ * clipped to -1..1.
+ */
+export function renderTones(
+  tones: Tone[],
+  sampleRate: number = SFX_SAMPLE_RATE,
+): Float32Array {
+  let length = 0;
+  for (const t of tones) {
+    length = Math.max(length, Math.ceil((t.start + t.duration) * sampleRate));
+  }
+  const out = new Float32Array(length);
+  const noise = makeNoise(length);
+
+  for (const t of tones) {
+    const first = Math.floor(t.start * sampleRate);
+    const count = Math.floor(t.duration * sampleRate);
+    const attack = Math.max(
+      1,
+      Math.min(count - 1, Math.floor((t.attack ?? 0.005) * sampleRate)),
+    );
+    const release = Math.max(1, count - attack);
+    const freqEnd = t.freqEnd ?? t.freq;
+
+    let phase = 0;
+    let held = 0;
+    for (let i = 0; i < count && first + i < length; i++) {
+      const f = i / count;
+      let freq = t.freq + (freqEnd - t.freq) * f;
+      if (t.vibrato) {
+        const lfo = Math.sin((2 * Math.PI * t.vibrato.rate * i) / sampleRate);
+        freq *= 1 + t.vibrato.depth * lfo;
+      }
+      const env = i < attack ? i / attack : 1 - (i - attack) / release;
+
+      // Noise is sample-and-hold at the tone's pitch, like a PC speaker
+      const prev = phase;
+      phase = (phase + freq / sampleRate) % 1;
+      let sample: number;
+      if (t.wave === "noise") {
+        if (phase < prev || i === 0) held = noise();
+        sample = held;
+      } else {
+        sample = oscillator(t.wave, phase);
+      }
+      out[first + i] += sample * t.volume * env;
+    }
+  }
+
+  for (let i = 0; i < length; i++) {
+    out[i] = Math.max(-1, Math.min(1, out[i]));
+  }
+  return out;
+}
+
+// ============================================================
+// Voices
+// ============================================================
+
+interface Voice {
+  /** Speaking pitch in Hz */
+  pitch: number;
+  wave: Waveform;
+  /** Dogs bark rather than shout */
+  bark?: boolean;
+  /** What its gunfire sounds like; a pistol if omitted */
+  gun?: SoundType;
+}
+
+/** How each enemy archetype (enemies.json key) sounds. */
+const VOICES: Record<string, Voice> = {
+  guard: { pitch: 220, wave: "square" },
+  officer: { pitch: 260, wave: "square" },
+  ss: { pitch: 180, wave: "saw", gun: SoundType.MachineGun },
+  dog: { pitch: 520, wave: "saw", bark: true },
+  mutant: { pitch: 140, wave: "triangle", gun: SoundType.MachineGun },
+  boss: { pitch: 110, wave: "saw", gun: SoundType.ChainGun },
+  gretel: { pitch: 300, wave: "saw", gun: SoundType.ChainGun },
+  schabbs: { pitch: 160, wave: "square" },
+  fake: { pitch: 150, wave: "triangle" },
+  mechahitler: { pitch: 90, wave: "square", gun: SoundType.ChainGun },
+  realhitler: { pitch: 130, wave: "square", gun: SoundType.ChainGun },
+  gift: { pitch: 170, wave: "saw" },
+  fat: { pitch: 100, wave: "triangle", gun: SoundType.ChainGun },
+  spectre: { pitch: 400, wave: "sine" },
+  angel: { pitch: 80, wave: "sine" },
+  trans: { pitch: 120, wave: "saw", gun: SoundType.ChainGun },
+  uber: { pitch: 95, wave: "triangle", gun: SoundType.ChainGun },
+  will: { pitch: 115, wave: "square", gun: SoundType.ChainGun },
+  deathknight: { pitch: 85, wave: "saw", gun: SoundType.ChainGun },
+  ghost: { pitch: 600, wave: "triangle" },
+};
+
+const DEFAULT_VOICE: Voice = { pitch: 200, wave: "square" };
+
+/** A shouted "Halt!": two quick syllables, or a double bark. */
+function alertTones(v: Voice): Tone[] {
+  if (v.bark) {
+    return [0, 0.18].flatMap((start) => [
+      {
+        wave: v.wave,
+        start,
+        duration: 0.1,
+        freq: v.pitch,
+        freqEnd: v.pitch * 0.6,
+        volume: 0.5,
+      },
+      {
+        wave: "noise" as const,
+        start,
+        duration: 0.08,
+        freq: 3000,
+        volume: 0.25,
+      },
+    ]);
+  }
+  return [
+    {
+      wave: v.wave,
+      start: 0,
+      duration: 0.12,
+      freq: v.pitch * 1.2,
+      freqEnd: v.pitch * 1.3,
+      volume: 0.45,
+      vibrato: { depth: 0.03, rate: 30 },
+    },
+    {
+      wave: v.wave,
+      start: 0.13,
+      duration: 0.2,
+      freq: v.pitch,
+      freqEnd: v.pitch * 0.85,
+      volume: 0.5,
+      vibrato: { depth: 0.03, rate: 30 },
+    },
+  ];
+}
+
+/** A snarling snap, or a ghostly rush for things that strike without teeth. */
+function biteTones(v: Voice): Tone[] {
+  if (v.bark) {
+    return [
+      {
+        wave: v.wave,
+        start: 0,
+        duration: 0.15,
+        freq: v.pitch * 0.8,
+        freqEnd: v.pitch * 0.5,
+        volume: 0.45,
+        vibrato: { depth: 0.08, rate: 40 },
+      },
+      { wave: "noise", start: 0.1, duration: 0.06, freq: 2500, volume: 0.35 },
+    ];
+  }
+  return [
+    {
+      wave: v.wave,
+      start: 0,
+      duration: 0.3,
+      freq: v.pitch * 2,
+      freqEnd: v.pitch * 0.5,
+      volume: 0.35,
+    },
+    {
+      wave: "noise",
+      start: 0,
+      duration: 0.3,
+      freq: 1200,
+      volume: 0.15,
+      attack: 0.1,
+    },
+  ];
+}
+
+/** A death cry sliding down, or a yelp. */
+function deathTones(v: Voice): Tone[] {
+  if (v.bark) {
+    return [
+      {
+        wave: v.wave,
+        start: 0,
+        duration: 0.35,
+        freq: v.pitch * 1.4,
+        freqEnd: v.pitch * 0.5,
+        volume: 0.5,
+      },
+    ];
+  }
+  return [
+    {
+      wave: v.wave,
+      start: 0,
+      duration: 0.6,
+      freq: v.pitch * 1.5,
+      freqEnd: v.pitch * 0.4,
+      volume: 0.5,
+      vibrato: { depth: 0.05, rate: 12 },
+    },
+    { wave: "noise", start: 0.45, duration: 0.2, freq: 800, volume: 0.2 },
+  ];
+}
+
+// ============================================================
+// Sound Table
+// ============================================================
+
+/** A rising run of short notes, for pickups. */
+function arpeggio(
+  wave: Waveform,
+  notes: number[],
+  step: number,
+  volume: number,
+): Tone[] {
+  return notes.map((freq, i) => ({
+    wave,
+    start: i * step,
+    duration: step * 1.5,
+    freq,
+    volume,
+  }));
+}
+
+/** Tones for each non-voiced sound. */
+const SOUND_TONES: Partial<Record<SoundType, Tone[]>> = {
+  [SoundType.Knife]: [
+    {
+      wave: "noise",
+      start: 0,
+      duration: 0.12,
+      freq: 6000,
+      freqEnd: 1500,
+      volume: 0.35,
+      attack: 0.03,
+    },
+  ],
+  [SoundType.Pistol]: [
+    {
+      wave: "noise",
+      start: 0,
+      duration: 0.18,
+      freq: 4000,
+      freqEnd: 600,
+      volume: 0.7,
+    },
+    {
+      wave: "square",
+      start: 0,
+      duration: 0.1,
+      freq: 160,
+      freqEnd: 50,
+      volume: 0.4,
+    },
+  ],
+  [SoundType.MachineGun]: [
+    {
+      wave: "noise",
+      start: 0,
+      duration: 0.1,
+      freq: 5000,
+      freqEnd: 900,
+      volume: 0.6,
+    },
+    {
+      wave: "square",
+      start: 0,
+      duration: 0.06,
+      freq: 200,
+      freqEnd: 70,
+      volume: 0.35,
+    },
+  ],
+  [SoundType.ChainGun]: [
+    {
+      wave: "noise",
+      start: 0,
+      duration: 0.07,
+      freq: 6000,
+      freqEnd: 1200,
+      volume: 0.6,
+    },
+    {
+      wave: "square",
+      start: 0,
+      duration: 0.05,
+      freq: 240,
+      freqEnd: 90,
+      volume: 0.3,
+    },
+  ],
+  [SoundType.DoorOpen]: [
+    {
+      wave: "square",
+      start: 0,
+      duration: 0.45,
+      freq: 70,
+      freqEnd: 110,
+      volume: 0.25,
+      attack: 0.05,
+    },
+    {
+      wave: "noise",
+      start: 0,
+      duration: 0.45,
+      freq: 400,
+      volume: 0.12,
+      attack: 0.05,
+    },
+  ],
+  [SoundType.DoorClose]: [
+    {
+      wave: "square",
+      start: 0,
+      duration: 0.4,
+      freq: 110,
+      freqEnd: 70,
+      volume: 0.25,
+      attack: 0.05,
+    },
+    { wave: "noise", start: 0.35, duration: 0.15, freq: 300, volume: 0.4 },
+  ],
+  [SoundType.PushWall]: [
+    {
+      wave: "noise",
+      start: 0,
+      duration: 1.2,
+      freq: 180,
+      volume: 0.4,
+      attack: 0.1,
+    },
+    {
+      wave: "square",
+      start: 0,
+      duration: 1.2,
+      freq: 45,
+      freqEnd: 40,
+      volume: 0.2,
+      attack: 0.1,
+    },
+  ],
+  [SoundType.PickupHealth]: arpeggio("triangle", [523, 659, 784], 0.05, 0.4),
+  [SoundType.PickupAmmo]: arpeggio("square", [880, 880], 0.04, 0.25),
+  [SoundType.PickupWeapon]: [
+    {
+      wave: "saw",
+      start: 0,
+      duration: 0.3,
+      freq: 220,
+      freqEnd: 880,
+      volume: 0.35,
+    },
+  ],
+  [SoundType.PickupTreasure]: arpeggio(
+    "square",
+    [784, 988, 1175, 1568],
+    0.04,
+    0.25,
+  ),
+  [SoundType.PickupKey]: arpeggio("sine", [1047, 1319], 0.08, 0.4),
+  [SoundType.ExtraLife]: arpeggio(
+    "square",
+    [523, 659, 784, 1047, 784, 1047],
+    0.07,
+    0.3,
+  ),
+  [SoundType.PlayerPain]: [
+    {
+      wave: "square",
+      start: 0,
+      duration: 0.2,
+      freq: 330,
+      freqEnd: 150,
+      volume: 0.45,
+    },
+  ],
+};
+
+/**
+ * The tones of a sound. Enemy alerts, deaths, bites and gunfire are voiced by
+ * the given enemy archetype.
+ */
+export function soundTones(sound: SoundType, voice?: string): Tone[] {
+  const v = (voice && VOICES[voice]) || DEFAULT_VOICE;
+  switch (sound) {
+    case SoundType.EnemyAlert:
+      return alertTones(v);
+    case SoundType.EnemyDeath:
+      return deathTones(v);
+    case SoundType.EnemyBite:
+      return biteTones(v);
+    case SoundType.EnemyFire:
+      return SOUND_TONES[v.gun ?? SoundType.Pistol] ?? [];
+    default:
+      return SOUND_TONES[sound] ?? [];
+  }
+}
+
+/**
+ * Synthesize a sound into PCM samples.
+ */
+export function synthesizeSound(
+  sound: SoundType,
+  voice?: string,
+  sampleRate: number = SFX_SAMPLE_RATE,
+): Float32Array {
+  return renderTones(soundTones(sound, voice), sampleRate);
+}
@@ -0,0 +1,430 @@
+/**
+ * Wolf3D-TS Music Tracks
+ *
+ * Original compositions for the AdLib, written as step patterns (one token per
+ * eighth note) and compiled into IMF register streams for the OPL2. Each part
+ * gets its own OPL2 channel and instrument patch; shorter parts repeat to the
+ * length of the longest, so bass and drum loops are written once.
+ *
+ * Tokens: a note such as "C4", "F#3" or "Bb2" strikes a new note, "-" holds
+ * the previous one, "." is a rest. "|" marks bars and is ignored.
+ */
+
+import { IMF_RATE, type ImfCommand, encodeImf } from "./imf";
+import { OPL_CHANNELS, OPL_CLOCK_RATE } from "./opl2";
+
+// ============================================================
+// Instruments
+// ============================================================
+
+/**
+ * An instrument patch: register values for the modulator and carrier
+ * operators, as in an AdLib instrument bank, plus feedback / connection.
+ */
+interface Instrument {
+  /** 0x20: tremolo, vibrato, sustain, KSR, multiplier */
+  char: [number, number];
+  /** 0x40: key scale level, total level */
+  level: [number, number];
+  /** 0x60: attack rate, decay rate */
+  attackDecay: [number, number];
+  /** 0x80: sustain level, release rate */
+  sustainRelease: [number, number];
+  /** 0xE0: waveform */
+  wave: [number, number];
+  /** 0xC0: feedback and connection */
+  feedback: number;
+}
+
+const LEAD: Instrument = {
+  char: [0x21, 0x21],
+  level: [0x1a, 0x02],
+  attackDecay: [0x72, 0x61],
+  sustainRelease: [0x26, 0x16],
+  wave: [0, 0],
+  feedback: 0x0a,
+};
+
+const BASS: Instrument = {
+  char: [0x21, 0x21],
+  level: [0x12, 0x04],
+  attackDecay: [0xf4, 0xf3],
+  sustainRelease: [0x56, 0x27],
+  wave: [0, 0],
+  feedback: 0x08,
+};
+
+const PAD: Instrument = {
+  char: [0x61, 0x21],
+  level: [0x22, 0x0e],
+  attackDecay: [0x53, 0x64],
+  sustainRelease: [0x15, 0x17],
+  wave: [0, 1],
+  feedback: 0x0e,
+};
+
+const BELL: Instrument = {
+  char: [0x07, 0x01],
+  level: [0x20, 0x04],
+  attackDecay: [0xf2, 0xf2],
+  sustainRelease: [0x53, 0x74],
+  wave: [0, 0],
+  feedback: 0x00,
+};
+
+const KICK: Instrument = {
+  char: [0x00, 0x00],
+  level: [0x0b, 0x00],
+  attackDecay: [0xa8, 0xd6],
+  sustainRelease: [0x4c, 0x4f],
+  wave: [0, 0],
+  feedback: 0x00,
+};
+
+/** Feedback-noise snare */
+const SNARE: Instrument = {
+  char: [0x0f, 0x00],
+  level: [0x00, 0x06],
+  attackDecay: [0xf8, 0xf6],
+  sustainRelease: [0x0f, 0x07],
+  wave: [0, 0],
+  feedback: 0x0e,
+};
+
+// ============================================================
+// Songs
+// ============================================================
+
+interface Part {
+  instrument: Instrument;
+  notes: string;
+}
+
+interface Song {
+  /** Beats (quarter notes) per minute; each token is an eighth */
+  bpm: number;
+  parts: Part[];
+}
+
+const SONGS: Record<string, Song> = {
+  /** Title and menus: a C minor march */
+  title: {
+    bpm: 112,
+    parts: [
+      {
+        instrument: LEAD,
+        notes: `C4 - Eb4 - G4 - - F4 | Eb4 - D4 - C4 - - - |
+          Ab3 - C4 - Eb4 - D4 C4 | G3 - - - - - . . |
+          C4 - Eb4 - G4 - C5 - | Bb4 - Ab4 - G4 - F4 - |
+          Eb4 - F4 G4 Ab4 - G4 F4 | C4 - - - - - . .`,
+      },
+      {
+        instrument: PAD,
+        notes: `Eb3 - - - - - - - | D3 - - - - - - - |
+          Eb3 - - - - - - - | D3 - - - - - - - |
+          G3 - - - - - - - | G3 - - - - - - - |
+          Eb3 - - - - - - - | Eb3 - - - - - - -`,
+      },
+      {
+        instrument: BASS,
+        notes: `C2 . C2 . G2 . C2 . | G1 . G1 . D2 . G1 . |
+          Ab1 . Ab1 . Eb2 . Ab1 . | G1 . G1 . D2 . G1 . |
+          C2 . C2 . G2 . C2 . | Eb2 . Eb2 . Bb2 . Eb2 . |
+          Ab1 . Ab1 . Eb2 . Ab1 . | C2 . C2 . G2 . C2 .`,
+      },
+      { instrument: KICK, notes: "C2 . . . C2 . . ." },
+      { instrument: SNARE, notes: ". . A4 . . . A4 A4" },
+    ],
+  },
+
+  /** Intermission: an easy F major stroll */
+  intermission: {
+    bpm: 96,
+    parts: [
+      {
+        instrument: BELL,
+        notes: `F4 - A4 - C5 - A4 - | Bb4 - A4 - G4 - - - |
+          E4 - G4 - Bb4 - G4 - | A4 - - - F4 - - - |
+          F4 - A4 - C5 - D5 - | C5 - Bb4 - A4 - G4 - |
+          F4 - E4 - G4 - E4 - | F4 - - - - - . .`,
+      },
+      {
+        instrument: PAD,
+        notes: `A3 - - - - - - - | Bb3 - - - - - - - |
+          Bb3 - - - - - - - | A3 - - - - - - - |
+          A3 - - - - - - - | Bb3 - - - - - - - |
+          G3 - - - - - - - | A3 - - - - - - -`,
+      },
+      {
+        instrument: BASS,
+        notes: `F2 - - - C3 - - - | Bb1 - - - F2 - - - |
+          C2 - - - G2 - - - | F2 - - - C3 - - - |
+          F2 - - - C3 - - - | Bb1 - - - F2 - - - |
+          C2 - - - G2 - - - | F2 - - - C3 - - -`,
+      },
+    ],
+  },
+
+  /** Episode victory: a C major fanfare */
+  victory: {
+    bpm: 124,
+    parts: [
+      {
+        instrument: LEAD,
+        notes: `G4 G4 G4 - C5 - - - | E5 - D5 C5 D5 - - - |
+          E5 E5 E5 - G5 - - - | F5 - E5 D5 C5 - - - |
+          A4 - C5 - F5 - E5 D5 | G4 - B4 - D5 - C5 B4 |
+          C5 - G4 - E4 - G4 - | C5 - - - - - . .`,
+      },
+      {
+        instrument: PAD,
+        notes: `E3 - - - - - - - | D3 - - - - - - - |
+          E3 - - - - - - - | F3 - - - - - - - |
+          F3 - - - - - - - | D3 - - - - - - - |
+          E3 - - - - - - - | E3 - - - - - - -`,
+      },
+      {
+        instrument: BASS,
+        notes: `C2 - G2 - C2 - G2 - | G1 - D2 - G1 - D2 - |
+          C2 - G2 - C2 - G2 - | G1 - D2 - G1 - D2 - |
+          F2 - C3 - F2 - C3 - | G1 - D2 - G1 - D2 - |
+          C2 - G2 - C2 - G2 - | C2 - G2 - C2 - . .`,
+      },
+      { instrument: KICK, notes: "C2 . . . C2 . . ." },
+      { instrument: SNARE, notes: ". . A4 . . . A4 ." },
+    ],
+  },
+
+  /** Floors: a prowling A minor theme */
+  corridors: {
+    bpm: 132,
+    parts: [
+      {
+        instrument: LEAD,
+        notes: `A4 - . A4 C5 - B4 A4 | E4 - - - . . . . |
+          A4 - . A4 C5 - D5 E5 | D5 - C5 - B4 - - - |
+          F4 - . F4 A4 - G4 F4 | E4 - - - . . G#4 - |
+          A4 - B4 - C5 - B4 A4 | E5 - - - . . . .`,
+      },
+      {
+        instrument: BASS,
+        notes: `A1 A2 A1 A2 A1 A2 A1 A2 | E1 E2 E1 E2 E1 E2 E1 E2 |
+          A1 A2 A1 A2 A1 A2 A1 A2 | G1 G2 G1 G2 G1 G2 G1 G2 |
+          F1 F2 F1 F2 F1 F2 F1 F2 | E1 E2 E1 E2 E1 E2 E1 E2 |
+          A1 A2 A1 A2 A1 A2 A1 A2 | E1 E2 E1 E2 E1 E2 E1 E2`,
+      },
+      { instrument: KICK, notes: "C2 . . . C2 . C2 ." },
+      { instrument: SNARE, notes: ". . A4 . . . A4 ." },
+    ],
+  },
+
+  /** Floors: a driving D minor chase */
+  hunt: {
+    bpm: 144,
+    parts: [
+      {
+        instrument: LEAD,
+        notes: `D5 - D5 - C5 - A4 - | Bb4 - A4 - G4 - A4 - |
+          D5 - D5 - F5 - E5 D5 | E5 - - - A4 - - - |
+          F5 - E5 - D5 - C5 - | Bb4 - C5 - D5 - A4 - |
+          G4 - Bb4 - A4 - G4 F4 | D4 - - - - - . .`,
+      },
+      {
+        instrument: BASS,
+        notes: `D2 . D2 D2 . D2 . D2 | G1 . G1 G1 . G1 . G1 |
+          D2 . D2 D2 . D2 . D2 | A1 . A1 A1 . A1 . A1 |
+          D2 . D2 D2 . D2 . D2 | Bb1 . Bb1 Bb1 . Bb1 . Bb1 |
+          G1 . G1 G1 . G1 . G1 | D2 . D2 D2 . D2 . D2`,
+      },
+      { instrument: KICK, notes: "C2 . . C2 C2 . . ." },
+      { instrument: SNARE, notes: ". . A4 . . . A4 . . . A4 . . . A4 A4" },
+    ],
+  },
+
+  /** Floors: a slow E minor brood */
+  bunker: {
+    bpm: 100,
+    parts: [
+      {
+        instrument: LEAD,
+        notes: `E4 - - - G4 - - - | F#4 - - - B3 - - - |
+          E4 - - - G4 - A4 - | B4 - - - - - - - |
+          C5 - - - B4 - - - | A4 - - - G4 - - - |
+          F#4 - - - D#4 - - - | E4 - - - - - - -`,
+      },
+      {
+        instrument: PAD,
+        notes: `G3 - - - - - - - | F#3 - - - - - - - |
+          G3 - - - - - - - | F#3 - - - - - - - |
+          E3 - - - - - - - | E3 - - - - - - - |
+          D#3 - - - - - - - | E3 - - - - - - -`,
+      },
+      {
+        instrument: BASS,
+        notes: `E2 . . E2 . . E2 . | B1 . . B1 . . B1 . |
+          E2 . . E2 . . E2 . | E2 . . E2 . . E2 . |
+          C2 . . C2 . . C2 . | A1 . . A1 . . A1 . |
+          B1 . . B1 . . B1 . | E2 . . E2 . . E2 .`,
+      },
+      { instrument: KICK, notes: "C2 . . . . . . ." },
+      { instrument: SNARE, notes: ". . . . A4 . . ." },
+    ],
+  },
+
+  /** Boss floors: chromatic menace */
+  boss: {
+    bpm: 156,
+    parts: [
+      {
+        instrument: LEAD,
+        notes: `E4 F4 E4 F4 E4 - Bb4 - | A4 - G#4 - G4 - F#4 - |
+          E4 F4 E4 F4 E4 - C5 - | B4 - Bb4 - A4 - G#4 - |
+          E5 - D#5 - D5 - C#5 - | C5 - B4 - Bb4 - A4 - |
+          G#4 - A4 - Bb4 - B4 - | E4 - - - . . . .`,
+      },
+      {
+        instrument: BASS,
+        notes: `E1 E2 E1 E2 E1 E2 E1 E2 | E1 E2 E1 E2 E1 E2 E1 E2 |
+          E1 E2 E1 E2 E1 E2 E1 E2 | E1 E2 E1 E2 F1 F2 F1 F2`,
+      },
+      { instrument: KICK, notes: "C2 . C2 . C2 . C2 ." },
+      { instrument: SNARE, notes: ". . A4 . . . A4 A4" },
+    ],
+  },
+
+  /** Secret floors: a bouncy G major romp */
+  secret: {
+    bpm: 128,
+    parts: [
+      {
+        instrument: BELL,
+        notes: `G4 B4 D5 B4 G4 B4 D5 B4 | A4 C5 E5 C5 A4 C5 E5 C5 |
+          F#4 A4 D5 A4 F#4 A4 D5 A4 | G4 - B4 - D5 - G5 - |
+          E5 D5 C5 B4 A4 - C5 - | D5 C5 B4 A4 G4 - B4 - |
+          C5 B4 A4 G4 F#4 - A4 - | G4 - - - . . . .`,
+      },
+      {
+        instrument: BASS,
+        notes: `G2 . D2 . G2 . D2 . | A2 . E2 . A2 . E2 . |
+          D2 . A1 . D2 . A1 . | G2 . D2 . G2 . D2 . |
+          C2 . G2 . C2 . G2 . | G2 . D2 . G2 . D2 . |
+          D2 . A1 . D2 . A1 . | G2 . D2 . G2 . . .`,
+      },
+      { instrument: KICK, notes: "C2 . . . C2 . . ." },
+      { instrument: SNARE, notes: ". . A4 . . . A4 ." },
+    ],
+  },
+};
+
+/** Every track that ships with the game. */
+export const TRACK_NAMES = Object.keys(SONGS);
+
+// ============================================================
+// Compiler
+// ============================================================
+
+const NOTE_RE = /^([A-G])(#|b)?(\d)$/;
+const SEMITONES: Record<string, number> = {
+  C: 0,
+  D: 2,
+  E: 4,
+  F: 5,
+  G: 7,
+  A: 9,
+  B: 11,
+};
+
+/**
+ * The OPL2 F-number and block for a note name, using the lowest block that
+ * fits for the finest pitch resolution.
+ */
+function noteFrequency(note: string): { fnum: number; block: number } {
+  const m = NOTE_RE.exec(note);
+  if (!m) throw new Error(`Bad note "${note}"`);
+  const accidental = m[2] === "#" ? 1 : m[2] === "b" ? -1 : 0;
+  const midi = (Number(m[3]) + 1) * 12 + SEMITONES[m[1]] + accidental;
+  const hz = 440 * Math.pow(2, (midi - 69) / 12);
+
+  for (let block = 0; block < 8; block++) {
+    const fnum = Math.round((hz * Math.pow(2, 20 - block)) / OPL_CLOCK_RATE);
+    if (fnum < 1024) return { fnum, block };
+  }
+  throw new Error(`Note "${note}" is out of range`);
+}
+
+/** Register writes that load an instrument onto a channel. */
+function patchWrites(ch: number, inst: Instrument): [number, number][] {
+  // Modulator operator offsets per channel; the carrier is 3 above
+  const op = [0, 1, 2, 8, 9, 10, 16, 17, 18][ch];
+  const writes: [number, number][] = [];
+  const pairs: [number, [number, number]][] = [
+    [0x20, inst.char],
+    [0x40, inst.level],
+    [0x60, inst.attackDecay],
+    [0x80, inst.sustainRelease],
+    [0xe0, inst.wave],
+  ];
+  for (const [base, [mod, car]] of pairs) {
+    writes.push([base + op, mod], [base + op + 3, car]);
+  }
+  writes.push([0xc0 + ch, inst.feedback]);
+  return writes;
+}
+
+/**
+ * Compile a song into IMF commands: patches first, then each step's key
+ * writes followed by an eighth note's worth of delay.
+ */
+function compileSong(song: Song): ImfCommand[] {
+  if (song.parts.length > OPL_CHANNELS) {
+    throw new Error(`A song can use at most ${OPL_CHANNELS} parts`);
+  }
+  const parts = song.parts.map((p) =>
+    p.notes.split(/\s+/).filter((t) => t && t !== "|"),
+  );
+  const steps = Math.max(...parts.map((p) => p.length));
+  const stepTicks = Math.round((IMF_RATE * 60) / (song.bpm * 2));
+
+  const commands: ImfCommand[] = [{ reg: 0x01, value: 0x20, delay: 0 }];
+  song.parts.forEach((p, ch) => {
+    for (const [reg, value] of patchWrites(ch, p.instrument)) {
+      commands.push({ reg, value, delay: 0 });
+    }
+  });
+
+  const held: number[] = song.parts.map(() => -1); // 0xB0 value while keyed
+  for (let step = 0; step < steps; step++) {
+    parts.forEach((tokens, ch) => {
+      const token = tokens[step % tokens.length];
+      if (token === "-") return;
+      if (held[ch] >= 0) {
+        commands.push({ reg: 0xb0 + ch, value: held[ch] & ~0x20, delay: 0 });
+        held[ch] = -1;
+      }
+      if (token === ".") return;
+
+      const { fnum, block } = noteFrequency(token);
+      held[ch] = 0x20 | (block << 2) | (fnum >> 8);
+      commands.push({ reg: 0xa0 + ch, value: fnum & 0xff, delay: 0 });
+      commands.push({ reg: 0xb0 + ch, value: held[ch], delay: 0 });
+    });
+    commands[commands.length - 1].delay += stepTicks;
+  }
+  return commands;
+}
+
+const _compiled = new Map<string, Uint8Array>();
+
+/**
+ * A shipped track as a type-1 IMF file, or null if there is no such track.
+ */
+export function getTrack(name: string): Uint8Array | null {
+  const song = SONGS[name];
+  if (!song) return null;
+  let imf = _compiled.get(name);
+  if (!imf) {
+    imf = encodeImf(compileSong(song));
+    _compiled.set(name, imf);
+  }
+  return imf;
+}
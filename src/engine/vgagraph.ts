@@ -0,0 +1,142 @@
+/**
+ * Wolf3D-TS VGAGRAPH Loader
+ * Ported from CA_Startup / CAL_HuffExpand (ID_CA.C)
+ *
+ * VGAGRAPH holds the full-screen and status bar pictures (title, BJ's faces,
+ * the HUD digits...). VGAHEAD gives each chunk's offset as a 3-byte number
+ * (0xFFFFFF for none) and VGADICT the 255-node Huffman tree every chunk is
+ * compressed with. Each chunk starts with its expanded size. Chunk 0 is the
+ * picture table, a width and height per picture; the pictures follow the two
+ * fonts. Pictures are stored as four planes, one per column modulo 4, the
+ * way Mode X draws them.
+ */
+
+import { GAMEPAL, paletteToABGR } from "./palette";
+
+/** First picture chunk (STARTPICS); 1 and 2 are the fonts */
+const STARTPICS = 3;
+const HUFF_NODES = 255;
+const HUFF_HEAD = 254;
+const NO_CHUNK = 0xffffff;
+
+export interface VgaPic {
+  width: number;
+  height: number;
+  /** Palette indices, row by row */
+  pixels: Uint8Array;
+}
+
+export interface VgaGraphFile {
+  /** Pictures by number (the PIC order of GFXV_WL6.H), null where missing */
+  pics: (VgaPic | null)[];
+}
+
+/**
+ * Undo id's Huffman compression into `length` bytes.
+ */
+function huffExpand(
+  src: Uint8Array,
+  nodes: Uint16Array,
+  length: number,
+): Uint8Array {
+  const out = new Uint8Array(length);
+  let o = 0;
+  let node = HUFF_HEAD;
+  for (let p = 0; p < src.length && o < length; p++) {
+    const byte = src[p];
+    for (let bit = 0; bit < 8 && o < length; bit++) {
+      const value = nodes[node * 2 + ((byte >> bit) & 1)];
+      if (value < 256) {
+        out[o++] = value;
+        node = HUFF_HEAD;
+      } else {
+        node = value - 256;
+        if (node >= HUFF_NODES) {
+          throw new Error("Invalid VGAGRAPH: bad Huffman tree");
+        }
+      }
+    }
+  }
+  if (o < length) throw new Error("Invalid VGAGRAPH: truncated chunk");
+  return out;
+}
+
+/**
+ * Read every picture out of a VGAHEAD / VGADICT / VGAGRAPH set. Throws if
+ * the files don't belong together or are damaged.
+ */
+export function parseVgaGraph(
+  head: Uint8Array,
+  dict: Uint8Array,
+  graph: Uint8Array,
+): VgaGraphFile {
+  if (dict.length < HUFF_NODES * 4) {
+    throw new Error("Invalid VGADICT: truncated");
+  }
+  const nodes = new Uint16Array(HUFF_NODES * 2);
+  for (let i = 0; i < nodes.length; i++) {
+    nodes[i] = dict[i * 2] | (dict[i * 2 + 1] << 8);
+  }
+
+  const offsets: number[] = [];
+  for (let i = 0; i + 3 <= head.length; i += 3) {
+    offsets.push(head[i] | (head[i + 1] << 8) | (head[i + 2] << 16));
+  }
+
+  const chunk = (n: number): Uint8Array | null => {
+    const start = offsets[n];
+    if (start === undefined || start === NO_CHUNK) return null;
+    // The chunk runs to the next chunk that is present
+    let end = graph.length;
+    for (let i = n + 1; i < offsets.length; i++) {
+      if (offsets[i] !== NO_CHUNK) {
+        end = offsets[i];
+        break;
+      }
+    }
+    if (start + 4 > end || end > graph.length) {
+      throw new Error(`Invalid VGAGRAPH: chunk ${n} is out of range`);
+    }
+    const data = graph.subarray(start, end);
+    const length = data[0] | (data[1] << 8) | (data[2] << 16) | (data[3] << 24);
+    return huffExpand(data.subarray(4), nodes, length);
+  };
+
+  const table = chunk(0);
+  if (!table) throw new Error("Invalid VGAGRAPH: no picture table");
+
+  const pics: (VgaPic | null)[] = [];
+  for (let i = 0; i + 4 <= table.length; i += 4) {
+    const width = table[i] | (table[i + 1] << 8);
+    const height = table[i + 2] | (table[i + 3] << 8);
+    const data = chunk(STARTPICS + i / 4);
+    if (!data || data.length < width * height) {
+      pics.push(null);
+      continue;
+    }
+
+    const pixels = new Uint8Array(width * height);
+    const planeWidth = width >> 2;
+    const planeSize = planeWidth * height;
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        pixels[y * width + x] =
+          data[(x & 3) * planeSize + y * planeWidth + (x >> 2)];
+      }
+    }
+    pics.push({ width, height, pixels });
+  }
+  return { pics };
+}
+
+/**
+ * Colour a picture as ABGR pixels.
+ */
+export function decodePic(
+  pic: VgaPic,
+  colors: Uint32Array = paletteToABGR(GAMEPAL),
+): Uint32Array {
+  const out = new Uint32Array(pic.pixels.length);
+  for (let i = 0; i < out.length; i++) out[i] = colors[pic.pixels[i]];
+  return out;
+}
@@ -0,0 +1,234 @@
+/**
+ * Wolf3D-TS VSWAP Loader
+ * Ported from PM_Startup (ID_PM.C) and the shape format of ScaleShape (WL_SCALE.C)
+ *
+ * VSWAP.WL1 / VSWAP.WL6 hold every wall page, sprite and digitized sound of
+ * the game. The header is the chunk count, the first sprite chunk and the
+ * first sound chunk, followed by a 32-bit offset and a 16-bit length for
+ * each chunk; an empty chunk has offset 0.
+ *
+ * Wall pages are 64x64 palette indices stored column by column. Sprites are
+ * compressed shapes: the first and last non-empty column, an offset per
+ * column to its list of posts, and each post is (end * 2, source offset,
+ * start * 2) with a 0 word ending the list. Pixels a post doesn't cover are
+ * transparent.
+ */
+
+import type { AssetManifest, SpriteTexture } from "./assetLoader";
+import { GAMEPAL, paletteToABGR } from "./palette";
+
+// ============================================================
+// File layout
+// ============================================================
+
+const PAGE_SIZE = 64;
+
+export interface VswapFile {
+  /** Chunk data, null where the file has an empty chunk */
+  chunks: (Uint8Array | null)[];
+  /** First sprite chunk; walls come before it */
+  spriteStart: number;
+  /** First sound chunk; sprites come before it */
+  soundStart: number;
+}
+
+/**
+ * Parse the VSWAP chunk directory. Throws if the header doesn't describe the
+ * file (wrong file, or truncated).
+ */
+export function parseVswap(bytes: Uint8Array): VswapFile {
+  const fail = (why: string): never => {
+    throw new Error(`Invalid VSWAP file: ${why}`);
+  };
+  if (bytes.length < 6) fail("truncated header");
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const count = view.getUint16(0, true);
+  const spriteStart = view.getUint16(2, true);
+  const soundStart = view.getUint16(4, true);
+  if (spriteStart > soundStart || soundStart > count) {
+    fail("chunk ranges out of order");
+  }
+  if (6 + count * 6 > bytes.length) fail("truncated chunk directory");
+
+  const chunks: (Uint8Array | null)[] = [];
+  for (let i = 0; i < count; i++) {
+    const offset = view.getUint32(6 + i * 4, true);
+    const length = view.getUint16(6 + count * 4 + i * 2, true);
+    if (offset === 0 || length === 0) {
+      chunks.push(null);
+      continue;
+    }
+    if (offset + length > bytes.length) fail(`chunk ${i} is truncated`);
+    chunks.push(bytes.subarray(offset, offset + length));
+  }
+  return { chunks, spriteStart, soundStart };
+}
+
+// ============================================================
+// Decoding
+// ============================================================
+
+/**
+ * Decode a wall page to 64x64 ABGR pixels, row by row as the renderer
+ * stores textures.
+ */
+export function decodeWall(
+  page: Uint8Array,
+  colors: Uint32Array = paletteToABGR(GAMEPAL),
+): Uint32Array {
+  if (page.length < PAGE_SIZE * PAGE_SIZE) {
+    throw new Error("Invalid wall page: truncated");
+  }
+  const out = new Uint32Array(PAGE_SIZE * PAGE_SIZE);
+  for (let x = 0; x < PAGE_SIZE; x++) {
+    for (let y = 0; y < PAGE_SIZE; y++) {
+      out[y * PAGE_SIZE + x] = colors[page[x * PAGE_SIZE + y]];
+    }
+  }
+  return out;
+}
+
+/**
+ * Decode a compressed sprite to 64x64 ABGR pixels, transparent (alpha 0)
+ * wherever no post is drawn.
+ */
+export function decodeSprite(
+  shape: Uint8Array,
+  colors: Uint32Array = paletteToABGR(GAMEPAL),
+): Uint32Array {
+  const fail = (why: string): never => {
+    throw new Error(`Invalid sprite: ${why}`);
+  };
+  if (shape.length < 4) fail("truncated");
+
+  const view = new DataView(shape.buffer, shape.byteOffset, shape.byteLength);
+  const word = (p: number): number => {
+    if (p + 2 > shape.length) fail("truncated");
+    return view.getUint16(p, true);
+  };
+  const left = word(0);
+  const right = word(2);
+  if (left > right || right >= PAGE_SIZE) fail("columns out of range");
+
+  const out = new Uint32Array(PAGE_SIZE * PAGE_SIZE);
+  for (let x = left; x <= right; x++) {
+    let p = word(4 + (x - left) * 2);
+    for (let end = word(p); end !== 0; end = word(p)) {
+      const source = view.getInt16(p + 2, true);
+      const start = word(p + 4) >> 1;
+      end >>= 1;
+      if (end > PAGE_SIZE || start > end) fail("post out of range");
+      for (let y = start; y < end; y++) {
+        const src = source + y;
+        if (src < 0 || src >= shape.length) fail("post out of range");
+        out[y * PAGE_SIZE + x] = colors[shape[src]];
+      }
+      p += 6;
+    }
+  }
+  return out;
+}
+
+// ============================================================
+// Asset manifest
+// ============================================================
+
+/**
+ * One enemy's frames as original sprite numbers (SPR_* in WL_DEF.H), in the
+ * order the PNG set names them a, b, c...
+ */
+export interface SpriteFrames {
+  /** Frames drawn from eight directions: the first of eight consecutive
+   * sprites, rotation 1 facing the player */
+  rotated: number[];
+  /** Frames that look the same from every direction */
+  single: number[];
+}
+
+function frames(rotated: number[], single: number[]): SpriteFrames {
+  return { rotated, single };
+}
+
+function range(first: number, count: number): number[] {
+  return Array.from({ length: count }, (_, i) => first + i);
+}
+
+/**
+ * Every enemy's frames: standing and walking first, then pain, dying, dead
+ * and shooting (jumping for the dog). Bosses don't rotate.
+ */
+export const ENEMY_SPRITES: Record<string, SpriteFrames> = {
+  guard: frames([50, 58, 66, 74, 82], range(90, 9)),
+  dog: frames([99, 107, 115, 123], range(131, 7)),
+  ss: frames([138, 146, 154, 162, 170], range(178, 9)),
+  mutant: frames([187, 195, 203, 211, 219], range(227, 11)),
+  officer: frames([238, 246, 254, 262, 270], range(278, 10)),
+  blinky: frames([], range(288, 2)),
+  pinky: frames([], range(290, 2)),
+  clyde: frames([], range(292, 2)),
+  inky: frames([], range(294, 2)),
+  hans: frames([], range(296, 11)),
+  schabbs: frames([], range(307, 10)),
+  fake: frames([], [...range(321, 5), ...range(328, 6)]),
+  mecha: frames([], range(334, 11)),
+  hitler: frames([], range(345, 15)),
+  gift: frames([], range(360, 10)),
+  gretel: frames([], range(385, 11)),
+  fat: frames([], range(396, 12)),
+};
+
+/** SPR_STAT_0: the 48 static objects in statinfo order */
+export const STATIC_SPRITE_START = 2;
+export const NUM_STATIC_SPRITES = 48;
+
+/** SPR_KNIFEREADY; each weapon has a ready frame and four attack frames */
+export const WEAPON_SPRITE_START = 416;
+export const WEAPON_NAMES = ["knife", "pistol", "machinegun", "chaingun"];
+export const WEAPON_FRAMES = 5;
+
+/** Door pages sit just before the sprites (DOORWALL): the door, its jamb,
+ * the elevator door and the locked door, each lit and dark */
+export const DOOR_PAGES = 8;
+
+/** Lit page of each door after DOORWALL, in manifest door order (normal,
+ * elevator, jamb, locked) */
+export const DOOR_OFFSETS = [0, 4, 2, 6];
+
+/**
+ * Decode a whole VSWAP into an AssetManifest: every wall (the lit page of
+ * each wall tile), the four doors and every sprite by its original number.
+ * Missing chunks come through as null.
+ */
+export function vswapToManifest(
+  file: VswapFile,
+  pal: Uint8Array = GAMEPAL,
+): AssetManifest {
+  const colors = paletteToABGR(pal);
+  const doorwall = file.spriteStart - DOOR_PAGES;
+  const wall = (page: number): Uint32Array | null => {
+    const chunk = page >= 0 ? file.chunks[page] : null;
+    return chunk ? decodeWall(chunk, colors) : null;
+  };
+
+  const walls: (Uint32Array | null)[] = [];
+  for (let page = 0; page < doorwall; page += 2) walls.push(wall(page));
+
+  const sprites: (SpriteTexture | null)[] = [];
+  for (let i = file.spriteStart; i < file.soundStart; i++) {
+    const chunk = file.chunks[i];
+    sprites.push(
+      chunk && {
+        pixels: decodeSprite(chunk, colors),
+        width: PAGE_SIZE,
+        height: PAGE_SIZE,
+      },
+    );
+  }
+
+  return {
+    walls,
+    doors: DOOR_OFFSETS.map((offset) => wall(doorwall + offset)),
+    sprites,
+  };
+}
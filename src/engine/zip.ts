@@ -0,0 +1,127 @@
+/**
+ * Wolf3D-TS Zip Reader
+ *
+ * Just enough of the zip format to open a mod pack: the end of central
+ * directory record at the back of the file, the central directory it points
+ * to (one record per file, with its sizes, compression method and where its
+ * local header sits), and each local header, whose data follows its name
+ * and extra field. Files are either stored or deflated; the browser's
+ * DecompressionStream inflates the latter. Zip64 and encrypted archives are
+ * refused.
+ */
+
+// ============================================================
+// File layout
+// ============================================================
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_SIGNATURE = 0x02014b50;
+const LOCAL_SIGNATURE = 0x04034b50;
+
+/** End of central directory record, without its trailing comment */
+const EOCD_SIZE = 22;
+/** The comment after it is at most this long */
+const MAX_COMMENT = 0xffff;
+const CENTRAL_HEADER_SIZE = 46;
+const LOCAL_HEADER_SIZE = 30;
+
+const METHOD_STORED = 0;
+const METHOD_DEFLATED = 8;
+
+/** General purpose flag bit 0 */
+const FLAG_ENCRYPTED = 1;
+
+// ============================================================
+// Reading
+// ============================================================
+
+/**
+ * Read every file in a zip archive into a map of path to contents.
+ * Directory entries are skipped. Throws if the archive is damaged or uses
+ * something this reader doesn't handle.
+ */
+export async function readZip(bytes: Uint8Array): Promise<Map<string, Blob>> {
+  const fail = (why: string): never => {
+    throw new Error(`Invalid zip file: ${why}`);
+  };
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+  // The record ends the file, give or take its comment
+  let eocd = -1;
+  const last = Math.max(0, bytes.length - EOCD_SIZE - MAX_COMMENT);
+  for (let i = bytes.length - EOCD_SIZE; i >= last; i--) {
+    if (view.getUint32(i, true) === EOCD_SIGNATURE) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) fail("no end of central directory record");
+
+  const count = view.getUint16(eocd + 10, true);
+  let pos = view.getUint32(eocd + 16, true);
+  if (count === 0xffff || pos === 0xffffffff) fail("zip64 is not supported");
+
+  const files = new Map<string, Blob>();
+  const decoder = new TextDecoder();
+  for (let i = 0; i < count; i++) {
+    if (pos + CENTRAL_HEADER_SIZE > bytes.length) {
+      fail("truncated central directory");
+    }
+    if (view.getUint32(pos, true) !== CENTRAL_SIGNATURE) {
+      fail(`bad central directory record ${i}`);
+    }
+    const flags = view.getUint16(pos + 8, true);
+    const method = view.getUint16(pos + 10, true);
+    const compressed = view.getUint32(pos + 20, true);
+    const size = view.getUint32(pos + 24, true);
+    const nameLength = view.getUint16(pos + 28, true);
+    const extraLength = view.getUint16(pos + 30, true);
+    const commentLength = view.getUint16(pos + 32, true);
+    const local = view.getUint32(pos + 42, true);
+    const name = decoder.decode(
+      bytes.subarray(
+        pos + CENTRAL_HEADER_SIZE,
+        pos + CENTRAL_HEADER_SIZE + nameLength,
+      ),
+    );
+    pos += CENTRAL_HEADER_SIZE + nameLength + extraLength + commentLength;
+
+    if (name.endsWith("/")) continue;
+    if (flags & FLAG_ENCRYPTED) fail(`${name} is encrypted`);
+
+    // The local header's name and extra field may differ from the central one
+    if (
+      local + LOCAL_HEADER_SIZE > bytes.length ||
+      view.getUint32(local, true) !== LOCAL_SIGNATURE
+    ) {
+      fail(`bad local header for ${name}`);
+    }
+    const start =
+      local +
+      LOCAL_HEADER_SIZE +
+      view.getUint16(local + 26, true) +
+      view.getUint16(local + 28, true);
+    if (start + compressed > bytes.length) fail(`${name} is truncated`);
+    const data = bytes.slice(start, start + compressed);
+
+    switch (method) {
+      case METHOD_STORED:
+        files.set(name, new Blob([data]));
+        break;
+      case METHOD_DEFLATED: {
+        const stream = new Blob([data])
+          .stream()
+          .pipeThrough(new DecompressionStream("deflate-raw"));
+        const blob = await new Response(stream).blob();
+        if (blob.size !== size) {
+          fail(`${name} did not inflate to ${size} bytes`);
+        }
+        files.set(name, blob);
+        break;
+      }
+      default:
+        fail(`${name} uses unsupported compression method ${method}`);
+    }
+  }
+  return files;
+}
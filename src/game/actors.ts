@@ -12,7 +12,6 @@ import {
   TILESHIFT,
   MINDIST,
   SPDPATROL,
-  SPDDOG,
   FL_SHOOTABLE,
   FL_BONUS,
   FL_NEVERMARK,
@@ -22,15 +21,17 @@ import {
   MAXACTORS,
   MAXDOORS,
   MAXSTATS,
+  MAXWALLTILES,
   NUMAREAS,
   AREATILE,
   ELEVATORTILE,
   PUSHABLETILE,
-  START_HITPOINTS,
+  EXITTILE,
+  SECRETEXITTILE,
+  STATICTILE,
   DX,
   DY,
   ClassType,
-  EnemyType,
   DirType,
   DoorAction,
   DoorLock,
@@ -53,7 +54,9 @@ import type {
   StateType,
 } from "../core/types";
 
-import { getInitialState } from "./ai";
+import { getInitialState, getGhostState } from "./ai";
+import { getEnemyDef, findEnemyDef } from "./enemyDefs";
+import { SoundType, playSound, playSoundAt } from "./sound";
 
 // ============================================================
 // Constants
@@ -67,6 +70,8 @@ const DOOR_OPEN_TIME = 300;
 const PUSHWALL_SPEED = 256;
 /** Total distance a pushwall travels: 2 full tiles */
 const PUSHWALL_DISTANCE = TILEGLOBAL * 2;
+/** areamap value for walls and doors */
+export const NO_AREA = 0xff;
 
 // ============================================================
 // Door tile encoding
@@ -96,6 +101,7 @@ export interface WorldState {
   doorobjlist: DoorObj[]; // doors (pool of MAXDOORS)
   lastdoor: number; // count of active doors
   doorposition: number[]; // door open amounts (0-1 float) indexed by door index
+  areamap: Uint8Array; // 64x64 area number of each floor tile, NO_AREA elsewhere
   areaconnect: boolean[][]; // NUMAREAS x NUMAREAS connectivity
   areabyplayer: boolean[]; // which areas the player can hear
   gamestate: GameState;
@@ -156,6 +162,7 @@ export function createWorldState(): WorldState {
     doorobjlist,
     lastdoor: 0,
     doorposition,
+    areamap: new Uint8Array(size).fill(NO_AREA),
     areaconnect,
     areabyplayer: new Array(NUMAREAS).fill(false),
     gamestate: createGameState(),
@@ -272,65 +279,10 @@ const STATIC_DEFS: StaticDef[] = [
 ];
 
 /**
- * Map an enemy class to the EnemyType enum index for hitpoint lookup.
- */
-function classToEnemyType(obclass: ClassType): EnemyType {
-  switch (obclass) {
-    case ClassType.Guard:
-      return EnemyType.Guard;
-    case ClassType.Officer:
-      return EnemyType.Officer;
-    case ClassType.SS:
-      return EnemyType.SS;
-    case ClassType.Dog:
-      return EnemyType.Dog;
-    case ClassType.Boss:
-      return EnemyType.Boss;
-    case ClassType.Schabbs:
-      return EnemyType.Schabbs;
-    case ClassType.Fake:
-      return EnemyType.Fake;
-    case ClassType.MechaHitler:
-    case ClassType.RealHitler:
-      return EnemyType.Hitler;
-    case ClassType.Mutant:
-      return EnemyType.Mutant;
-    case ClassType.Gretel:
-      return EnemyType.Gretel;
-    case ClassType.Gift:
-      return EnemyType.Gift;
-    case ClassType.Fat:
-      return EnemyType.Fat;
-    case ClassType.Spectre:
-      return EnemyType.Spectre;
-    case ClassType.Angel:
-      return EnemyType.Angel;
-    case ClassType.Trans:
-      return EnemyType.Trans;
-    case ClassType.Uber:
-      return EnemyType.Uber;
-    case ClassType.Will:
-      return EnemyType.Will;
-    case ClassType.Death:
-      return EnemyType.Death;
-    default:
-      return EnemyType.Guard;
-  }
-}
-
-/**
- * Get the movement speed for an enemy class.
+ * Get the movement speed for an enemy class, from its definition.
  */
 function getEnemySpeed(obclass: ClassType): number {
-  switch (obclass) {
-    case ClassType.Dog:
-      return SPDDOG;
-    case ClassType.Ghost:
-    case ClassType.Spectre:
-      return SPDDOG;
-    default:
-      return SPDPATROL;
-  }
+  return findEnemyDef(obclass)?.speed.patrol ?? SPDPATROL;
 }
 
 /**
@@ -359,9 +311,9 @@ function decodeDoorTile(
     case 95:
       return { vertical: false, lock: DoorLock.Lock2 };
     case 100:
-      return { vertical: true, lock: DoorLock.Normal }; // elevator
+      return { vertical: true, lock: DoorLock.Elevator };
     case 101:
-      return { vertical: false, lock: DoorLock.Normal };
+      return { vertical: false, lock: DoorLock.Elevator };
     default:
       return null;
   }
@@ -437,11 +389,23 @@ export function setupLevel(
   // Store difficulty
   world.gamestate.difficulty = difficulty;
 
-  // -- Pass 1: Copy walls and spawn doors --
+  // Start the floor's tallies and clock afresh (SetupGameLevel)
+  const gs = world.gamestate;
+  gs.killcount = gs.killtotal = 0;
+  gs.secretcount = gs.secrettotal = 0;
+  gs.treasurecount = gs.treasuretotal = 0;
+  gs.TimeCount = 0;
+
+  // -- Pass 1: Copy walls and areas, and spawn doors --
   for (let y = 0; y < MAPSIZE; y++) {
     for (let x = 0; x < MAPSIZE; x++) {
       const idx = tileIndex(x, y);
       const wallval = map.walls[idx];
+      const areaval = map.areas[idx];
+      world.areamap[idx] =
+        areaval >= AREATILE && areaval < AREATILE + NUMAREAS
+          ? areaval - AREATILE
+          : NO_AREA;
 
       // Check if it is a door tile
       const doorInfo = decodeDoorTile(wallval);
@@ -464,6 +428,12 @@ export function setupLevel(
         continue;
       }
 
+      // Elevator switches keep their value so the use button finds them
+      if (wallval === EXITTILE || wallval === SECRETEXITTILE) {
+        world.tilemap[idx] = wallval;
+        continue;
+      }
+
       // Regular wall (values 1-63 are wall textures, 0 is open space)
       if (wallval > 0 && wallval < 90) {
         world.tilemap[idx] = wallval & 0xff;
@@ -477,6 +447,16 @@ export function setupLevel(
     }
   }
 
+  // Only pushwalls the player can actually move count as secrets
+  for (let y = 0; y < MAPSIZE; y++) {
+    for (let x = 0; x < MAPSIZE; x++) {
+      if (world.tilemap[tileIndex(x, y)] !== PUSHABLETILE) continue;
+      if (PUSH_DIRS.some((dir) => canPushWall(world, x, y, dir))) {
+        gs.secrettotal++;
+      }
+    }
+  }
+
   // -- Pass 2: Scan object plane for actors, statics, and player start --
   for (let y = 0; y < MAPSIZE; y++) {
     for (let x = 0; x < MAPSIZE; x++) {
@@ -529,14 +509,19 @@ export function setupLevel(
         continue;
       }
 
-      // Enemy spawns: 23-74 in groups of 4 (standing NESW) or patrolling
-      // The original Wolf3D uses a large switch; we handle ranges.
+      // Enemy spawns: 23-74, and bosses, Spear of Destiny enemies and the
+      // Pac-Man ghosts 100-143 in groups of 4 (standing
+      // NESW) or patrolling. The original Wolf3D uses a large switch; we
+      // handle ranges.
 
       // Ambush flag: objects at value + 256 are ambush variants
       const ambush = objval >= 180;
       const baseVal = ambush ? objval - 180 + 23 : objval;
 
-      if (baseVal >= 23 && baseVal <= 74) {
+      if (
+        (baseVal >= 23 && baseVal <= 74) ||
+        (baseVal >= 100 && baseVal <= 143)
+      ) {
         spawnEnemyFromObjectValue(
           world,
           map,
@@ -557,14 +542,16 @@ export function setupLevel(
       //   > 74 or specific values: statics
       // Let's handle statics as a separate range.
 
-      // Static spawns for decoration/pickup values
+      // Static spawns for decoration/pickup values. Every static can also be
+      // placed at STATICTILE + its index, which is how the ones whose values
+      // overlap with enemies get in (see gamemaps.ts)
       if (
-        objval >= 47 &&
-        objval <= 47 + STATIC_DEFS.length - 1 &&
-        objval > 74
+        (objval >= 47 &&
+          objval <= 47 + STATIC_DEFS.length - 1 &&
+          objval > 74) ||
+        (objval >= STATICTILE && objval < STATICTILE + STATIC_DEFS.length)
       ) {
-        // This handles static objects whose values don't overlap with enemies
-        const defIdx = objval - 47;
+        const defIdx = objval >= STATICTILE ? objval - STATICTILE : objval - 47;
         if (defIdx >= 0 && defIdx < STATIC_DEFS.length) {
           const def = STATIC_DEFS[defIdx];
           spawnStatic(world, x, y, def.shapenum, def.flags, def.item);
@@ -577,17 +564,14 @@ export function setupLevel(
     }
   }
 
-  // -- Pass 3: Build area connectivity from area plane --
+  // -- Pass 3: Every door starts closed, so each area hears only itself --
   initAreas(world);
-  buildAreaConnectivity(world, map);
-
-  // Initial area recalculation
   recalcAreas(world);
 }
 
 /**
  * Spawn an enemy from an object plane value.
- * Values 23-74 map to different enemy types and directions.
+ * Values 23-74 and 100-143 map to different enemy types and directions.
  */
 function spawnEnemyFromObjectValue(
   world: WorldState,
@@ -613,6 +597,18 @@ function spawnEnemyFromObjectValue(
   //   39-42: Dog NESW
   //   43-46: Mutant standing NESW
   //   47-70+: statics (handled elsewhere)
+  //
+  // Bosses, after the statics:
+  //   63-66: Hans Grosse, 67-70: Schabbs, 71-74: Fake Hitler
+  //   100-103: Gretel Grosse, 104-107: Giftmacher, 108-111: Fettgesicht
+  //   112-115: Mecha Hitler
+  //
+  // Spear of Destiny:
+  //   116-119: Spectre, 120-123: Angel of Death, 124-127: Trans Grosse
+  //   128-131: Ubermutant, 132-135: Barnacle Wilhelm, 136-139: Death Knight
+  //
+  // Secret floor:
+  //   140: Blinky, 141: Clyde, 142: Pinky, 143: Inky
 
   const dirs = [DirType.North, DirType.East, DirType.South, DirType.West];
 
@@ -674,9 +670,52 @@ function spawnEnemyFromObjectValue(
     obclass = ClassType.Schabbs;
     dir = dirs[value - 67];
   } else if (value >= 71 && value <= 74) {
-    // Fake Hitler / other bosses
+    // Fake Hitler
     obclass = ClassType.Fake;
     dir = dirs[value - 71];
+  } else if (value >= 100 && value <= 103) {
+    // Gretel Grosse
+    obclass = ClassType.Gretel;
+    dir = dirs[value - 100];
+  } else if (value >= 104 && value <= 107) {
+    // Otto Giftmacher
+    obclass = ClassType.Gift;
+    dir = dirs[value - 104];
+  } else if (value >= 108 && value <= 111) {
+    // General Fettgesicht
+    obclass = ClassType.Fat;
+    dir = dirs[value - 108];
+  } else if (value >= 112 && value <= 115) {
+    // Mecha Hitler (Hitler himself appears when the suit is destroyed)
+    obclass = ClassType.MechaHitler;
+    dir = dirs[value - 112];
+  } else if (value >= 116 && value <= 119) {
+    // Spectre
+    obclass = ClassType.Spectre;
+    dir = dirs[value - 116];
+  } else if (value >= 120 && value <= 123) {
+    // Angel of Death
+    obclass = ClassType.Angel;
+    dir = dirs[value - 120];
+  } else if (value >= 124 && value <= 127) {
+    // Trans Grosse
+    obclass = ClassType.Trans;
+    dir = dirs[value - 124];
+  } else if (value >= 128 && value <= 131) {
+    // Ubermutant
+    obclass = ClassType.Uber;
+    dir = dirs[value - 128];
+  } else if (value >= 132 && value <= 135) {
+    // Barnacle Wilhelm
+    obclass = ClassType.Will;
+    dir = dirs[value - 132];
+  } else if (value >= 136 && value <= 139) {
+    // Death Knight
+    obclass = ClassType.Death;
+    dir = dirs[value - 136];
+  } else if (value >= 140 && value <= 143) {
+    spawnGhost(world, map, value - 140, tilex, tiley);
+    return;
   } else {
     return; // Unknown enemy value
   }
@@ -689,8 +728,7 @@ function spawnEnemyFromObjectValue(
   if (!actor) return;
 
   // Set the initial state
-  const enemyType = classToEnemyType(obclass);
-  const state = getInitialState(enemyType, patrolling);
+  const state = getInitialState(obclass, patrolling);
   if (state) {
     actor.state = state;
     actor.ticcount = state.tictime > 0 ? rnd(state.tictime) + 1 : 0;
@@ -708,10 +746,16 @@ function spawnEnemyFromObjectValue(
   }
 
   // Set hitpoints
-  actor.hitpoints = START_HITPOINTS[difficulty][enemyType];
+  const def = getEnemyDef(obclass);
+  actor.hitpoints = def.hitpoints[difficulty];
+
+  // Spectres float through everything, so they never block a tile
+  if (obclass === ClassType.Spectre) {
+    world.actorat[tileIndex(tilex, tiley)] = null;
+  }
 
-  // Update kill total
-  world.gamestate.killtotal++;
+  // Update kill total (spectres keep coming back and don't count)
+  if (def.countsAsKill) world.gamestate.killtotal++;
 
   // Get area number from area plane
   const areaVal = map.areas[tileIndex(tilex, tiley)];
@@ -721,52 +765,29 @@ function spawnEnemyFromObjectValue(
 }
 
 /**
- * Build area connectivity by scanning door positions in the map.
- * Doors connect two areas. When a door is open, the areas on either side
- * are connected.
+ * Spawn a Pac-Man ghost (0 Blinky, 1 Clyde, 2 Pinky, 3 Inky). Ghosts are
+ * always hunting, can't be shot, don't block and aren't counted as kills.
  */
-function buildAreaConnectivity(world: WorldState, map: MapData): void {
-  for (let d = 0; d < world.lastdoor; d++) {
-    const door = world.doorobjlist[d];
-    const tx = door.tilex;
-    const ty = door.tiley;
-
-    let area1 = -1;
-    let area2 = -1;
+function spawnGhost(
+  world: WorldState,
+  map: MapData,
+  which: number,
+  tilex: number,
+  tiley: number,
+): void {
+  const actor = spawnActor(world, ClassType.Ghost, tilex, tiley, DirType.NoDir);
+  if (!actor) return;
 
-    if (door.vertical) {
-      // Vertical door: connects tiles to the east and west
-      if (tx > 0) {
-        const val = map.areas[tileIndex(tx - 1, ty)];
-        if (val >= AREATILE) area1 = val - AREATILE;
-      }
-      if (tx < MAPSIZE - 1) {
-        const val = map.areas[tileIndex(tx + 1, ty)];
-        if (val >= AREATILE) area2 = val - AREATILE;
-      }
-    } else {
-      // Horizontal door: connects tiles to the north and south
-      if (ty > 0) {
-        const val = map.areas[tileIndex(tx, ty - 1)];
-        if (val >= AREATILE) area1 = val - AREATILE;
-      }
-      if (ty < MAPSIZE - 1) {
-        const val = map.areas[tileIndex(tx, ty + 1)];
-        if (val >= AREATILE) area2 = val - AREATILE;
-      }
-    }
+  actor.state = getGhostState(which);
+  actor.ticcount = actor.state.tictime;
+  actor.flags = 0; // not FL_SHOOTABLE
+  actor.active = ActiveType.Always;
+  actor.hitpoints = getEnemyDef(ClassType.Ghost).hitpoints[0];
+  world.actorat[tileIndex(tilex, tiley)] = null;
 
-    // Store areas on door for later connect/disconnect
-    // Using temp fields: area1 in upper byte, area2 in lower byte
-    if (area1 >= 0 && area1 < NUMAREAS) {
-      door.ticcount = area1; // We'll use a real field; ticcount is reused temporarily
-    }
-    if (area2 >= 0 && area2 < NUMAREAS && area1 >= 0) {
-      // Store area2. For doors, we need to track both areas.
-      // We'll store area1*NUMAREAS + area2 in a way we can unpack.
-      // Actually, let's just connect them if the door starts open, or
-      // store the relationship for when the door opens.
-    }
+  const areaVal = map.areas[tileIndex(tilex, tiley)];
+  if (areaVal >= AREATILE) {
+    actor.areanumber = areaVal - AREATILE;
   }
 }
 
@@ -785,13 +806,21 @@ export function spawnActor(
   tiley: number,
   dir: DirType,
 ): Actor | null {
-  // Find next free slot in actor pool
-  if (world.lastobj >= MAXACTORS - 1) {
+  // Find a free slot in the actor pool: reuse one vacated by removeActor
+  // (spent projectiles), otherwise take the next one
+  let slot = 1;
+  while (
+    slot <= world.lastobj &&
+    world.objlist[slot].obclass !== ClassType.Nothing
+  ) {
+    slot++;
+  }
+  if (slot >= MAXACTORS) {
     return null; // Pool full
   }
 
-  world.lastobj++;
-  const actor = world.objlist[world.lastobj];
+  world.lastobj = Math.max(world.lastobj, slot);
+  const actor = world.objlist[slot];
 
   // Initialize actor
   actor.active = ActiveType.No;
@@ -896,7 +925,7 @@ export function killActor(world: WorldState, actor: Actor): void {
   }
 
   // Increment player kill count
-  world.gamestate.killcount++;
+  if (getEnemyDef(actor.obclass).countsAsKill) world.gamestate.killcount++;
 
   // The actual death state transition is handled by the AI module,
   // which sets actor.state to the appropriate die state.
@@ -974,6 +1003,32 @@ export function closeDoor(world: WorldState, doorIndex: number): void {
   }
 
   door.action = DoorAction.Closing;
+  playDoorSound(world, doorIndex, SoundType.DoorClose);
+}
+
+/**
+ * Play a door's sound from the middle of its tile. The door sits between two
+ * areas, so it is heard clearly from either; doors whose areas aren't known
+ * count as being in the player's.
+ */
+function playDoorSound(
+  world: WorldState,
+  doorIndex: number,
+  sound: SoundType,
+): void {
+  const door = world.doorobjlist[doorIndex];
+  const areas = getDoorAreas(world, door);
+  let area = world.player.areanumber;
+  if (areas) {
+    area = world.areabyplayer[areas.area1] ? areas.area1 : areas.area2;
+  }
+  playSoundAt(
+    world,
+    sound,
+    (door.tilex << TILESHIFT) + (TILEGLOBAL >> 1),
+    (door.tiley << TILESHIFT) + (TILEGLOBAL >> 1),
+    area,
+  );
 }
 
 /**
@@ -986,13 +1041,16 @@ export function moveDoors(world: WorldState, tics: number): void {
 
     switch (door.action) {
       case DoorAction.Opening: {
+        if (door.position === 0) {
+          // Just starting to open: the areas on either side hear each other
+          connectDoorAreas(world, d);
+          playDoorSound(world, d, SoundType.DoorOpen);
+        }
         door.position += DOOR_OPEN_SPEED * tics;
         if (door.position >= 1.0) {
           door.position = 1.0;
           door.action = DoorAction.Open;
           door.ticcount = 0;
-          // Connect areas on either side of the door
-          connectDoorAreas(world, d);
         }
         world.doorposition[d] = door.position;
         break;
@@ -1011,7 +1069,7 @@ export function moveDoors(world: WorldState, tics: number): void {
         if (door.position <= 0) {
           door.position = 0;
           door.action = DoorAction.Closed;
-          // Disconnect areas
+          // Shut: the areas can no longer hear each other
           disconnectDoorAreas(world, d);
         }
         world.doorposition[d] = door.position;
@@ -1033,6 +1091,7 @@ function connectDoorAreas(world: WorldState, doorIndex: number): void {
   const areas = getDoorAreas(world, door);
   if (areas) {
     connectAreas(world, areas.area1, areas.area2);
+    recalcAreas(world);
   }
 }
 
@@ -1043,15 +1102,12 @@ function disconnectDoorAreas(world: WorldState, doorIndex: number): void {
   const door = world.doorobjlist[doorIndex];
   const areas = getDoorAreas(world, door);
   if (areas) {
-    // Only disconnect if no other open door connects these same areas
+    // Only disconnect if no other door that isn't shut joins the same areas
     let otherDoorConnects = false;
     for (let d = 0; d < world.lastdoor; d++) {
       if (d === doorIndex) continue;
       const other = world.doorobjlist[d];
-      if (
-        other.action === DoorAction.Open ||
-        other.action === DoorAction.Opening
-      ) {
+      if (other.action !== DoorAction.Closed) {
         const otherAreas = getDoorAreas(world, other);
         if (
           otherAreas &&
@@ -1067,6 +1123,7 @@ function disconnectDoorAreas(world: WorldState, doorIndex: number): void {
     }
     if (!otherDoorConnects) {
       disconnectAreas(world, areas.area1, areas.area2);
+      recalcAreas(world);
     }
   }
 }
@@ -1080,27 +1137,15 @@ function getDoorAreas(
   world: WorldState,
   door: DoorObj,
 ): { area1: number; area2: number } | null {
-  // We look at tiles adjacent to the door to find area numbers.
-  // Since actors store their areanumber, and the tilemap/area data is used at setup,
-  // we scan the actors and player for nearby area info.
-
-  // For a vertical door at (tx, ty):
-  //   area to the west  = area of tile (tx-1, ty)
-  //   area to the east  = area of tile (tx+1, ty)
-  // For a horizontal door at (tx, ty):
-  //   area to the north = area of tile (tx, ty-1)
-  //   area to the south = area of tile (tx, ty+1)
-
-  // We need to find area numbers from the world. Since we don't store the original
-  // area plane in the world state, we'll use a heuristic: check if any actor in
-  // adjacent tiles has an area number. If not, default to 0.
-
-  // A better approach: store door area info at setup time.
-  // We use door-adjacent actor/player area info or stored area data.
-
-  // For now, return null if we can't determine areas.
-  // The door system still works for basic opening/closing.
-  return null;
+  const { tilex: tx, tiley: ty } = door;
+  const area1 = door.vertical
+    ? world.areamap[tileIndex(tx - 1, ty)]
+    : world.areamap[tileIndex(tx, ty - 1)];
+  const area2 = door.vertical
+    ? world.areamap[tileIndex(tx + 1, ty)]
+    : world.areamap[tileIndex(tx, ty + 1)];
+  if (area1 === NO_AREA || area2 === NO_AREA) return null;
+  return { area1, area2 };
 }
 
 // ============================================================
@@ -1124,23 +1169,10 @@ export function pushWall(
   const idx = tileIndex(tilex, tiley);
   if (world.tilemap[idx] !== PUSHABLETILE) return;
 
-  // Check that the 2 tiles in the push direction are open
-  const dx = DX[dir];
-  const dy = DY[dir];
-
-  const nx1 = tilex + dx;
-  const ny1 = tiley + dy;
-  const nx2 = tilex + dx * 2;
-  const ny2 = tiley + dy * 2;
-
-  // Bounds check
-  if (nx1 < 0 || nx1 >= MAPSIZE || ny1 < 0 || ny1 >= MAPSIZE) return;
-  if (nx2 < 0 || nx2 >= MAPSIZE || ny2 < 0 || ny2 >= MAPSIZE) return;
-
-  // Target tiles must be empty (no walls, no actors, no doors)
-  if (world.tilemap[tileIndex(nx1, ny1)] !== 0) return;
-  if (world.tilemap[tileIndex(nx2, ny2)] !== 0) return;
-  if (world.actorat[tileIndex(nx1, ny1)] !== null) return;
+  // The 2 tiles ahead must be open, with no one in the way
+  if (!canPushWall(world, tilex, tiley, dir)) return;
+  const ahead = tileIndex(tilex + DX[dir], tiley + DY[dir]);
+  if (world.actorat[ahead] !== null) return;
 
   // Start pushing
   world.pwallstate = 1; // 1 = active
@@ -1154,7 +1186,7 @@ export function pushWall(
   // Increment secret count
   world.gamestate.secretcount++;
 
-  // Play pushwall sound (handled by audio system, not here)
+  playSound(SoundType.PushWall);
 }
 
 /**
@@ -1170,7 +1202,7 @@ export function movePushWall(world: WorldState, tics: number): void {
   const oldTile = Math.floor(oldPos / TILEGLOBAL);
   const newTile = Math.floor(world.pwallpos / TILEGLOBAL);
 
-  if (newTile > oldTile && newTile < 2) {
+  if (newTile > oldTile) {
     // Crossed into a new tile. The wall has fully entered the next tile.
     // Update the pushwall origin tile
     world.pwalltile.x += DX[world.pwalldir];
@@ -1187,12 +1219,75 @@ export function movePushWall(world: WorldState, tics: number): void {
     const finalY = world.pwalltile.y;
     const finalIdx = tileIndex(finalX, finalY);
 
-    // Put a solid wall tile at the final position
-    // Use the original pushable wall texture value
-    world.tilemap[finalIdx] = PUSHABLETILE;
+    // A wall at rest is a plain wall, and can't be pushed again
+    world.tilemap[finalIdx] = restingWallTile(
+      world,
+      finalX,
+      finalY,
+      world.pwalldir,
+    );
   }
 }
 
+/** The directions a pushwall can slide in */
+const PUSH_DIRS = [DirType.East, DirType.North, DirType.West, DirType.South];
+
+/**
+ * Could the player push the wall at (tilex, tiley) in this direction? The
+ * two tiles ahead must be open, and the player needs somewhere to stand.
+ */
+function canPushWall(
+  world: WorldState,
+  tilex: number,
+  tiley: number,
+  dir: DirType,
+): boolean {
+  const tileAt = (steps: number): number => {
+    const x = tilex + DX[dir] * steps;
+    const y = tiley + DY[dir] * steps;
+    if (x < 0 || x >= MAPSIZE || y < 0 || y >= MAPSIZE) return -1;
+    return world.tilemap[tileIndex(x, y)];
+  };
+  // The player may stand in a doorway; the wall only slides over floor
+  const behind = tileAt(-1);
+  return (
+    (behind === 0 || behind >= 128) && tileAt(1) === 0 && tileAt(2) === 0
+  );
+}
+
+/**
+ * The wall tile a pushwall turns into where it stops: the wall it came up
+ * against, or one beside it, so it blends in as the original's did.
+ */
+function restingWallTile(
+  world: WorldState,
+  tilex: number,
+  tiley: number,
+  dir: DirType,
+): number {
+  for (const d of [dir, (dir + 2) % 8, (dir + 6) % 8]) {
+    const x = tilex + DX[d];
+    const y = tiley + DY[d];
+    if (x < 0 || x >= MAPSIZE || y < 0 || y >= MAPSIZE) continue;
+    const tile = world.tilemap[tileIndex(x, y)];
+    if (tile > 0 && tile < MAXWALLTILES) return tile;
+  }
+  return 1;
+}
+
+/**
+ * Is the global point inside the pushwall while it slides? (The moving block
+ * is not in the tilemap until it comes to rest.)
+ */
+export function isPushWallAt(world: WorldState, x: number, y: number): boolean {
+  if (world.pwallstate === 0) return false;
+
+  const offset = world.pwallpos % TILEGLOBAL;
+  const left = world.pwalltile.x * TILEGLOBAL + DX[world.pwalldir] * offset;
+  const top = world.pwalltile.y * TILEGLOBAL + DY[world.pwalldir] * offset;
+  return x >= left && x < left + TILEGLOBAL && y >= top && y < top + TILEGLOBAL;
+}
+
 // ============================================================
 // Area / Visibility System
 // ============================================================
@@ -1236,6 +1331,18 @@ export function disconnectAreas(
   world.areaconnect[area2][area1] = false;
 }
 
+/**
+ * Take on the area of the tile an actor has moved onto. Door tiles belong to
+ * no area, so crossing one keeps the area it came from. When the player
+ * changes area, what they can hear is worked out again.
+ */
+export function updateAreaNumber(world: WorldState, actor: Actor): void {
+  const area = world.areamap[tileIndex(actor.tilex, actor.tiley)];
+  if (area === NO_AREA || area === actor.areanumber) return;
+  actor.areanumber = area;
+  if (actor === world.player) recalcAreas(world);
+}
+
 /**
  * Recalculate which areas the player can hear/see into.
  * Uses flood-fill from the player's area through connected areas.
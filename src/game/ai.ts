@@ -3,16 +3,14 @@
  * Ported from WL_STATE.C and WL_ACT2.C
  *
  * Implements the enemy state machine, AI think functions,
- * pathfinding, line-of-sight checks, and combat.
+ * pathfinding, line-of-sight checks, and combat. The per-enemy state tables
+ * and stats are data in enemies.json (see enemyDefs.ts).
  */
 
 import {
   MAPSIZE,
   TILEGLOBAL,
   TILESHIFT,
-  MINDIST,
-  SPDPATROL,
-  SPDDOG,
   FL_SHOOTABLE,
   FL_VISABLE,
   FL_ATTACKMODE,
@@ -24,1035 +22,38 @@ import {
   DIR_ANGLE,
   DIR_TABLE,
   ClassType,
-  EnemyType,
-  ExitType,
   DirType,
   ActiveType,
   tileIndex,
   rnd,
-  rndT,
 } from "../core/types";
 import type { Actor, StateType } from "../core/types";
 import { sintable, costable, fixedByFrac } from "../core/math";
 import type { WorldState } from "./actors";
-import { isTileWalkable, isTileSolid, killActor } from "./actors";
-
-// ============================================================
-// Forward declarations for think/action functions
-// (Needed because states reference functions defined below)
-// ============================================================
-
-// These are the actual implementations, declared as functions below.
-// We use wrapper closures in the state definitions so the functions
-// can reference each other and the states without forward-declaration issues.
-
-// ============================================================
-// Guard States
-// ============================================================
-
-export const s_guard_stand: StateType = {
-  rotate: true,
-  shapenum: 50,
-  tictime: 0, // wait forever
-  think: (ob) => T_Stand(_worldRef!, ob),
-  action: null,
-  next: null!, // self-referencing, set below
-};
-s_guard_stand.next = s_guard_stand;
-
-export const s_guard_path1: StateType = {
-  rotate: true,
-  shapenum: 50,
-  tictime: 20,
-  think: (ob) => T_Path(_worldRef!, ob),
-  action: null,
-  next: null!,
-};
-
-export const s_guard_path2: StateType = {
-  rotate: true,
-  shapenum: 54,
-  tictime: 15,
-  think: (ob) => T_Path(_worldRef!, ob),
-  action: null,
-  next: null!,
-};
-
-export const s_guard_path3: StateType = {
-  rotate: true,
-  shapenum: 50,
-  tictime: 20,
-  think: (ob) => T_Path(_worldRef!, ob),
-  action: null,
-  next: null!,
-};
-
-export const s_guard_path4: StateType = {
-  rotate: true,
-  shapenum: 58,
-  tictime: 15,
-  think: (ob) => T_Path(_worldRef!, ob),
-  action: null,
-  next: null!,
-};
-
-// Link patrol cycle
-s_guard_path1.next = s_guard_path2;
-s_guard_path2.next = s_guard_path3;
-s_guard_path3.next = s_guard_path4;
-s_guard_path4.next = s_guard_path1;
-
-export const s_guard_chase1: StateType = {
-  rotate: true,
-  shapenum: 50,
-  tictime: 10,
-  think: (ob) => T_Chase(_worldRef!, ob),
-  action: null,
-  next: null!,
-};
-
-export const s_guard_chase2: StateType = {
-  rotate: true,
-  shapenum: 54,
-  tictime: 8,
-  think: (ob) => T_Chase(_worldRef!, ob),
-  action: null,
-  next: null!,
-};
-
-export const s_guard_chase3: StateType = {
-  rotate: true,
-  shapenum: 50,
-  tictime: 10,
-  think: (ob) => T_Chase(_worldRef!, ob),
-  action: null,
-  next: null!,
-};
-
-export const s_guard_chase4: StateType = {
-  rotate: true,
-  shapenum: 58,
-  tictime: 8,
-  think: (ob) => T_Chase(_worldRef!, ob),
-  action: null,
-  next: null!,
-};
-
-// Link chase cycle
-s_guard_chase1.next = s_guard_chase2;
-s_guard_chase2.next = s_guard_chase3;
-s_guard_chase3.next = s_guard_chase4;
-s_guard_chase4.next = s_guard_chase1;
-
-export const s_guard_shoot: StateType = {
-  rotate: false,
-  shapenum: 62,
-  tictime: 20,
-  think: null,
-  action: (ob) => T_Shoot(_worldRef!, ob),
-  next: null!,
-};
-
-export const s_guard_pain: StateType = {
-  rotate: false,
-  shapenum: 66,
-  tictime: 10,
-  think: null,
-  action: null,
-  next: null!,
-};
-s_guard_pain.next = s_guard_chase1;
-s_guard_shoot.next = s_guard_chase1;
-
-export const s_guard_die1: StateType = {
-  rotate: false,
-  shapenum: 67,
-  tictime: 15,
-  think: null,
-  action: null,
-  next: null!,
-};
-
-export const s_guard_die2: StateType = {
-  rotate: false,
-  shapenum: 68,
-  tictime: 15,
-  think: null,
-  action: null,
-  next: null!,
-};
-
-export const s_guard_die3: StateType = {
-  rotate: false,
-  shapenum: 69,
-  tictime: 15,
-  think: null,
-  action: null,
-  next: null!,
-};
-
-export const s_guard_dead: StateType = {
-  rotate: false,
-  shapenum: 70,
-  tictime: 0,
-  think: null,
-  action: null,
-  next: null!,
-};
-s_guard_dead.next = s_guard_dead;
-
-// Link death chain
-s_guard_die1.next = s_guard_die2;
-s_guard_die2.next = s_guard_die3;
-s_guard_die3.next = s_guard_dead;
-
-// ============================================================
-// Officer States
-// ============================================================
-
-export const s_officer_stand: StateType = {
-  rotate: true,
-  shapenum: 150,
-  tictime: 0,
-  think: (ob) => T_Stand(_worldRef!, ob),
-  action: null,
-  next: null!,
-};
-s_officer_stand.next = s_officer_stand;
-
-export const s_officer_path1: StateType = {
-  rotate: true,
-  shapenum: 150,
-  tictime: 15,
-  think: (ob) => T_Path(_worldRef!, ob),
-  action: null,
-  next: null!,
-};
-
-export const s_officer_path2: StateType = {
-  rotate: true,
-  shapenum: 154,
-  tictime: 10,
-  think: (ob) => T_Path(_worldRef!, ob),
-  action: null,
-  next: null!,
-};
-
-export const s_officer_path3: StateType = {
-  rotate: true,
-  shapenum: 150,
-  tictime: 15,
-  think: (ob) => T_Path(_worldRef!, ob),
-  action: null,
-  next: null!,
-};
-
-export const s_officer_path4: StateType = {
-  rotate: true,
-  shapenum: 158,
-  tictime: 10,
-  think: (ob) => T_Path(_worldRef!, ob),
-  action: null,
-  next: null!,
-};
-
-s_officer_path1.next = s_officer_path2;
-s_officer_path2.next = s_officer_path3;
-s_officer_path3.next = s_officer_path4;
-s_officer_path4.next = s_officer_path1;
-
-export const s_officer_chase1: StateType = {
-  rotate: true,
-  shapenum: 150,
-  tictime: 8,
-  think: (ob) => T_Chase(_worldRef!, ob),
-  action: null,
-  next: null!,
-};
-
-export const s_officer_chase2: StateType = {
-  rotate: true,
-  shapenum: 154,
-  tictime: 6,
-  think: (ob) => T_Chase(_worldRef!, ob),
-  action: null,
-  next: null!,
-};
-
-export const s_officer_chase3: StateType = {
-  rotate: true,
-  shapenum: 150,
-  tictime: 8,
-  think: (ob) => T_Chase(_worldRef!, ob),
-  action: null,
-  next: null!,
-};
-
-export const s_officer_chase4: StateType = {
-  rotate: true,
-  shapenum: 158,
-  tictime: 6,
-  think: (ob) => T_Chase(_worldRef!, ob),
-  action: null,
-  next: null!,
-};
-
-s_officer_chase1.next = s_officer_chase2;
-s_officer_chase2.next = s_officer_chase3;
-s_officer_chase3.next = s_officer_chase4;
-s_officer_chase4.next = s_officer_chase1;
-
-export const s_officer_shoot: StateType = {
-  rotate: false,
-  shapenum: 162,
-  tictime: 18,
-  think: null,
-  action: (ob) => T_Shoot(_worldRef!, ob),
-  next: null!,
-};
-s_officer_shoot.next = s_officer_chase1;
-
-export const s_officer_pain: StateType = {
-  rotate: false,
-  shapenum: 166,
-  tictime: 10,
-  think: null,
-  action: null,
-  next: null!,
-};
-s_officer_pain.next = s_officer_chase1;
-
-export const s_officer_die1: StateType = {
-  rotate: false,
-  shapenum: 167,
-  tictime: 11,
-  think: null,
-  action: null,
-  next: null!,
-};
-
-export const s_officer_die2: StateType = {
-  rotate: false,
-  shapenum: 168,
-  tictime: 11,
-  think: null,
-  action: null,
-  next: null!,
-};
-
-export const s_officer_die3: StateType = {
-  rotate: false,
-  shapenum: 169,
-  tictime: 11,
-  think: null,
-  action: null,
-  next: null!,
-};
-
-export const s_officer_dead: StateType = {
-  rotate: false,
-  shapenum: 170,
-  tictime: 0,
-  think: null,
-  action: null,
-  next: null!,
-};
-s_officer_dead.next = s_officer_dead;
-
-s_officer_die1.next = s_officer_die2;
-s_officer_die2.next = s_officer_die3;
-s_officer_die3.next = s_officer_dead;
-
-// ============================================================
-// SS States
-// ============================================================
-
-export const s_ss_stand: StateType = {
-  rotate: true,
-  shapenum: 200,
-  tictime: 0,
-  think: (ob) => T_Stand(_worldRef!, ob),
-  action: null,
-  next: null!,
-};
-s_ss_stand.next = s_ss_stand;
-
-export const s_ss_path1: StateType = {
-  rotate: true,
-  shapenum: 200,
-  tictime: 20,
-  think: (ob) => T_Path(_worldRef!, ob),
-  action: null,
-  next: null!,
-};
-
-export const s_ss_path2: StateType = {
-  rotate: true,
-  shapenum: 204,
-  tictime: 15,
-  think: (ob) => T_Path(_worldRef!, ob),
-  action: null,
-  next: null!,
-};
-
-export const s_ss_path3: StateType = {
-  rotate: true,
-  shapenum: 200,
-  tictime: 20,
-  think: (ob) => T_Path(_worldRef!, ob),
-  action: null,
-  next: null!,
-};
-
-export const s_ss_path4: StateType = {
-  rotate: true,
-  shapenum: 208,
-  tictime: 15,
-  think: (ob) => T_Path(_worldRef!, ob),
-  action: null,
-  next: null!,
-};
-
-s_ss_path1.next = s_ss_path2;
-s_ss_path2.next = s_ss_path3;
-s_ss_path3.next = s_ss_path4;
-s_ss_path4.next = s_ss_path1;
-
-export const s_ss_chase1: StateType = {
-  rotate: true,
-  shapenum: 200,
-  tictime: 10,
-  think: (ob) => T_Chase(_worldRef!, ob),
-  action: null,
-  next: null!,
-};
-
-export const s_ss_chase2: StateType = {
-  rotate: true,
-  shapenum: 204,
-  tictime: 8,
-  think: (ob) => T_Chase(_worldRef!, ob),
-  action: null,
-  next: null!,
-};
-
-export const s_ss_chase3: StateType = {
-  rotate: true,
-  shapenum: 200,
-  tictime: 10,
-  think: (ob) => T_Chase(_worldRef!, ob),
-  action: null,
-  next: null!,
-};
-
-export const s_ss_chase4: StateType = {
-  rotate: true,
-  shapenum: 208,
-  tictime: 8,
-  think: (ob) => T_Chase(_worldRef!, ob),
-  action: null,
-  next: null!,
-};
-
-s_ss_chase1.next = s_ss_chase2;
-s_ss_chase2.next = s_ss_chase3;
-s_ss_chase3.next = s_ss_chase4;
-s_ss_chase4.next = s_ss_chase1;
-
-export const s_ss_shoot1: StateType = {
-  rotate: false,
-  shapenum: 212,
-  tictime: 10,
-  think: null,
-  action: null,
-  next: null!,
-};
-
-export const s_ss_shoot2: StateType = {
-  rotate: false,
-  shapenum: 213,
-  tictime: 10,
-  think: null,
-  action: (ob) => T_Shoot(_worldRef!, ob),
-  next: null!,
-};
-
-export const s_ss_shoot3: StateType = {
-  rotate: false,
-  shapenum: 214,
-  tictime: 10,
-  think: null,
-  action: (ob) => T_Shoot(_worldRef!, ob),
-  next: null!,
-};
-
-export const s_ss_shoot4: StateType = {
-  rotate: false,
-  shapenum: 215,
-  tictime: 10,
-  think: null,
-  action: (ob) => T_Shoot(_worldRef!, ob),
-  next: null!,
-};
-
-s_ss_shoot1.next = s_ss_shoot2;
-s_ss_shoot2.next = s_ss_shoot3;
-s_ss_shoot3.next = s_ss_shoot4;
-s_ss_shoot4.next = s_ss_chase1;
-
-export const s_ss_pain: StateType = {
-  rotate: false,
-  shapenum: 216,
-  tictime: 10,
-  think: null,
-  action: null,
-  next: null!,
-};
-s_ss_pain.next = s_ss_chase1;
-
-export const s_ss_die1: StateType = {
-  rotate: false,
-  shapenum: 217,
-  tictime: 15,
-  think: null,
-  action: null,
-  next: null!,
-};
-
-export const s_ss_die2: StateType = {
-  rotate: false,
-  shapenum: 218,
-  tictime: 15,
-  think: null,
-  action: null,
-  next: null!,
-};
-
-export const s_ss_die3: StateType = {
-  rotate: false,
-  shapenum: 219,
-  tictime: 15,
-  think: null,
-  action: null,
-  next: null!,
-};
-
-export const s_ss_dead: StateType = {
-  rotate: false,
-  shapenum: 220,
-  tictime: 0,
-  think: null,
-  action: null,
-  next: null!,
-};
-s_ss_dead.next = s_ss_dead;
-
-s_ss_die1.next = s_ss_die2;
-s_ss_die2.next = s_ss_die3;
-s_ss_die3.next = s_ss_dead;
-
-// ============================================================
-// Dog States
-// ============================================================
-
-export const s_dog_stand: StateType = {
-  rotate: true,
-  shapenum: 250,
-  tictime: 0,
-  think: (ob) => T_Stand(_worldRef!, ob),
-  action: null,
-  next: null!,
-};
-s_dog_stand.next = s_dog_stand;
-
-export const s_dog_path1: StateType = {
-  rotate: true,
-  shapenum: 250,
-  tictime: 20,
-  think: (ob) => T_DogChase(_worldRef!, ob),
-  action: null,
-  next: null!,
-};
-
-export const s_dog_path2: StateType = {
-  rotate: true,
-  shapenum: 254,
-  tictime: 15,
-  think: (ob) => T_DogChase(_worldRef!, ob),
-  action: null,
-  next: null!,
-};
-
-export const s_dog_path3: StateType = {
-  rotate: true,
-  shapenum: 250,
-  tictime: 20,
-  think: (ob) => T_DogChase(_worldRef!, ob),
-  action: null,
-  next: null!,
-};
-
-export const s_dog_path4: StateType = {
-  rotate: true,
-  shapenum: 258,
-  tictime: 15,
-  think: (ob) => T_DogChase(_worldRef!, ob),
-  action: null,
-  next: null!,
-};
-
-s_dog_path1.next = s_dog_path2;
-s_dog_path2.next = s_dog_path3;
-s_dog_path3.next = s_dog_path4;
-s_dog_path4.next = s_dog_path1;
-
-export const s_dog_chase1: StateType = {
-  rotate: true,
-  shapenum: 250,
-  tictime: 8,
-  think: (ob) => T_DogChase(_worldRef!, ob),
-  action: null,
-  next: null!,
-};
-
-export const s_dog_chase2: StateType = {
-  rotate: true,
-  shapenum: 254,
-  tictime: 8,
-  think: (ob) => T_DogChase(_worldRef!, ob),
-  action: null,
-  next: null!,
-};
-
-export const s_dog_chase3: StateType = {
-  rotate: true,
-  shapenum: 250,
-  tictime: 8,
-  think: (ob) => T_DogChase(_worldRef!, ob),
-  action: null,
-  next: null!,
-};
-
-export const s_dog_chase4: StateType = {
-  rotate: true,
-  shapenum: 258,
-  tictime: 8,
-  think: (ob) => T_DogChase(_worldRef!, ob),
-  action: null,
-  next: null!,
-};
-
-s_dog_chase1.next = s_dog_chase2;
-s_dog_chase2.next = s_dog_chase3;
-s_dog_chase3.next = s_dog_chase4;
-s_dog_chase4.next = s_dog_chase1;
-
-export const s_dog_bite1: StateType = {
-  rotate: false,
-  shapenum: 262,
-  tictime: 10,
-  think: null,
-  action: null,
-  next: null!,
-};
-
-export const s_dog_bite2: StateType = {
-  rotate: false,
-  shapenum: 263,
-  tictime: 10,
-  think: null,
-  action: (ob) => T_Bite(_worldRef!, ob),
-  next: null!,
-};
-
-export const s_dog_bite3: StateType = {
-  rotate: false,
-  shapenum: 264,
-  tictime: 10,
-  think: null,
-  action: null,
-  next: null!,
-};
-
-s_dog_bite1.next = s_dog_bite2;
-s_dog_bite2.next = s_dog_bite3;
-s_dog_bite3.next = s_dog_chase1;
-
-export const s_dog_die1: StateType = {
-  rotate: false,
-  shapenum: 265,
-  tictime: 15,
-  think: null,
-  action: null,
-  next: null!,
-};
-
-export const s_dog_die2: StateType = {
-  rotate: false,
-  shapenum: 266,
-  tictime: 15,
-  think: null,
-  action: null,
-  next: null!,
-};
-
-export const s_dog_die3: StateType = {
-  rotate: false,
-  shapenum: 267,
-  tictime: 15,
-  think: null,
-  action: null,
-  next: null!,
-};
-
-export const s_dog_dead: StateType = {
-  rotate: false,
-  shapenum: 268,
-  tictime: 0,
-  think: null,
-  action: null,
-  next: null!,
-};
-s_dog_dead.next = s_dog_dead;
-
-s_dog_die1.next = s_dog_die2;
-s_dog_die2.next = s_dog_die3;
-s_dog_die3.next = s_dog_dead;
-
-// ============================================================
-// Mutant States
-// ============================================================
-
-export const s_mutant_stand: StateType = {
-  rotate: true,
-  shapenum: 300,
-  tictime: 0,
-  think: (ob) => T_Stand(_worldRef!, ob),
-  action: null,
-  next: null!,
-};
-s_mutant_stand.next = s_mutant_stand;
-
-export const s_mutant_path1: StateType = {
-  rotate: true,
-  shapenum: 300,
-  tictime: 20,
-  think: (ob) => T_Path(_worldRef!, ob),
-  action: null,
-  next: null!,
-};
-
-export const s_mutant_path2: StateType = {
-  rotate: true,
-  shapenum: 304,
-  tictime: 15,
-  think: (ob) => T_Path(_worldRef!, ob),
-  action: null,
-  next: null!,
-};
-
-export const s_mutant_path3: StateType = {
-  rotate: true,
-  shapenum: 300,
-  tictime: 20,
-  think: (ob) => T_Path(_worldRef!, ob),
-  action: null,
-  next: null!,
-};
-
-export const s_mutant_path4: StateType = {
-  rotate: true,
-  shapenum: 308,
-  tictime: 15,
-  think: (ob) => T_Path(_worldRef!, ob),
-  action: null,
-  next: null!,
-};
-
-s_mutant_path1.next = s_mutant_path2;
-s_mutant_path2.next = s_mutant_path3;
-s_mutant_path3.next = s_mutant_path4;
-s_mutant_path4.next = s_mutant_path1;
-
-export const s_mutant_chase1: StateType = {
-  rotate: true,
-  shapenum: 300,
-  tictime: 10,
-  think: (ob) => T_Chase(_worldRef!, ob),
-  action: null,
-  next: null!,
-};
-
-export const s_mutant_chase2: StateType = {
-  rotate: true,
-  shapenum: 304,
-  tictime: 8,
-  think: (ob) => T_Chase(_worldRef!, ob),
-  action: null,
-  next: null!,
-};
-
-export const s_mutant_chase3: StateType = {
-  rotate: true,
-  shapenum: 300,
-  tictime: 10,
-  think: (ob) => T_Chase(_worldRef!, ob),
-  action: null,
-  next: null!,
-};
-
-export const s_mutant_chase4: StateType = {
-  rotate: true,
-  shapenum: 308,
-  tictime: 8,
-  think: (ob) => T_Chase(_worldRef!, ob),
-  action: null,
-  next: null!,
-};
-
-s_mutant_chase1.next = s_mutant_chase2;
-s_mutant_chase2.next = s_mutant_chase3;
-s_mutant_chase3.next = s_mutant_chase4;
-s_mutant_chase4.next = s_mutant_chase1;
-
-export const s_mutant_shoot1: StateType = {
-  rotate: false,
-  shapenum: 312,
-  tictime: 6,
-  think: null,
-  action: (ob) => T_Shoot(_worldRef!, ob),
-  next: null!,
-};
-
-export const s_mutant_shoot2: StateType = {
-  rotate: false,
-  shapenum: 313,
-  tictime: 20,
-  think: null,
-  action: null,
-  next: null!,
-};
-
-export const s_mutant_shoot3: StateType = {
-  rotate: false,
-  shapenum: 314,
-  tictime: 10,
-  think: null,
-  action: (ob) => T_Shoot(_worldRef!, ob),
-  next: null!,
-};
-
-export const s_mutant_shoot4: StateType = {
-  rotate: false,
-  shapenum: 315,
-  tictime: 20,
-  think: null,
-  action: null,
-  next: null!,
-};
-
-s_mutant_shoot1.next = s_mutant_shoot2;
-s_mutant_shoot2.next = s_mutant_shoot3;
-s_mutant_shoot3.next = s_mutant_shoot4;
-s_mutant_shoot4.next = s_mutant_chase1;
-
-export const s_mutant_pain: StateType = {
-  rotate: false,
-  shapenum: 316,
-  tictime: 10,
-  think: null,
-  action: null,
-  next: null!,
-};
-s_mutant_pain.next = s_mutant_chase1;
-
-export const s_mutant_die1: StateType = {
-  rotate: false,
-  shapenum: 317,
-  tictime: 7,
-  think: null,
-  action: null,
-  next: null!,
-};
-
-export const s_mutant_die2: StateType = {
-  rotate: false,
-  shapenum: 318,
-  tictime: 7,
-  think: null,
-  action: null,
-  next: null!,
-};
-
-export const s_mutant_die3: StateType = {
-  rotate: false,
-  shapenum: 319,
-  tictime: 7,
-  think: null,
-  action: null,
-  next: null!,
-};
-
-export const s_mutant_die4: StateType = {
-  rotate: false,
-  shapenum: 320,
-  tictime: 7,
-  think: null,
-  action: null,
-  next: null!,
-};
-
-export const s_mutant_dead: StateType = {
-  rotate: false,
-  shapenum: 321,
-  tictime: 0,
-  think: null,
-  action: null,
-  next: null!,
-};
-s_mutant_dead.next = s_mutant_dead;
-
-s_mutant_die1.next = s_mutant_die2;
-s_mutant_die2.next = s_mutant_die3;
-s_mutant_die3.next = s_mutant_die4;
-s_mutant_die4.next = s_mutant_dead;
-
-// ============================================================
-// Boss States (Hans Grosse)
-// ============================================================
-
-export const s_boss_stand: StateType = {
-  rotate: true,
-  shapenum: 400,
-  tictime: 0,
-  think: (ob) => T_Stand(_worldRef!, ob),
-  action: null,
-  next: null!,
-};
-s_boss_stand.next = s_boss_stand;
-
-export const s_boss_chase1: StateType = {
-  rotate: true,
-  shapenum: 400,
-  tictime: 10,
-  think: (ob) => T_Chase(_worldRef!, ob),
-  action: null,
-  next: null!,
-};
-
-export const s_boss_chase2: StateType = {
-  rotate: true,
-  shapenum: 404,
-  tictime: 8,
-  think: (ob) => T_Chase(_worldRef!, ob),
-  action: null,
-  next: null!,
-};
-
-export const s_boss_chase3: StateType = {
-  rotate: true,
-  shapenum: 400,
-  tictime: 10,
-  think: (ob) => T_Chase(_worldRef!, ob),
-  action: null,
-  next: null!,
-};
-
-export const s_boss_chase4: StateType = {
-  rotate: true,
-  shapenum: 408,
-  tictime: 8,
-  think: (ob) => T_Chase(_worldRef!, ob),
-  action: null,
-  next: null!,
-};
-
-s_boss_chase1.next = s_boss_chase2;
-s_boss_chase2.next = s_boss_chase3;
-s_boss_chase3.next = s_boss_chase4;
-s_boss_chase4.next = s_boss_chase1;
-
-export const s_boss_shoot1: StateType = {
-  rotate: false,
-  shapenum: 412,
-  tictime: 30,
-  think: null,
-  action: null,
-  next: null!,
-};
-
-export const s_boss_shoot2: StateType = {
-  rotate: false,
-  shapenum: 413,
-  tictime: 10,
-  think: null,
-  action: (ob) => T_Shoot(_worldRef!, ob),
-  next: null!,
-};
-
-export const s_boss_shoot3: StateType = {
-  rotate: false,
-  shapenum: 414,
-  tictime: 10,
-  think: null,
-  action: (ob) => T_Shoot(_worldRef!, ob),
-  next: null!,
-};
-
-export const s_boss_shoot4: StateType = {
-  rotate: false,
-  shapenum: 415,
-  tictime: 10,
-  think: null,
-  action: (ob) => T_Shoot(_worldRef!, ob),
-  next: null!,
-};
-
-s_boss_shoot1.next = s_boss_shoot2;
-s_boss_shoot2.next = s_boss_shoot3;
-s_boss_shoot3.next = s_boss_shoot4;
-s_boss_shoot4.next = s_boss_chase1;
-
-export const s_boss_die1: StateType = {
-  rotate: false,
-  shapenum: 416,
-  tictime: 15,
-  think: null,
-  action: null,
-  next: null!,
-};
-
-export const s_boss_die2: StateType = {
-  rotate: false,
-  shapenum: 417,
-  tictime: 15,
-  think: null,
-  action: null,
-  next: null!,
-};
-
-export const s_boss_die3: StateType = {
-  rotate: false,
-  shapenum: 418,
-  tictime: 15,
-  think: null,
-  action: null,
-  next: null!,
-};
-
-export const s_boss_dead: StateType = {
-  rotate: false,
-  shapenum: 419,
-  tictime: 0,
-  think: null,
-  action: null,
-  next: null!,
-};
-s_boss_dead.next = s_boss_dead;
-
-s_boss_die1.next = s_boss_die2;
-s_boss_die2.next = s_boss_die3;
-s_boss_die3.next = s_boss_dead;
+import {
+  isTileWalkable,
+  isTileSolid,
+  killActor,
+  spawnActor,
+  updateAreaNumber,
+} from "./actors";
+import { validateStates, getStateByName } from "./stateRegistry";
+import type { StateIssue } from "./stateRegistry";
+import {
+  loadEnemyDefs,
+  getEnemyDef,
+  getAllEnemyDefs,
+  rollDice,
+} from "./enemyDefs";
+import type { AiFunctionTable } from "./enemyDefs";
+import { givePoints, takeDamage } from "./player";
+import { SoundType, playActorSound } from "./sound";
+import enemyData from "./enemies.json";
+import {
+  spawnProjectile,
+  getProjectileEntryStates,
+  T_Projectile,
+} from "./projectiles";
 
 // ============================================================
 // World Reference (set by updateActor for think/action closures)
@@ -1062,11 +63,46 @@ s_boss_die3.next = s_boss_dead;
  * Module-level reference to the current world state.
  * This is set at the start of each updateActor call so that the
  * state machine think/action closures can access the world without
- * storing it in each state definition. This avoids circular reference
- * issues in the state constant definitions.
+ * storing it in each state definition, which are built from
+ * enemies.json before any world exists.
  */
 let _worldRef: WorldState | null = null;
 
+/**
+ * The world being updated, for think/action closures defined in other
+ * modules (see projectiles.ts).
+ */
+export function getActiveWorld(): WorldState {
+  return _worldRef!;
+}
+
+// ============================================================
+// Enemy Definitions (enemies.json)
+// ============================================================
+
+/**
+ * Think/action functions enemies.json may name. Each wraps the real function
+ * with the world reference set by updateActor.
+ */
+const AI_FUNCTIONS: AiFunctionTable = {
+  T_Stand: (ob) => T_Stand(_worldRef!, ob),
+  T_Path: (ob) => T_Path(_worldRef!, ob),
+  T_Chase: (ob) => T_Chase(_worldRef!, ob),
+  T_Shoot: (ob) => T_Shoot(_worldRef!, ob),
+  T_Bite: (ob) => T_Bite(_worldRef!, ob),
+  T_DogChase: (ob) => T_DogChase(_worldRef!, ob),
+  T_Projectile: (ob) => T_Projectile(_worldRef!, ob),
+  T_Launch: (ob) => T_Launch(_worldRef!, ob),
+  T_UShoot: (ob) => T_UShoot(_worldRef!, ob),
+  T_SpectreChase: (ob) => T_SpectreChase(_worldRef!, ob),
+  T_SpectreRespawn: (ob) => T_SpectreRespawn(_worldRef!, ob),
+  A_HitlerMorph: (ob) => A_HitlerMorph(_worldRef!, ob),
+  A_Relaunch: (ob) => A_Relaunch(_worldRef!, ob),
+  T_Ghosts: (ob) => T_Ghosts(_worldRef!, ob),
+};
+
+loadEnemyDefs(enemyData, AI_FUNCTIONS);
+
 // ============================================================
 // Lookup Tables
 // ============================================================
@@ -1101,148 +137,55 @@ const CARD_DIRS: DirType[] = [
 ];
 
 // ============================================================
-// State lookup by enemy type
+// State lookup by enemy class
 // ============================================================
 
-interface EnemyStateSet {
-  stand: StateType;
-  path: StateType;
-  chase: StateType;
-  shoot: StateType;
-  pain: StateType;
-  die: StateType;
-}
+/** Where A_Relaunch sends the Angel of Death after three volleys. */
+const ANGEL_TIRED_STATE = "s_angel_tired1";
 
-const ENEMY_STATES: Record<number, EnemyStateSet> = {
-  [EnemyType.Guard]: {
-    stand: s_guard_stand,
-    path: s_guard_path1,
-    chase: s_guard_chase1,
-    shoot: s_guard_shoot,
-    pain: s_guard_pain,
-    die: s_guard_die1,
-  },
-  [EnemyType.Officer]: {
-    stand: s_officer_stand,
-    path: s_officer_path1,
-    chase: s_officer_chase1,
-    shoot: s_officer_shoot,
-    pain: s_officer_pain,
-    die: s_officer_die1,
-  },
-  [EnemyType.SS]: {
-    stand: s_ss_stand,
-    path: s_ss_path1,
-    chase: s_ss_chase1,
-    shoot: s_ss_shoot1,
-    pain: s_ss_pain,
-    die: s_ss_die1,
-  },
-  [EnemyType.Dog]: {
-    stand: s_dog_stand,
-    path: s_dog_path1,
-    chase: s_dog_chase1,
-    shoot: s_dog_bite1, // dogs "shoot" with bites
-    pain: s_dog_die1, // dogs have no pain state, go straight to death
-    die: s_dog_die1,
-  },
-  [EnemyType.Mutant]: {
-    stand: s_mutant_stand,
-    path: s_mutant_path1,
-    chase: s_mutant_chase1,
-    shoot: s_mutant_shoot1,
-    pain: s_mutant_pain,
-    die: s_mutant_die1,
-  },
-  [EnemyType.Boss]: {
-    stand: s_boss_stand,
-    path: s_boss_chase1, // bosses don't patrol
-    chase: s_boss_chase1,
-    shoot: s_boss_shoot1,
-    pain: s_boss_chase1, // bosses don't show pain
-    die: s_boss_die1,
-  },
-};
+/** Chase loop of each Pac-Man ghost, in spawn code order. */
+const GHOST_STATES = [
+  "s_blinky_chase1",
+  "s_clyde_chase1",
+  "s_pinky_chase1",
+  "s_inky_chase1",
+];
 
-// Map ClassType to EnemyType for state lookups
-function classToEnemy(obclass: ClassType): EnemyType {
-  switch (obclass) {
-    case ClassType.Guard:
-      return EnemyType.Guard;
-    case ClassType.Officer:
-      return EnemyType.Officer;
-    case ClassType.SS:
-      return EnemyType.SS;
-    case ClassType.Dog:
-      return EnemyType.Dog;
-    case ClassType.Mutant:
-      return EnemyType.Mutant;
-    case ClassType.Boss:
-    case ClassType.Schabbs:
-    case ClassType.Fake:
-    case ClassType.MechaHitler:
-    case ClassType.RealHitler:
-    case ClassType.Gretel:
-    case ClassType.Gift:
-    case ClassType.Fat:
-    case ClassType.Angel:
-    case ClassType.Trans:
-    case ClassType.Uber:
-    case ClassType.Will:
-    case ClassType.Death:
-      return EnemyType.Boss;
-    default:
-      return EnemyType.Guard;
+/**
+ * Validate the enemy state graph, using every state the code can jump to
+ * directly as an entry point. Returns an empty list when all is well.
+ */
+export function validateAiStates(): StateIssue[] {
+  const entries: StateType[] = getProjectileEntryStates();
+  for (const name of [ANGEL_TIRED_STATE, ...GHOST_STATES]) {
+    const state = getStateByName(name);
+    if (state) entries.push(state);
+  }
+  for (const def of getAllEnemyDefs()) {
+    entries.push(...Object.values(def.entry));
   }
+  return validateStates(entries);
 }
 
 /**
- * Get the initial state for an enemy type.
+ * Get the initial state for an enemy class.
  * Called by actors.ts when spawning enemies.
  */
 export function getInitialState(
-  enemyType: EnemyType,
+  obclass: ClassType,
   patrolling: boolean,
 ): StateType {
-  const states = ENEMY_STATES[enemyType];
-  if (!states) return s_guard_stand;
-  return patrolling ? states.path : states.stand;
-}
-
-/**
- * Get the death state for an actor's class.
- */
-function getDeathState(obclass: ClassType): StateType {
-  const enemyType = classToEnemy(obclass);
-  const states = ENEMY_STATES[enemyType];
-  return states ? states.die : s_guard_die1;
-}
-
-/**
- * Get the pain state for an actor's class.
- */
-function getPainState(obclass: ClassType): StateType {
-  const enemyType = classToEnemy(obclass);
-  const states = ENEMY_STATES[enemyType];
-  return states ? states.pain : s_guard_pain;
-}
-
-/**
- * Get the chase state for an actor's class.
- */
-function getChaseState(obclass: ClassType): StateType {
-  const enemyType = classToEnemy(obclass);
-  const states = ENEMY_STATES[enemyType];
-  return states ? states.chase : s_guard_chase1;
+  const entry = getEnemyDef(obclass).entry;
+  return patrolling ? entry.path : entry.stand;
 }
 
 /**
- * Get the shoot state for an actor's class.
+ * Chase state for a Pac-Man ghost: 0 Blinky, 1 Clyde, 2 Pinky, 3 Inky.
  */
-function getShootState(obclass: ClassType): StateType {
-  const enemyType = classToEnemy(obclass);
-  const states = ENEMY_STATES[enemyType];
-  return states ? states.shoot : s_guard_shoot;
+export function getGhostState(which: number): StateType {
+  const state = getStateByName(GHOST_STATES[which]);
+  if (!state) throw new Error(`No chase state for ghost ${which}`);
+  return state;
 }
 
 // ============================================================
@@ -1284,14 +227,16 @@ export function updateActor(
         break;
       }
 
-      // Call action on entering new state
+      actor.state = nextState;
+      actor.ticcount += nextState.tictime;
+
+      // Call action on entering new state. An action may redirect the
+      // actor (the Angel of Death tiring); if so it has set its own ticcount.
       if (nextState.action) {
         nextState.action(actor);
+        if (actor.state !== nextState) break;
       }
 
-      actor.state = nextState;
-      actor.ticcount += nextState.tictime;
-
       // If tictime is 0, this is a wait-forever state (like stand)
       // Break out so think function gets called
       if (nextState.tictime === 0) {
@@ -1318,19 +263,7 @@ export function updateActor(
  * Checks line of sight each tic. If the player is spotted, switches to chase.
  */
 export function T_Stand(world: WorldState, actor: Actor): void {
-  if (checkSight(world, actor)) {
-    firstSighting(world, actor);
-    return;
-  }
-
-  // Ambush enemies don't move until they see the player
-  if (actor.flags & FL_AMBUSH) return;
-
-  // Check if player has made noise and is in a connected area
-  if (world.madenoise && world.areabyplayer[actor.areanumber]) {
-    firstSighting(world, actor);
-    return;
-  }
+  sightPlayer(world, actor);
 }
 
 /**
@@ -1340,15 +273,7 @@ export function T_Stand(world: WorldState, actor: Actor): void {
  */
 export function T_Path(world: WorldState, actor: Actor): void {
   // Check for player
-  if (checkSight(world, actor)) {
-    firstSighting(world, actor);
-    return;
-  }
-
-  if (world.madenoise && world.areabyplayer[actor.areanumber]) {
-    firstSighting(world, actor);
-    return;
-  }
+  if (sightPlayer(world, actor)) return;
 
   if (actor.dir === DirType.NoDir) {
     selectPathDir(world, actor);
@@ -1375,7 +300,7 @@ export function T_Chase(world: WorldState, actor: Actor): void {
   if (dx <= 1 && dy <= 1) {
     // Adjacent to player -- always try to shoot
     if (checkSight(world, actor)) {
-      const shootState = getShootState(actor.obclass);
+      const shootState = getEnemyDef(actor.obclass).entry.shoot;
       actor.state = shootState;
       actor.ticcount = shootState.tictime;
       if (shootState.action) shootState.action(actor);
@@ -1390,7 +315,7 @@ export function T_Chase(world: WorldState, actor: Actor): void {
     // Closer = more likely to shoot
     const shootChance = 256 / dist;
     if (rnd(256) < shootChance && checkSight(world, actor)) {
-      const shootState = getShootState(actor.obclass);
+      const shootState = getEnemyDef(actor.obclass).entry.shoot;
       actor.state = shootState;
       actor.ticcount = shootState.tictime;
       if (shootState.action) shootState.action(actor);
@@ -1423,6 +348,9 @@ export function T_Shoot(world: WorldState, actor: Actor): void {
     return;
   }
 
+  const def = getEnemyDef(actor.obclass);
+  playActorSound(world, SoundType.EnemyFire, actor, def.name);
+
   // Calculate hit chance based on distance
   // Close: ~93% hit chance, Far (>8 tiles): ~20%
   let hitchance: number;
@@ -1440,43 +368,16 @@ export function T_Shoot(world: WorldState, actor: Actor): void {
     hitchance = 50; // ~20%
   }
 
-  // Officers and SS are more accurate
-  if (actor.obclass === ClassType.Officer || actor.obclass === ClassType.SS) {
-    hitchance = Math.min(hitchance + 30, 250);
-  }
-
-  // Boss enemies have high accuracy
-  if (actor.obclass === ClassType.Boss) {
-    hitchance = Math.min(hitchance + 50, 250);
-  }
+  // Better-trained enemies (officers, SS, bosses) are more accurate
+  hitchance = Math.min(hitchance + def.accuracy, 250);
 
   // Roll to hit
   if (rnd(256) >= hitchance) {
     return; // Miss
   }
 
-  // Calculate damage based on enemy type and distance
-  let damage: number;
-  switch (actor.obclass) {
-    case ClassType.Guard:
-      damage = rndT(8);
-      break;
-    case ClassType.Officer:
-      damage = rndT(12);
-      break;
-    case ClassType.SS:
-      damage = rndT(15);
-      break;
-    case ClassType.Mutant:
-      damage = rndT(10);
-      break;
-    case ClassType.Boss:
-      damage = rndT(20);
-      break;
-    default:
-      damage = rndT(8);
-      break;
-  }
+  // Roll the enemy's damage dice
+  let damage = rollDice(def.damage);
 
   // Distance reduces damage slightly
   if (dist > 2) {
@@ -1484,11 +385,7 @@ export function T_Shoot(world: WorldState, actor: Actor): void {
   }
 
   // Apply damage to player
-  world.gamestate.health -= damage;
-  if (world.gamestate.health <= 0) {
-    world.gamestate.health = 0;
-    world.playstate = ExitType.Died;
-  }
+  takeDamage(world, damage, actor);
 }
 
 /**
@@ -1496,6 +393,14 @@ export function T_Shoot(world: WorldState, actor: Actor): void {
  * Must be adjacent to the player to deal damage.
  */
 export function T_Bite(world: WorldState, actor: Actor): void {
+  // The snap is heard whether or not it connects
+  playActorSound(
+    world,
+    SoundType.EnemyBite,
+    actor,
+    getEnemyDef(actor.obclass).name,
+  );
+
   const dx = Math.abs(actor.tilex - world.player.tilex);
   const dy = Math.abs(actor.tiley - world.player.tiley);
 
@@ -1514,14 +419,9 @@ export function T_Bite(world: WorldState, actor: Actor): void {
   }
 
   // Random chance to hit (dogs are less reliable than guns)
-  if (rnd(256) < 180) {
-    // Hit - deal 1-8 damage
-    const damage = rndT(8);
-    world.gamestate.health -= damage;
-    if (world.gamestate.health <= 0) {
-      world.gamestate.health = 0;
-      world.playstate = ExitType.Died;
-    }
+  const def = getEnemyDef(actor.obclass);
+  if (rnd(256) < 180 + def.accuracy) {
+    takeDamage(world, rollDice(def.damage), actor);
   }
 }
 
@@ -1536,9 +436,10 @@ export function T_DogChase(world: WorldState, actor: Actor): void {
 
   if (dx <= 1 && dy <= 1) {
     // Try to bite
-    actor.state = s_dog_bite1;
-    actor.ticcount = s_dog_bite1.tictime;
-    if (s_dog_bite1.action) s_dog_bite1.action(actor);
+    const biteState = getEnemyDef(actor.obclass).entry.shoot;
+    actor.state = biteState;
+    actor.ticcount = biteState.tictime;
+    if (biteState.action) biteState.action(actor);
     return;
   }
 
@@ -1550,65 +451,235 @@ export function T_DogChase(world: WorldState, actor: Actor): void {
   }
 }
 
+// ============================================================
+// Boss Attacks (from WL_ACT2.C)
+// ============================================================
+
 /**
- * T_Projectile: Move a projectile (needle, fireball, rocket).
- * Projectiles move in a straight line and check for collisions.
+ * T_Launch: fire the enemy's projectile (enemies.json "projectile") — Dr.
+ * Schabbs' syringes, Giftmacher's rockets, Fake Hitler's fireballs, the Angel
+ * of Death's sparks...
  */
-export function T_Projectile(world: WorldState, actor: Actor): void {
-  // Move projectile
-  const speed = actor.speed;
-  const dirAngle = DIR_ANGLE[actor.dir] % 360;
+export function T_Launch(world: WorldState, actor: Actor): void {
+  const projectile = getEnemyDef(actor.obclass).projectile;
+  if (projectile !== null) spawnProjectile(world, actor, projectile);
+}
 
-  // Ensure tables are available
-  if (costable.length === 0 || sintable.length === 0) return;
+/**
+ * A_HitlerMorph: Mecha Hitler's suit is destroyed and Hitler himself climbs
+ * out, already chasing the player.
+ */
+export function A_HitlerMorph(world: WorldState, actor: Actor): void {
+  const def = getEnemyDef(ClassType.RealHitler);
+  const hitler = spawnActor(
+    world,
+    ClassType.RealHitler,
+    actor.tilex,
+    actor.tiley,
+    actor.dir,
+  );
+  if (!hitler) return;
+
+  hitler.x = actor.x;
+  hitler.y = actor.y;
+  hitler.areanumber = actor.areanumber;
+  hitler.hitpoints = def.hitpoints[world.gamestate.difficulty];
+  hitler.flags |= FL_ATTACKMODE;
+  hitler.active = ActiveType.Yes;
+  hitler.speed = def.speed.chase;
+  hitler.state = def.entry.chase;
+  hitler.ticcount = def.entry.chase.tictime;
+  world.gamestate.killtotal++;
+}
 
-  const xmove = fixedByFrac(speed, costable[dirAngle % costable.length]);
-  const ymove = -fixedByFrac(speed, sintable[dirAngle % sintable.length]);
+/**
+ * A_Relaunch: the Angel of Death fires volley after volley; after the third
+ * it has to stop and catch its breath, which is the moment to hit it.
+ */
+export function A_Relaunch(world: WorldState, actor: Actor): void {
+  if (++actor.temp1 === 3) {
+    actor.temp1 = 0;
+    const tired = getStateByName(ANGEL_TIRED_STATE);
+    if (tired) {
+      actor.state = tired;
+      actor.ticcount = tired.tictime;
+    }
+    return;
+  }
 
-  actor.x += xmove;
-  actor.y += ymove;
+  // Otherwise usually fire again straight away
+  if (rnd(256) & 1) {
+    const shoot = getEnemyDef(actor.obclass).entry.shoot;
+    actor.state = shoot;
+    actor.ticcount = shoot.tictime;
+    if (shoot.action) shoot.action(actor);
+  }
+}
 
-  // Update tile position
+// ============================================================
+// Spear of Destiny Enemies (from WL_ACT2.C)
+// ============================================================
+
+/**
+ * T_UShoot: the Ubermutant's chaingun, plus a claw swipe when the player is
+ * close enough.
+ */
+export function T_UShoot(world: WorldState, actor: Actor): void {
+  T_Shoot(world, actor);
+
+  const dx = Math.abs(actor.tilex - world.player.tilex);
+  const dy = Math.abs(actor.tiley - world.player.tiley);
+  if (dx <= 1 && dy <= 1) takeDamage(world, 10, actor);
+}
+
+/**
+ * T_SpectreChase: spectres drift straight at the player through walls,
+ * doors and other actors, and strike once they are close.
+ */
+export function T_SpectreChase(world: WorldState, actor: Actor): void {
+  const player = world.player;
+  const dx = player.x - actor.x;
+  const dy = player.y - actor.y;
+
+  if (Math.abs(dx) < TILEGLOBAL && Math.abs(dy) < TILEGLOBAL) {
+    const strike = getEnemyDef(actor.obclass).entry.shoot;
+    actor.state = strike;
+    actor.ticcount = strike.tictime;
+    if (strike.action) strike.action(actor);
+    return;
+  }
+
+  const dist = Math.sqrt(dx * dx + dy * dy);
+  const move = Math.min(actor.speed, dist);
+  actor.x = Math.round(actor.x + (dx * move) / dist);
+  actor.y = Math.round(actor.y + (dy * move) / dist);
   actor.tilex = actor.x >> TILESHIFT;
   actor.tiley = actor.y >> TILESHIFT;
+  updateAreaNumber(world, actor);
+}
 
-  // Check for wall collision
-  const idx = tileIndex(actor.tilex, actor.tiley);
+/**
+ * T_SpectreRespawn: a destroyed spectre re-forms where it fell, unless the
+ * player is standing on top of it.
+ */
+export function T_SpectreRespawn(world: WorldState, actor: Actor): void {
+  const dx = Math.abs(actor.tilex - world.player.tilex);
+  const dy = Math.abs(actor.tiley - world.player.tiley);
+  if (dx <= 1 && dy <= 1) return;
+
+  const def = getEnemyDef(actor.obclass);
+  actor.hitpoints = def.hitpoints[world.gamestate.difficulty];
+  actor.flags |= FL_SHOOTABLE | FL_ATTACKMODE;
+  actor.speed = def.speed.chase;
+  actor.state = def.entry.chase;
+  actor.ticcount = def.entry.chase.tictime;
+}
+
+// ============================================================
+// Pac-Man Ghosts (from WL_ACT2.C)
+// ============================================================
+
+/**
+ * T_Ghosts: a ghost runs the maze tile by tile toward the player. Ghosts
+ * can't be shot and don't block anything; touching one hurts.
+ */
+export function T_Ghosts(world: WorldState, actor: Actor): void {
+  let move = actor.speed;
+
+  while (move > 0) {
+    if (actor.distance <= 0) {
+      // Reached a tile center: pick the next tile
+      actor.x = (actor.tilex << TILESHIFT) + (TILEGLOBAL >> 1);
+      actor.y = (actor.tiley << TILESHIFT) + (TILEGLOBAL >> 1);
+      selectGhostDir(world, actor);
+      if (actor.dir === DirType.NoDir) return;
+      actor.tilex += DX[actor.dir];
+      actor.tiley += DY[actor.dir];
+      actor.distance = TILEGLOBAL;
+    }
+
+    const step = Math.min(move, actor.distance);
+    actor.x += DX[actor.dir] * step;
+    actor.y += DY[actor.dir] * step;
+    actor.distance -= step;
+    move -= step;
+  }
+
+  // Contact damage
+  const player = world.player;
   if (
-    actor.tilex < 0 ||
-    actor.tilex >= MAPSIZE ||
-    actor.tiley < 0 ||
-    actor.tiley >= MAPSIZE
+    Math.abs(actor.x - player.x) < TILEGLOBAL &&
+    Math.abs(actor.y - player.y) < TILEGLOBAL
   ) {
-    // Out of bounds
-    actor.obclass = ClassType.Nothing;
-    actor.state = null;
-    return;
+    takeDamage(world, 2, actor);
   }
+}
 
-  if (world.tilemap[idx] > 0 && world.tilemap[idx] < 128) {
-    // Hit a wall - remove projectile
-    actor.obclass = ClassType.Nothing;
-    actor.state = null;
-    return;
+/**
+ * Pick a ghost's next tile: the open neighbour with the shortest path to the
+ * player through the maze, never reversing unless it is a dead end.
+ */
+function selectGhostDir(world: WorldState, actor: Actor): void {
+  const dist = mazeDistances(world, world.player.tilex, world.player.tiley);
+  const back = OPPOSITE[actor.dir];
+
+  let best = DirType.NoDir;
+  let bestDist = Infinity;
+  for (const dir of CARD_DIRS) {
+    if (dir === back || !isGhostOpen(world, actor, dir)) continue;
+    const d = dist[tileIndex(actor.tilex + DX[dir], actor.tiley + DY[dir])];
+    // Unreachable tiles (-1) still beat standing still
+    const score = d < 0 ? MAPSIZE * MAPSIZE : d;
+    if (score < bestDist) {
+      bestDist = score;
+      best = dir;
+    }
   }
+  if (best === DirType.NoDir && isGhostOpen(world, actor, back)) best = back;
+  actor.dir = best;
+}
+
+// Distance field and search queue for mazeDistances, reused on every call
+const _mazeDist = new Int16Array(MAPSIZE * MAPSIZE);
+const _mazeQueue = new Uint16Array(MAPSIZE * MAPSIZE);
 
-  // Check for player collision
-  const pdx = Math.abs(actor.x - world.player.x);
-  const pdy = Math.abs(actor.y - world.player.y);
-
-  if (pdx < MINDIST && pdy < MINDIST) {
-    // Hit the player
-    const damage = rndT(15);
-    world.gamestate.health -= damage;
-    if (world.gamestate.health <= 0) {
-      world.gamestate.health = 0;
-      world.playstate = ExitType.Died;
+/**
+ * Breadth-first walking distance, in tiles, from the given tile to every
+ * tile that isn't solid (-1 where there is no way through). The array is
+ * shared and overwritten by the next call.
+ */
+function mazeDistances(
+  world: WorldState,
+  fromx: number,
+  fromy: number,
+): Int16Array {
+  const dist = _mazeDist.fill(-1);
+  const queue = _mazeQueue;
+  let tail = 0;
+  queue[tail++] = tileIndex(fromx, fromy);
+  dist[queue[0]] = 0;
+
+  for (let head = 0; head < tail; head++) {
+    const idx = queue[head];
+    const x = idx % MAPSIZE;
+    const y = Math.floor(idx / MAPSIZE);
+    for (const dir of CARD_DIRS) {
+      const nx = x + DX[dir];
+      const ny = y + DY[dir];
+      if (isTileSolid(world, nx, ny)) continue;
+      const next = tileIndex(nx, ny);
+      if (dist[next] >= 0) continue;
+      dist[next] = dist[idx] + 1;
+      queue[tail++] = next;
     }
-    // Remove projectile
-    actor.obclass = ClassType.Nothing;
-    actor.state = null;
   }
+  return dist;
+}
+
+/** Ghosts pass through each other and other actors, but not walls or doors. */
+function isGhostOpen(world: WorldState, actor: Actor, dir: DirType): boolean {
+  if (dir === DirType.NoDir) return false;
+  return !isTileSolid(world, actor.tilex + DX[dir], actor.tiley + DY[dir]);
 }
 
 // ============================================================
@@ -1937,6 +1008,7 @@ function tryMove(world: WorldState, actor: Actor): boolean {
 
     actor.tilex = newtilex;
     actor.tiley = newtiley;
+    updateAreaNumber(world, actor);
   }
 
   actor.x = newx;
@@ -1949,6 +1021,36 @@ function tryMove(world: WorldState, actor: Actor): boolean {
 // Line of Sight (from WL_STATE.C)
 // ============================================================
 
+/** Reaction time multiplier per difficulty: slower on the easy skills. */
+const REACTION_SCALE = [2, 1.5, 1, 0.5];
+
+/**
+ * SightPlayer: notice the player by sight (or, unless ambushing, by noise)
+ * and, after the enemy's reaction time, go after them. The delay counts down
+ * one tic per call. Returns true once the actor has switched to chasing.
+ */
+export function sightPlayer(world: WorldState, actor: Actor): boolean {
+  if (actor.temp2 > 0) {
+    // Already noticed the player: still reacting
+    if (--actor.temp2 > 0) return false;
+    firstSighting(world, actor);
+    return true;
+  }
+
+  if (!world.areabyplayer[actor.areanumber]) return false;
+  if (actor.flags & FL_AMBUSH) {
+    // Ambush enemies don't move until they see the player
+    if (!checkSight(world, actor)) return false;
+  } else if (!world.madenoise && !checkSight(world, actor)) {
+    return false;
+  }
+
+  const def = getEnemyDef(actor.obclass);
+  const scale = REACTION_SCALE[world.gamestate.difficulty] ?? 1;
+  actor.temp2 = Math.max(1, Math.round((1 + rnd(def.reaction)) * scale));
+  return false;
+}
+
 /**
  * Check if an actor can see the player.
  * Considers the actor's facing direction, line of sight through tiles,
@@ -2085,8 +1187,8 @@ export function checkLine(
 // ============================================================
 
 /**
- * Called when an enemy first spots the player.
- * Switches the enemy to chase/attack mode and alerts nearby enemies.
+ * Called when an enemy first spots or hears the player.
+ * Switches the enemy to chase/attack mode.
  */
 export function firstSighting(world: WorldState, actor: Actor): void {
   // Switch to attack mode
@@ -2094,76 +1196,21 @@ export function firstSighting(world: WorldState, actor: Actor): void {
   actor.flags &= ~FL_AMBUSH; // No longer ambushing
 
   // Switch to chase state
-  const chaseState = getChaseState(actor.obclass);
+  const chaseState = getEnemyDef(actor.obclass).entry.chase;
   actor.state = chaseState;
   actor.ticcount = chaseState.tictime > 0 ? rnd(chaseState.tictime) + 1 : 1;
 
   // Activate the actor (it now wakes up)
   actor.active = ActiveType.Yes;
 
-  // Set speed based on enemy type
-  switch (actor.obclass) {
-    case ClassType.Dog:
-      actor.speed = SPDDOG;
-      break;
-    case ClassType.Boss:
-    case ClassType.Schabbs:
-    case ClassType.Fake:
-    case ClassType.MechaHitler:
-    case ClassType.RealHitler:
-      actor.speed = SPDPATROL * 3; // Bosses are faster
-      break;
-    default:
-      actor.speed = SPDPATROL * 3; // Chasing is faster than patrolling
-      break;
-  }
-
-  // Alert nearby enemies in the same area
-  // (sound propagation through connected areas)
-  if (world.madenoise || !(actor.flags & FL_AMBUSH)) {
-    alertNearbyEnemies(world, actor);
-  }
-}
-
-/**
- * Alert enemies in connected areas that the player has been spotted.
- * This simulates the "alert cascade" from the original game where
- * one enemy spotting the player causes others to wake up.
- */
-function alertNearbyEnemies(world: WorldState, spotter: Actor): void {
-  for (let i = 1; i <= world.lastobj; i++) {
-    const other = world.objlist[i];
-
-    // Skip inactive, dead, or already attacking enemies
-    if (other.obclass === ClassType.Nothing) continue;
-    if (other.obclass === ClassType.Player) continue;
-    if (other === spotter) continue;
-    if (other.flags & FL_ATTACKMODE) continue;
-    if (!(other.flags & FL_SHOOTABLE)) continue;
-
-    // Must be in a connected area
-    if (!world.areabyplayer[other.areanumber]) continue;
-
-    // Check distance (only alert nearby enemies, within ~5 tiles)
-    const dx = Math.abs(other.tilex - spotter.tilex);
-    const dy = Math.abs(other.tiley - spotter.tiley);
-    if (dx > 10 || dy > 10) continue;
-
-    // Alert this enemy
-    other.flags |= FL_ATTACKMODE;
-    other.active = ActiveType.Yes;
-
-    const chaseState = getChaseState(other.obclass);
-    other.state = chaseState;
-    other.ticcount = chaseState.tictime > 0 ? rnd(chaseState.tictime) + 1 : 1;
-
-    // Set chase speed
-    if (other.obclass === ClassType.Dog) {
-      other.speed = SPDDOG;
-    } else {
-      other.speed = SPDPATROL * 3;
-    }
-  }
+  // Chasing is faster than patrolling
+  actor.speed = getEnemyDef(actor.obclass).speed.chase;
+  playActorSound(
+    world,
+    SoundType.EnemyAlert,
+    actor,
+    getEnemyDef(actor.obclass).name,
+  );
 }
 
 // ============================================================
@@ -2171,9 +1218,9 @@ function alertNearbyEnemies(world: WorldState, spotter: Actor): void {
 // ============================================================
 
 /**
- * Called when an actor takes damage.
- * Reduces hitpoints and switches to pain/death state if needed.
- * This is called from outside (e.g., the player attack system).
+ * Called when the player hurts an actor (DamageActor in WL_STATE.C).
+ * Kills it, or wakes it up and makes it flinch if its class has a pain
+ * state; classes that don't flinch list their chase state as pain.
  */
 export function damageActor(
   world: WorldState,
@@ -2182,29 +1229,30 @@ export function damageActor(
 ): void {
   if (!(actor.flags & FL_SHOOTABLE)) return;
 
+  const def = getEnemyDef(actor.obclass);
   actor.hitpoints -= damage;
 
   if (actor.hitpoints <= 0) {
-    // Kill the actor
-    actor.hitpoints = 0;
+    // Kill the actor and play the death sequence (some bosses do more
+    // than fall over)
     killActor(world, actor);
-
-    // Switch to death state
-    const deathState = getDeathState(actor.obclass);
+    playActorSound(world, SoundType.EnemyDeath, actor, def.name);
+    const deathState = def.entry.die;
     actor.state = deathState;
     actor.ticcount = deathState.tictime;
-    if (deathState.action) deathState.action(actor);
+    actor.active = ActiveType.Yes;
+    givePoints(world, def.points);
     return;
   }
 
-  // Actor is still alive -- switch to pain state and become active
+  // Being shot gives the player away, even from behind
   if (!(actor.flags & FL_ATTACKMODE)) {
     firstSighting(world, actor);
-  } else {
-    // Brief pain state
-    const painState = getPainState(actor.obclass);
+  }
+
+  const painState = def.entry.pain;
+  if (painState !== def.entry.chase) {
     actor.state = painState;
     actor.ticcount = painState.tictime;
-    if (painState.action) painState.action(actor);
   }
 }
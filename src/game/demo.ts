@@ -0,0 +1,298 @@
+/**
+ * Wolfenstein 3D TypeScript Port - Demo Recording & Playback
+ * Ported from the RecordDemo / PlayDemo routines of WL_GAME.C
+ *
+ * A demo is the seed, episode, difficulty, game version and active mod packs
+ * of a run plus the processed InputFrame for every tic. Because the
+ * Simulation is deterministic, feeding the frames back through it reproduces
+ * the run exactly, as long as the same packs are active.
+ *
+ * File layout (little-endian):
+ *   "WDEM"  magic
+ *   u8      format version (DEMO_VERSION)
+ *   u8      difficulty
+ *   u8      episode
+ *   u32     seed (the run seed, reduced mod 2^32 like setSeed does)
+ *   u8      game version length, then that many ASCII bytes
+ *   u8      mod pack count, then for each its name as a u16 length and
+ *           that many UTF-8 bytes
+ *   u32     total tic count
+ *   records of 6 bytes: u8 repeat count, i8 controlx, i8 controly,
+ *                       i8 controlstrafe, u16 button bitmask
+ *
+ * Consecutive identical frames share one record, so a held key costs 6 bytes
+ * per 255 tics instead of per tic.
+ */
+
+import { GAME_VERSION, ButtonType } from "../core/types";
+import { createInputFrame } from "./player";
+import type { InputFrame } from "./player";
+
+// ============================================================
+// Format Constants
+// ============================================================
+
+export const DEMO_VERSION = 3;
+
+const DEMO_MAGIC = "WDEM";
+const RECORD_SIZE = 6;
+const MAX_RUN = 255;
+
+// ============================================================
+// Demo
+// ============================================================
+
+export interface Demo {
+  seed: number;
+  difficulty: number;
+  episode: number;
+  /** GAME_VERSION of the build that recorded it; other builds may desync */
+  gameVersion: string;
+  /** Names of the mod packs active while recording, in order; their floors
+   * replace ours, so the demo only plays back with the same packs */
+  mods: string[];
+  /** One processed input frame per tic */
+  frames: InputFrame[];
+}
+
+export function createDemo(
+  seed: number,
+  difficulty: number,
+  episode: number = 0,
+  mods: string[] = [],
+): Demo {
+  return {
+    seed: seed >>> 0,
+    difficulty,
+    episode,
+    gameVersion: GAME_VERSION,
+    mods: mods.slice(0, 255),
+    frames: [],
+  };
+}
+
+/**
+ * Append one tic of input. The frame is copied, so the caller may keep
+ * mutating its own InputState.
+ */
+export function recordDemoFrame(demo: Demo, frame: InputFrame): void {
+  demo.frames.push({
+    controlx: frame.controlx,
+    controly: frame.controly,
+    controlstrafe: frame.controlstrafe,
+    buttonstate: frame.buttonstate.slice(),
+  });
+}
+
+// ============================================================
+// Encoding
+// ============================================================
+
+function buttonsToMask(buttons: boolean[]): number {
+  let mask = 0;
+  for (let i = 0; i < ButtonType.NoButton; i++) {
+    if (buttons[i]) mask |= 1 << i;
+  }
+  return mask;
+}
+
+function maskToButtons(mask: number): boolean[] {
+  const buttons = new Array(9).fill(false);
+  for (let i = 0; i < ButtonType.NoButton; i++) {
+    buttons[i] = (mask & (1 << i)) !== 0;
+  }
+  return buttons;
+}
+
+function clampControl(v: number): number {
+  return Math.max(-100, Math.min(100, Math.round(v)));
+}
+
+/**
+ * Serialize a demo into the compact binary format described above.
+ */
+export function encodeDemo(demo: Demo): Uint8Array<ArrayBuffer> {
+  // Collapse runs of identical frames
+  const runs: { count: number; x: number; y: number; s: number; b: number }[] =
+    [];
+  for (const f of demo.frames) {
+    const x = clampControl(f.controlx);
+    const y = clampControl(f.controly);
+    const s = clampControl(f.controlstrafe);
+    const b = buttonsToMask(f.buttonstate);
+    const last = runs[runs.length - 1];
+    if (
+      last &&
+      last.count < MAX_RUN &&
+      last.x === x &&
+      last.y === y &&
+      last.s === s &&
+      last.b === b
+    ) {
+      last.count++;
+    } else {
+      runs.push({ count: 1, x, y, s, b });
+    }
+  }
+
+  const version = demo.gameVersion.slice(0, 255);
+  const encoder = new TextEncoder();
+  const mods = demo.mods
+    .slice(0, 255)
+    .map((name) => encoder.encode(name).subarray(0, 0xffff));
+  const modsSize = mods.reduce((size, name) => size + 2 + name.length, 1);
+  const headerSize = 4 + 1 + 1 + 1 + 4 + 1 + version.length + modsSize + 4;
+  const bytes = new Uint8Array(headerSize + runs.length * RECORD_SIZE);
+  const view = new DataView(bytes.buffer);
+
+  let p = 0;
+  for (let i = 0; i < 4; i++) bytes[p++] = DEMO_MAGIC.charCodeAt(i);
+  bytes[p++] = DEMO_VERSION;
+  bytes[p++] = demo.difficulty;
+  bytes[p++] = demo.episode;
+  view.setUint32(p, demo.seed >>> 0, true);
+  p += 4;
+  bytes[p++] = version.length;
+  for (let i = 0; i < version.length; i++) {
+    bytes[p++] = version.charCodeAt(i) & 0x7f;
+  }
+  bytes[p++] = mods.length;
+  for (const name of mods) {
+    view.setUint16(p, name.length, true);
+    bytes.set(name, p + 2);
+    p += 2 + name.length;
+  }
+  view.setUint32(p, demo.frames.length, true);
+  p += 4;
+
+  for (const r of runs) {
+    view.setUint8(p, r.count);
+    view.setInt8(p + 1, r.x);
+    view.setInt8(p + 2, r.y);
+    view.setInt8(p + 3, r.s);
+    view.setUint16(p + 4, r.b, true);
+    p += RECORD_SIZE;
+  }
+
+  return bytes;
+}
+
+/**
+ * Parse a demo file. Throws if the data is not a demo or was written by an
+ * incompatible format version.
+ */
+export function decodeDemo(bytes: Uint8Array): Demo {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const fail = (why: string): never => {
+    throw new Error(`Invalid demo file: ${why}`);
+  };
+
+  if (bytes.length < 17) fail("truncated header");
+  let p = 0;
+  let magic = "";
+  for (let i = 0; i < 4; i++) magic += String.fromCharCode(bytes[p++]);
+  if (magic !== DEMO_MAGIC) fail("bad magic");
+
+  const formatVersion = bytes[p++];
+  if (formatVersion !== DEMO_VERSION) {
+    fail(`format version ${formatVersion}, expected ${DEMO_VERSION}`);
+  }
+
+  const difficulty = bytes[p++];
+  const episode = bytes[p++];
+  const seed = view.getUint32(p, true);
+  p += 4;
+
+  const versionLen = bytes[p++];
+  if (p + versionLen + 1 > bytes.length) fail("truncated header");
+  let gameVersion = "";
+  for (let i = 0; i < versionLen; i++) {
+    gameVersion += String.fromCharCode(bytes[p++]);
+  }
+
+  const modCount = bytes[p++];
+  const decoder = new TextDecoder();
+  const mods: string[] = [];
+  for (let i = 0; i < modCount; i++) {
+    if (p + 2 > bytes.length) fail("truncated header");
+    const length = view.getUint16(p, true);
+    p += 2;
+    if (p + length > bytes.length) fail("truncated header");
+    mods.push(decoder.decode(bytes.subarray(p, p + length)));
+    p += length;
+  }
+
+  if (p + 4 > bytes.length) fail("truncated header");
+  const ticCount = view.getUint32(p, true);
+  p += 4;
+
+  const frames: InputFrame[] = [];
+  while (frames.length < ticCount) {
+    if (p + RECORD_SIZE > bytes.length) fail("truncated input data");
+    const count = view.getUint8(p);
+    const controlx = view.getInt8(p + 1);
+    const controly = view.getInt8(p + 2);
+    const controlstrafe = view.getInt8(p + 3);
+    const mask = view.getUint16(p + 4, true);
+    p += RECORD_SIZE;
+
+    for (let i = 0; i < count; i++) {
+      frames.push({
+        controlx,
+        controly,
+        controlstrafe,
+        buttonstate: maskToButtons(mask),
+      });
+    }
+  }
+  frames.length = ticCount;
+
+  return { seed, difficulty, episode, gameVersion, mods, frames };
+}
+
+// ============================================================
+// Built-in Attract Demo
+// ============================================================
+
+/** Seed of the floor the built-in attract demo plays on. */
+const ATTRACT_SEED = 1992;
+
+/**
+ * [tics, controlx, controly, buttons...] segments for the built-in demo.
+ * A short scripted wander: walk, look around, open a door, fire a few shots.
+ */
+const ATTRACT_SCRIPT: [number, number, number, ...ButtonType[]][] = [
+  [70, 0, 0],
+  [140, 0, -100],
+  [35, 100, 0],
+  [105, 0, -100, ButtonType.Run],
+  [10, 0, 0, ButtonType.Use],
+  [60, 0, 0],
+  [140, 0, -100],
+  [50, -100, 0],
+  [20, 0, 0, ButtonType.Attack],
+  [40, 0, 0],
+  [20, 0, 0, ButtonType.Attack],
+  [210, 0, -100],
+  [70, 100, -100],
+  [140, 0, -100, ButtonType.Run],
+  [10, 0, 0, ButtonType.Use],
+  [175, 0, -100],
+  [35, -100, 0],
+  [140, 0, -100],
+];
+
+/**
+ * The demo the title screen plays when no recorded demo is available.
+ */
+export function createAttractDemo(): Demo {
+  const demo = createDemo(ATTRACT_SEED, 1);
+  for (const [tics, controlx, controly, ...buttons] of ATTRACT_SCRIPT) {
+    const frame = createInputFrame();
+    frame.controlx = controlx;
+    frame.controly = controly;
+    for (const b of buttons) frame.buttonstate[b] = true;
+    for (let i = 0; i < tics; i++) recordDemoFrame(demo, frame);
+  }
+  return demo;
+}
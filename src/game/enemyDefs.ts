@@ -0,0 +1,443 @@
+/**
+ * Wolfenstein 3D TypeScript Port - Data-Driven Enemy Definitions
+ * Replaces the hand-written state tables and per-class switches of WL_ACT2.C
+ *
+ * Enemy archetypes live in enemies.json: state machine (tics, shapes and
+ * think/action functions by name), hit points per difficulty, accuracy,
+ * damage dice, speeds, reaction time, score, sprite and projectile.
+ * loadEnemyDefs() checks the whole file up front and reports every problem
+ * at once, then builds the StateType objects, registers them (see
+ * stateRegistry.ts) and indexes the archetypes by ClassType.
+ *
+ * An archetype may "extends" another to reuse its state machine and only
+ * override stats, e.g. Schabbs and Fake Hitler run the Hans Grosse states.
+ */
+
+import { ClassType, rndT } from "../core/types";
+import type { Actor, StateType } from "../core/types";
+import { registerStates } from "./stateRegistry";
+
+// ============================================================
+// Types
+// ============================================================
+
+/** Sprite slots the renderer can draw an enemy with. */
+export const ENEMY_SPRITES = [
+  "guard",
+  "dog",
+  "ss",
+  "officer",
+  "spectre",
+  "ghost",
+] as const;
+export type EnemySprite = (typeof ENEMY_SPRITES)[number];
+
+/** States the game code jumps to directly rather than through next. */
+export const ENTRY_STATES = [
+  "stand",
+  "path",
+  "chase",
+  "shoot",
+  "pain",
+  "die",
+] as const;
+export type EntryState = (typeof ENTRY_STATES)[number];
+
+/** Think/action functions a state can name, e.g. "T_Chase". */
+export type AiFunctionTable = Record<string, (ob: Actor) => void>;
+
+interface RawState {
+  rotate: boolean;
+  shape: number;
+  tics: number;
+  think: string | null;
+  action: string | null;
+  next: string;
+}
+
+interface RawEnemy {
+  extends?: string;
+  class: string;
+  hitpoints: number[];
+  speed: { patrol: number; chase: number };
+  accuracy: number;
+  damage: string;
+  points: number;
+  sprite: string;
+  projectile?: string;
+  countsAsKill?: boolean;
+  reaction: number;
+  entry?: Record<EntryState, string>;
+  states?: Record<string, RawState>;
+}
+
+/** A parsed damage roll: count dice of sides faces, plus bonus. */
+export interface Dice {
+  count: number;
+  sides: number;
+  bonus: number;
+}
+
+export interface EnemyDef {
+  /** Key in enemies.json, e.g. "officer" */
+  name: string;
+  obclass: ClassType;
+  /** Starting hit points, indexed by difficulty (0-3) */
+  hitpoints: number[];
+  speed: { patrol: number; chase: number };
+  /** Added to the distance-based hit chance (out of 256) */
+  accuracy: number;
+  damage: Dice;
+  /** Score for a kill */
+  points: number;
+  sprite: EnemySprite;
+  /** What T_Launch fires (a projectile ClassType), if anything */
+  projectile: ClassType | null;
+  /** False for enemies left out of the kill ratio (respawning spectres) */
+  countsAsKill: boolean;
+  /** Up to how many tics it takes to react on first seeing the player */
+  reaction: number;
+  entry: Record<EntryState, StateType>;
+}
+
+// ============================================================
+// Registry
+// ============================================================
+
+const _defsByClass = new Map<ClassType, EnemyDef>();
+let _fallback: EnemyDef | null = null;
+
+/**
+ * Definition for an enemy class. Classes without one of their own use the
+ * guard's, so a half-finished enemy still behaves like something.
+ */
+export function getEnemyDef(obclass: ClassType): EnemyDef {
+  const def = _defsByClass.get(obclass) ?? _fallback;
+  if (!def) throw new Error("Enemy definitions have not been loaded");
+  return def;
+}
+
+/**
+ * Definition for an enemy class, or undefined if it has none.
+ */
+export function findEnemyDef(obclass: ClassType): EnemyDef | undefined {
+  return _defsByClass.get(obclass);
+}
+
+/**
+ * All loaded definitions, in file order.
+ */
+export function getAllEnemyDefs(): EnemyDef[] {
+  return [..._defsByClass.values()];
+}
+
+// ============================================================
+// Dice
+// ============================================================
+
+const DICE_PATTERN = /^(\d+)d(\d+)(?:([+-])(\d+))?$/;
+
+/**
+ * Parse a damage string such as "1d8" or "2d6+3". Returns null if malformed.
+ */
+export function parseDice(text: string): Dice | null {
+  const m = DICE_PATTERN.exec(text);
+  if (!m) return null;
+  const count = Number(m[1]);
+  const sides = Number(m[2]);
+  if (count < 1 || sides < 1) return null;
+  const bonus = m[3] ? Number(m[4]) * (m[3] === "-" ? -1 : 1) : 0;
+  return { count, sides, bonus };
+}
+
+/**
+ * Roll damage dice with the game RNG.
+ */
+export function rollDice(dice: Dice): number {
+  let total = dice.bonus;
+  for (let i = 0; i < dice.count; i++) total += rndT(dice.sides);
+  return total;
+}
+
+// ============================================================
+// Validation
+// ============================================================
+
+const isObject = (v: unknown): v is Record<string, unknown> =>
+  typeof v === "object" && v !== null && !Array.isArray(v);
+
+const isInt = (v: unknown): v is number =>
+  typeof v === "number" && Number.isInteger(v);
+
+function checkState(
+  where: string,
+  raw: unknown,
+  names: Set<string>,
+  functions: AiFunctionTable,
+  problems: string[],
+): void {
+  if (!isObject(raw)) {
+    problems.push(`${where}: must be an object`);
+    return;
+  }
+  if (typeof raw.rotate !== "boolean") {
+    problems.push(`${where}.rotate: must be true or false`);
+  }
+  if (!isInt(raw.shape) || raw.shape < 0) {
+    problems.push(`${where}.shape: must be a non-negative integer`);
+  }
+  if (!isInt(raw.tics) || raw.tics < 0) {
+    problems.push(`${where}.tics: must be a non-negative integer`);
+  }
+  for (const key of ["think", "action"] as const) {
+    const fn = raw[key];
+    if (fn === null) continue;
+    if (
+      typeof fn !== "string" ||
+      !Object.prototype.hasOwnProperty.call(functions, fn)
+    ) {
+      problems.push(
+        `${where}.${key}: unknown function ${JSON.stringify(fn)} ` +
+          `(expected null or one of ${Object.keys(functions).join(", ")})`,
+      );
+    }
+  }
+  if (typeof raw.next !== "string" || !names.has(raw.next)) {
+    problems.push(
+      `${where}.next: ${JSON.stringify(raw.next)} is not a state of this enemy`,
+    );
+  }
+}
+
+function checkEnemy(
+  name: string,
+  raw: unknown,
+  data: Record<string, unknown>,
+  functions: AiFunctionTable,
+  problems: string[],
+): void {
+  if (!isObject(raw)) {
+    problems.push(`${name}: must be an object`);
+    return;
+  }
+
+  const cls = raw.class;
+  if (
+    typeof cls !== "string" ||
+    typeof ClassType[cls as keyof typeof ClassType] !== "number"
+  ) {
+    problems.push(`${name}.class: unknown ClassType ${JSON.stringify(cls)}`);
+  }
+
+  const hp = raw.hitpoints;
+  if (
+    !Array.isArray(hp) ||
+    hp.length !== 4 ||
+    !hp.every((v) => isInt(v) && v > 0)
+  ) {
+    problems.push(
+      `${name}.hitpoints: must be 4 positive integers (one per difficulty)`,
+    );
+  }
+
+  const speed = raw.speed;
+  if (
+    !isObject(speed) ||
+    !isInt(speed.patrol) ||
+    !isInt(speed.chase) ||
+    speed.patrol < 0 ||
+    speed.chase < 0
+  ) {
+    problems.push(`${name}.speed: must be { patrol, chase } integers`);
+  }
+
+  if (!isInt(raw.accuracy) || raw.accuracy < -255 || raw.accuracy > 255) {
+    problems.push(`${name}.accuracy: must be an integer from -255 to 255`);
+  }
+  if (typeof raw.damage !== "string" || !parseDice(raw.damage)) {
+    problems.push(
+      `${name}.damage: ${JSON.stringify(raw.damage)} is not a dice roll like "1d8"`,
+    );
+  }
+  if (!isInt(raw.points) || raw.points < 0) {
+    problems.push(`${name}.points: must be a non-negative integer`);
+  }
+  if (
+    raw.projectile !== undefined &&
+    (typeof raw.projectile !== "string" ||
+      typeof ClassType[raw.projectile as keyof typeof ClassType] !== "number")
+  ) {
+    problems.push(
+      `${name}.projectile: unknown ClassType ${JSON.stringify(raw.projectile)}`,
+    );
+  }
+  if (raw.countsAsKill !== undefined && typeof raw.countsAsKill !== "boolean") {
+    problems.push(`${name}.countsAsKill: must be true or false`);
+  }
+  if (!isInt(raw.reaction) || raw.reaction < 1) {
+    problems.push(`${name}.reaction: must be a positive integer (tics)`);
+  }
+  if (!ENEMY_SPRITES.includes(raw.sprite as EnemySprite)) {
+    problems.push(
+      `${name}.sprite: ${JSON.stringify(raw.sprite)} is not one of ${ENEMY_SPRITES.join(", ")}`,
+    );
+  }
+
+  // -- State machine: either inherited or defined here --
+  if (raw.extends !== undefined) {
+    const base = data[raw.extends as string];
+    if (typeof raw.extends !== "string" || !isObject(base)) {
+      problems.push(
+        `${name}.extends: ${JSON.stringify(raw.extends)} is not a defined enemy`,
+      );
+    } else if (base.extends !== undefined) {
+      problems.push(
+        `${name}.extends: "${raw.extends}" itself extends another enemy`,
+      );
+    }
+    if (raw.states !== undefined || raw.entry !== undefined) {
+      problems.push(`${name}: an enemy that extends another can't add states`);
+    }
+    return;
+  }
+
+  if (!isObject(raw.states)) {
+    problems.push(`${name}.states: must be an object of named states`);
+    return;
+  }
+  const names = new Set(Object.keys(raw.states));
+  for (const [stateName, state] of Object.entries(raw.states)) {
+    checkState(
+      `${name}.states.${stateName}`,
+      state,
+      names,
+      functions,
+      problems,
+    );
+  }
+
+  if (!isObject(raw.entry)) {
+    problems.push(
+      `${name}.entry: must name the ${ENTRY_STATES.join("/")} states`,
+    );
+    return;
+  }
+  for (const key of ENTRY_STATES) {
+    const target = raw.entry[key];
+    if (typeof target !== "string" || !names.has(target)) {
+      problems.push(
+        `${name}.entry.${key}: ${JSON.stringify(target)} is not a state of this enemy`,
+      );
+    }
+  }
+}
+
+// ============================================================
+// Loading
+// ============================================================
+
+/**
+ * Validate and load enemy definitions. Called once at startup, since the
+ * states it builds are registered under their names for good. Throws a
+ * single Error listing every problem found; nothing is registered unless
+ * the whole file is valid.
+ *
+ * @param data - Parsed enemies.json
+ * @param functions - Think/action functions states may refer to by name
+ */
+export function loadEnemyDefs(
+  data: unknown,
+  functions: AiFunctionTable,
+): EnemyDef[] {
+  const problems: string[] = [];
+
+  if (!isObject(data)) {
+    throw new Error("Invalid enemy definitions: expected an object");
+  }
+
+  const seenStates = new Map<string, string>();
+  const seenClasses = new Map<string, string>();
+  for (const [name, raw] of Object.entries(data)) {
+    checkEnemy(name, raw, data, functions, problems);
+    if (!isObject(raw)) continue;
+
+    const cls = String(raw.class);
+    if (seenClasses.has(cls)) {
+      problems.push(
+        `${name}.class: ${cls} is already defined by "${seenClasses.get(cls)}"`,
+      );
+    }
+    seenClasses.set(cls, name);
+
+    if (isObject(raw.states)) {
+      for (const stateName of Object.keys(raw.states)) {
+        if (seenStates.has(stateName)) {
+          problems.push(
+            `${name}.states.${stateName}: already defined by "${seenStates.get(stateName)}"`,
+          );
+        }
+        seenStates.set(stateName, name);
+      }
+    }
+  }
+  if (!seenClasses.has("Guard")) {
+    problems.push("no enemy has class Guard, which other classes fall back to");
+  }
+
+  if (problems.length > 0) {
+    throw new Error(`Invalid enemy definitions:\n  ${problems.join("\n  ")}`);
+  }
+
+  const raws = data as Record<string, RawEnemy>;
+  const entries = new Map<string, Record<EntryState, StateType>>();
+
+  // -- Build and link the state machines --
+  for (const [name, raw] of Object.entries(raws)) {
+    if (!raw.states || !raw.entry) continue;
+
+    const built: Record<string, StateType> = {};
+    for (const [stateName, s] of Object.entries(raw.states)) {
+      built[stateName] = {
+        rotate: s.rotate,
+        shapenum: s.shape,
+        tictime: s.tics,
+        think: s.think ? functions[s.think] : null,
+        action: s.action ? functions[s.action] : null,
+        next: null,
+      };
+    }
+    for (const [stateName, s] of Object.entries(raw.states)) {
+      built[stateName].next = built[s.next];
+    }
+    registerStates(built);
+
+    const entry = {} as Record<EntryState, StateType>;
+    for (const key of ENTRY_STATES) entry[key] = built[raw.entry[key]];
+    entries.set(name, entry);
+  }
+
+  // -- Archetypes --
+  _defsByClass.clear();
+  for (const [name, raw] of Object.entries(raws)) {
+    const def: EnemyDef = {
+      name,
+      obclass: ClassType[raw.class as keyof typeof ClassType],
+      hitpoints: raw.hitpoints.slice(),
+      speed: { patrol: raw.speed.patrol, chase: raw.speed.chase },
+      accuracy: raw.accuracy,
+      damage: parseDice(raw.damage)!,
+      points: raw.points,
+      sprite: raw.sprite as EnemySprite,
+      projectile: raw.projectile
+        ? ClassType[raw.projectile as keyof typeof ClassType]
+        : null,
+      countsAsKill: raw.countsAsKill ?? true,
+      reaction: raw.reaction,
+      entry: entries.get(raw.extends ?? name)!,
+    };
+    _defsByClass.set(def.obclass, def);
+  }
+  _fallback = _defsByClass.get(ClassType.Guard) ?? null;
+
+  return getAllEnemyDefs();
+}
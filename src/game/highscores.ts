@@ -0,0 +1,86 @@
+/**
+ * Wolfenstein 3D TypeScript Port - High Scores
+ * Ported from CheckHighScore / DrawHighScores in WL_INTER.C
+ *
+ * Keeps a top-NUM_HIGH_SCORES table in localStorage for each way a run's seed
+ * can be chosen, so daily challenges and fixed seeds are only ranked against
+ * runs on the same terms. Runs with mod packs active play other floors, so
+ * they are ranked in a table of their own whatever their seed.
+ */
+
+// ============================================================
+// Format
+// ============================================================
+
+/** How the run's seed was chosen: none given, `#seed=N`, or `#daily`. */
+export type SeedMode = "random" | "seed" | "daily";
+
+/** Which table a run is ranked in: its seed mode, or "modded". */
+export type ScoreTable = SeedMode | "modded";
+
+/** Entries kept per table, as in the original's MaxScores. */
+export const NUM_HIGH_SCORES = 7;
+
+/** Longest name the entry screen accepts (arcade-style initials). */
+export const HIGH_SCORE_NAME_LENGTH = 3;
+
+const TABLE_KEY_PREFIX = "wolf3d-ts.highscores.";
+
+export interface HighScore {
+  name: string;
+  score: number;
+  episode: number;
+  /** Floor reached, counting from 1 */
+  floor: number;
+  difficulty: number;
+  seed: number;
+  /** YYYY-MM-DD */
+  date: string;
+}
+
+// ============================================================
+// Table Storage
+// ============================================================
+
+/**
+ * A table, best first. Empty if missing or unreadable.
+ */
+export function readHighScores(mode: ScoreTable): HighScore[] {
+  try {
+    const raw = localStorage.getItem(TABLE_KEY_PREFIX + mode);
+    if (!raw) return [];
+    const table = JSON.parse(raw) as HighScore[];
+    return Array.isArray(table) ? table.slice(0, NUM_HIGH_SCORES) : [];
+  } catch (err) {
+    console.warn(`Ignoring unreadable ${mode} high scores:`, err);
+    return [];
+  }
+}
+
+/**
+ * Would this score make the table?
+ */
+export function isHighScore(mode: ScoreTable, score: number): boolean {
+  if (score <= 0) return false;
+  const table = readHighScores(mode);
+  return (
+    table.length < NUM_HIGH_SCORES || score > table[table.length - 1].score
+  );
+}
+
+/**
+ * Insert an entry below any equal scores and store the table. Returns the
+ * entry's rank (0 for the top), or -1 if it didn't make the table. Throws if
+ * storage is full or unavailable.
+ */
+export function addHighScore(mode: ScoreTable, entry: HighScore): number {
+  const table = readHighScores(mode);
+  let rank = table.findIndex((e) => entry.score > e.score);
+  if (rank < 0) rank = table.length;
+  if (rank >= NUM_HIGH_SCORES) return -1;
+
+  table.splice(rank, 0, entry);
+  table.length = Math.min(table.length, NUM_HIGH_SCORES);
+  localStorage.setItem(TABLE_KEY_PREFIX + mode, JSON.stringify(table));
+  return rank;
+}
@@ -0,0 +1,83 @@
+/**
+ * Wolfenstein 3D TypeScript Port - Floor Tally
+ * Ported from the scoring half of LevelCompleted in WL_INTER.C
+ *
+ * When a floor ends, the kill, secret and treasure ratios are worked out from
+ * the floor's counters, the time is compared with the floor's par time, and
+ * the bonuses are paid into the score. The intermission screen in main.ts
+ * then counts the numbers up for show.
+ */
+
+import { getParTime } from "../core/episodes";
+import type { WorldState } from "./actors";
+import { givePoints } from "./player";
+
+// ============================================================
+// Constants
+// ============================================================
+
+/** Simulation tics per second (TimeCount runs at 70 Hz) */
+const TICS_PER_SECOND = 70;
+
+/** Bonus for each ratio that reaches 100% */
+export const PERCENT100AMT = 10000;
+
+/** Bonus per second the floor was finished under par */
+export const PAR_AMOUNT = 500;
+
+// ============================================================
+// Tally
+// ============================================================
+
+export interface LevelTally {
+  killRatio: number;
+  secretRatio: number;
+  treasureRatio: number;
+  /** Seconds taken to finish the floor */
+  time: number;
+  /** Par time in seconds, 0 if the floor has none */
+  par: number;
+  timeBonus: number;
+  /** 10,000 points for every 100% ratio */
+  ratioBonus: number;
+}
+
+/**
+ * Percentage of count over total, at most 100; a floor with none of a thing
+ * scores 0%.
+ */
+function ratio(count: number, total: number): number {
+  return total > 0 ? Math.min(100, Math.floor((count * 100) / total)) : 0;
+}
+
+/**
+ * Tally the floor just finished and add its bonuses to the score. Call once
+ * per floor, before the simulation moves on to the next one.
+ */
+export function tallyLevel(world: WorldState): LevelTally {
+  const gs = world.gamestate;
+  const killRatio = ratio(gs.killcount, gs.killtotal);
+  const secretRatio = ratio(gs.secretcount, gs.secrettotal);
+  const treasureRatio = ratio(gs.treasurecount, gs.treasuretotal);
+
+  const time = Math.floor(gs.TimeCount / TICS_PER_SECOND);
+  const par = getParTime(gs.episode, gs.mapon, gs.secretlevel);
+  const timeBonus = par > 0 && time < par ? (par - time) * PAR_AMOUNT : 0;
+
+  let ratioBonus = 0;
+  for (const r of [killRatio, secretRatio, treasureRatio]) {
+    if (r >= 100) ratioBonus += PERCENT100AMT;
+  }
+
+  givePoints(world, timeBonus + ratioBonus);
+
+  return {
+    killRatio,
+    secretRatio,
+    treasureRatio,
+    time,
+    par,
+    timeBonus,
+    ratioBonus,
+  };
+}
@@ -28,10 +28,11 @@ import {
   ACTORSIZE,
   FL_SHOOTABLE,
   FL_BONUS,
-  FL_ATTACKMODE,
   PUSHABLETILE,
   EXITTILE,
   ELEVATORTILE,
+  SECRETEXITTILE,
+  GD_BABY,
   tileIndex,
   rnd,
   ATTACK_INFO,
@@ -41,21 +42,36 @@ import type { Actor, StaticObj } from "../core/types";
 import { sintable, costable, fixedByFrac } from "../core/math";
 
 import type { WorldState } from "./actors";
+import { openDoor, pushWall, updateAreaNumber } from "./actors";
+import { damageActor } from "./ai";
+import { SoundType, playSound } from "./sound";
 
 // ============================================================
 // Input State
 // ============================================================
 
-export interface InputState {
-  /** Raw key states (KeyboardEvent.code values) */
-  keys: Set<string>;
-
-  /** Processed controls: turn/strafe (-100 to 100) */
+/**
+ * The processed, per-tic controls consumed by updatePlayer. This is all the
+ * simulation ever sees of the player's input -- raw keys and mouse deltas are
+ * folded into it by pollControls.
+ */
+export interface InputFrame {
+  /** Processed controls: turn (-100 to 100, positive turns right) */
   controlx: number;
   /** Processed controls: forward/back (-100 to 100) */
   controly: number;
+  /** Processed controls: strafe (-100 to 100, positive strafes right) */
+  controlstrafe: number;
   /** ButtonType-indexed button states for this frame */
   buttonstate: boolean[];
+}
+
+export interface InputState extends InputFrame {
+  /** Raw key states (KeyboardEvent.code values) */
+  keys: Set<string>;
+
+  /** ButtonType-indexed button states from the previous frame (WL_PLAY buttonheld) */
+  buttonheld: boolean[];
 
   /** Accumulated mouse X delta since last poll */
   mouseDx: number;
@@ -68,12 +84,20 @@ export interface InputState {
   pointerLocked: boolean;
 }
 
-export function createInputState(): InputState {
+export function createInputFrame(): InputFrame {
   return {
-    keys: new Set<string>(),
     controlx: 0,
     controly: 0,
+    controlstrafe: 0,
     buttonstate: new Array(9).fill(false),
+  };
+}
+
+export function createInputState(): InputState {
+  return {
+    ...createInputFrame(),
+    keys: new Set<string>(),
+    buttonheld: new Array(9).fill(false),
     mouseDx: 0,
     mouseDy: 0,
     mouseButtons: 0,
@@ -96,7 +120,9 @@ export function setupInput(canvas: HTMLCanvasElement, input: InputState): void {
       e.code === "ArrowDown" ||
       e.code === "ArrowLeft" ||
       e.code === "ArrowRight" ||
-      e.code === "Tab"
+      e.code === "Tab" ||
+      e.code === "F2" ||
+      e.code === "F3"
     ) {
       e.preventDefault();
     }
@@ -144,14 +170,16 @@ export function setupInput(canvas: HTMLCanvasElement, input: InputState): void {
 
 /**
  * Convert raw key/mouse state into processed controlx/controly/buttonstate.
- * Called once per frame before updatePlayer.
+ * Called once per frame before updatePlayer, with the number of tics the
+ * frame will run on these controls.
  */
-export function pollControls(input: InputState): void {
+export function pollControls(input: InputState, tics = 1): void {
   const keys = input.keys;
 
   // Reset processed values
   input.controlx = 0;
   input.controly = 0;
+  input.controlstrafe = 0;
   input.buttonstate = new Array(9).fill(false);
 
   // ---- Forward / backward (WASD + arrows) ----
@@ -162,23 +190,33 @@ export function pollControls(input: InputState): void {
     input.controly = 100; // backward is positive
   }
 
-  // ---- Turn with A/D and arrow keys ----
-  let turnInput = 0;
-  if (keys.has("KeyA") || keys.has("ArrowLeft")) turnInput -= 100;
-  if (keys.has("KeyD") || keys.has("ArrowRight")) turnInput += 100;
+  // ---- Turn with A/D and arrow keys (strafe instead while Alt is held) ----
+  const strafing = keys.has("AltLeft") || keys.has("AltRight");
+  let sideInput = 0;
+  if (keys.has("KeyA") || keys.has("ArrowLeft")) sideInput -= 100;
+  if (keys.has("KeyD") || keys.has("ArrowRight")) sideInput += 100;
+
+  let turnInput = strafing ? 0 : sideInput;
 
-  // Mouse turning (high sensitivity for FPS feel)
-  turnInput += input.mouseDx * 3;
+  // Mouse turning (high sensitivity for FPS feel; controlMovement turns by
+  // twice controlx). Each tic of the frame turns by controlx, so it gets an
+  // even share of the motion. Rounded so the frame is integral and survives
+  // demo recording unchanged; the rounding carries into the next frame.
+  const mouseTurn = Math.round((input.mouseDx * 1.5) / tics);
+  turnInput += mouseTurn;
 
   // Clamp turn
   turnInput = Math.max(-100, Math.min(100, turnInput));
-
-  // controlx stores turn amount (arrows + mouse), strafe is applied directly in movement
   input.controlx = turnInput;
 
-  // Store strafe in temp -- we'll read keys directly in controlMovement for strafe
+  // ---- Strafe (Q/E always strafe; A/D and arrows strafe while Alt held) ----
+  let strafeInput = strafing ? sideInput : 0;
+  if (keys.has("KeyQ")) strafeInput -= 100;
+  if (keys.has("KeyE")) strafeInput += 100;
+  input.controlstrafe = Math.max(-100, Math.min(100, strafeInput));
+
   // Reset mouse deltas
-  input.mouseDx = 0;
+  input.mouseDx -= (mouseTurn * tics) / 1.5;
   input.mouseDy = 0;
 
   // ---- Buttons ----
@@ -198,7 +236,7 @@ export function pollControls(input: InputState): void {
   }
 
   // Strafe button (for arrow key strafing -- Alt key)
-  if (keys.has("AltLeft") || keys.has("AltRight")) {
+  if (strafing) {
     input.buttonstate[ButtonType.Strafe] = true;
   }
 
@@ -255,8 +293,11 @@ export function updatePlayer(
     }
   }
 
-  // Use/Interact
-  if (input.buttonstate[ButtonType.Use]) {
+  // Use/Interact (only on the initial press, like WL_AGENT's buttonheld check)
+  if (
+    input.buttonstate[ButtonType.Use] &&
+    !input.buttonheld[ButtonType.Use]
+  ) {
     playerUse(world);
   }
 
@@ -276,6 +317,11 @@ export function updatePlayer(
     gs.lives++;
     gs.nextextra += 40000;
   }
+
+  // Remember which buttons were down for next frame's edge detection
+  for (let i = 0; i < input.buttonstate.length; i++) {
+    input.buttonheld[i] = input.buttonstate[i];
+  }
 }
 
 // ============================================================
@@ -283,35 +329,21 @@ export function updatePlayer(
 // ============================================================
 
 /**
- * Handle player movement: turning (arrows + mouse), forward/back (W/S/arrows),
- * and strafing (A/D). Modern FPS-style controls.
+ * Handle player movement from the processed controls: turning (controlx),
+ * forward/back (controly) and strafing (controlstrafe). Modern FPS-style
+ * controls, but driven only by the InputFrame so it runs headless.
  */
 export function controlMovement(
   world: WorldState,
-  input: InputState,
+  input: InputFrame,
   tics: number,
 ): void {
   const player = world.player;
-  const keys = input.keys;
 
   // ---- Turning ----
-  // Arrow keys contribute to turning; if Strafe button held, arrows strafe instead
-  const strafing = input.buttonstate[ButtonType.Strafe];
-
-  let turnAmount = 0;
-
-  if (!strafing) {
-    // A/D and Arrow left/right = turn
-    if (keys.has("KeyA") || keys.has("ArrowLeft"))
-      turnAmount -= ANGLESCALE * tics;
-    if (keys.has("KeyD") || keys.has("ArrowRight"))
-      turnAmount += ANGLESCALE * tics;
-  }
-
-  // Mouse always turns (accumulated in mouseDx, but we already processed it into controlx)
-  // controlx has the combined arrow + mouse turn value scaled to [-100, 100]
-  // Map controlx to angle change
-  turnAmount += (input.controlx * tics * ANGLESCALE) / 100;
+  // controlx has the combined key + mouse turn value scaled to [-100, 100].
+  // A held turn key (100) turns 2 * ANGLESCALE a tic, as keys always have
+  const turnAmount = (input.controlx * tics * ANGLESCALE * 2) / 100;
 
   // Apply rotation
   player.angle -= turnAmount;
@@ -325,33 +357,25 @@ export function controlMovement(
   const running = input.buttonstate[ButtonType.Run];
   const speed = running ? RUNSPEED : PLAYERSPEED;
 
-  // ---- Forward / Backward (W/S or Up/Down) ----
-  if (keys.has("KeyW") || keys.has("ArrowUp")) {
+  // ---- Forward / Backward ----
+  if (input.controly < 0) {
     // Forward
-    const moveSpeed = speed * tics;
+    const moveSpeed = (speed * tics * -input.controly) / 100;
     thrust(world, player, player.angle, moveSpeed);
-  }
-  if (keys.has("KeyS") || keys.has("ArrowDown")) {
+  } else if (input.controly > 0) {
     // Backward (slower)
-    const moveSpeed = (speed * tics * BACKMOVESCALE) / MOVESCALE;
+    const moveSpeed =
+      (speed * tics * input.controly * BACKMOVESCALE) / (100 * MOVESCALE);
     thrust(world, player, (player.angle + ANGLES / 2) % ANGLES, moveSpeed);
   }
 
-  // ---- Strafe (Q/E always strafe; arrows strafe if Strafe button held) ----
-  let strafeLeft = keys.has("KeyQ");
-  let strafeRight = keys.has("KeyE");
-  if (strafing) {
-    if (keys.has("ArrowLeft")) strafeLeft = true;
-    if (keys.has("ArrowRight")) strafeRight = true;
-  }
-
-  if (strafeLeft) {
-    const moveSpeed = speed * tics;
+  // ---- Strafe ----
+  if (input.controlstrafe < 0) {
+    const moveSpeed = (speed * tics * -input.controlstrafe) / 100;
     // Strafe left = move at angle + 90 degrees
     thrust(world, player, (player.angle + 90) % ANGLES, moveSpeed);
-  }
-  if (strafeRight) {
-    const moveSpeed = speed * tics;
+  } else if (input.controlstrafe > 0) {
+    const moveSpeed = (speed * tics * input.controlstrafe) / 100;
     // Strafe right = move at angle - 90 degrees (= +270)
     thrust(world, player, (player.angle + 270) % ANGLES, moveSpeed);
   }
@@ -437,11 +461,8 @@ function clipMove(
     }
   }
 
-  // Update area number: the tilemap stores area info for open tiles.
-  // In Wolf3D, open tiles (value 0 in wall plane) have area info stored
-  // elsewhere. Here we simply keep the player's current area number
-  // unless the actorat grid or tilemap indicates a different area.
-  // Area tracking is handled by the main game loop via actors.ts.
+  // Walking through a door takes the player into the area beyond it
+  updateAreaNumber(world, player);
 }
 
 /**
@@ -511,21 +532,11 @@ function isActorBlocking(
 // Use / Interact
 // ============================================================
 
-/** Tracks whether the use button was already held last frame to prevent repeat. */
-let _useHeld = false;
-
 /**
  * Player pressed Use: check the tile in front for doors, pushwalls, elevator.
+ * Callers are responsible for only invoking this on the initial press.
  */
 export function playerUse(world: WorldState): void {
-  // Debounce: only activate on initial press
-  if (_useHeld) return;
-  _useHeld = true;
-  // We'll reset _useHeld when key is released -- handled in updatePlayer wrapper
-  setTimeout(() => {
-    _useHeld = false;
-  }, 200);
-
   const player = world.player;
   const gs = world.gamestate;
 
@@ -565,14 +576,7 @@ export function playerUse(world: WorldState): void {
       // Need silver key
       return;
     }
-    // Open the door (import openDoor dynamically to avoid circular deps)
-    if (
-      door.action === DoorAction.Closed ||
-      door.action === DoorAction.Closing
-    ) {
-      door.action = DoorAction.Opening;
-      door.ticcount = 0;
-    }
+    openDoor(world, doorIdx);
     return;
   }
 
@@ -583,6 +587,11 @@ export function playerUse(world: WorldState): void {
     world.playstate = ExitType.Completed;
     return;
   }
+  if (wallVal === SECRETEXITTILE) {
+    // Secret elevator: off to the secret floor
+    world.playstate = ExitType.SecretLevel;
+    return;
+  }
 
   // Check for pushwall
   if (wallVal === PUSHABLETILE) {
@@ -595,34 +604,7 @@ export function playerUse(world: WorldState): void {
     else if (dx === 0 && dy === -1) pushDir = DirType.North;
     else if (dx === 0 && dy === 1) pushDir = DirType.South;
 
-    if (pushDir !== DirType.NoDir) {
-      // Check that the tile behind the pushwall is empty
-      let behindTx = checkTx;
-      let behindTy = checkTy;
-      if (pushDir === DirType.East) behindTx++;
-      else if (pushDir === DirType.West) behindTx--;
-      else if (pushDir === DirType.North) behindTy--;
-      else if (pushDir === DirType.South) behindTy++;
-
-      if (
-        behindTx >= 0 &&
-        behindTx < MAPSIZE &&
-        behindTy >= 0 &&
-        behindTy < MAPSIZE
-      ) {
-        const behindWall = world.tilemap[tileIndex(behindTx, behindTy)];
-        if (behindWall === 0) {
-          // Start pushwall
-          world.pwallstate = 1; // 1 = just started
-          world.pwalltile = { x: checkTx, y: checkTy };
-          world.pwalldir = pushDir;
-          world.pwallpos = 0;
-
-          // Count secret
-          gs.secretcount++;
-        }
-      }
-    }
+    if (pushDir !== DirType.NoDir) pushWall(world, checkTx, checkTy, pushDir);
     return;
   }
 }
@@ -723,6 +705,14 @@ export function updateAttack(world: WorldState, tics: number): void {
   gs.attackframe++;
 }
 
+/** Firing sound of each weapon, indexed by WeaponType. */
+const WEAPON_SOUNDS: SoundType[] = [
+  SoundType.Knife,
+  SoundType.Pistol,
+  SoundType.MachineGun,
+  SoundType.ChainGun,
+];
+
 /**
  * Trace a bullet from the player's position in the player's facing direction.
  * Hits the first FL_SHOOTABLE actor in the line of fire.
@@ -738,6 +728,10 @@ export function gunAttack(world: WorldState): void {
   else if (gs.weapon === WeaponType.Pistol) angleSpread = rnd(5) - 2;
 
   const shotAngle = (((player.angle + angleSpread) % ANGLES) + ANGLES) % ANGLES;
+  playSound(WEAPON_SOUNDS[gs.weapon]);
+
+  // Gunfire wakes everyone within earshot (the knife is silent)
+  world.madenoise = true;
 
   // Step along the ray in fixed increments, checking for actors
   const stepDist = TILEGLOBAL / 2;
@@ -822,6 +816,7 @@ export function gunAttack(world: WorldState): void {
 export function knifeAttack(world: WorldState): void {
   const player = world.player;
   const maxKnifeRange = TILEGLOBAL + ACTORSIZE; // about 1.25 tiles
+  playSound(SoundType.Knife);
 
   let closestActor: Actor | null = null;
   let closestDist = maxKnifeRange;
@@ -897,57 +892,6 @@ function isWallBetween(
   return false;
 }
 
-/**
- * Apply damage to an enemy actor, killing it if HP goes to zero.
- */
-function damageActor(world: WorldState, actor: Actor, damage: number): void {
-  actor.hitpoints -= damage;
-
-  if (actor.hitpoints <= 0) {
-    actor.hitpoints = 0;
-    // Kill the actor
-    actor.flags &= ~FL_SHOOTABLE;
-    actor.flags &= ~FL_ATTACKMODE;
-
-    // Increment kill count
-    world.gamestate.killcount++;
-
-    // Give score based on enemy type
-    switch (actor.obclass) {
-      case ClassType.Guard:
-        givePoints(world, 100);
-        break;
-      case ClassType.Officer:
-        givePoints(world, 400);
-        break;
-      case ClassType.SS:
-        givePoints(world, 500);
-        break;
-      case ClassType.Dog:
-        givePoints(world, 200);
-        break;
-      case ClassType.Mutant:
-        givePoints(world, 700);
-        break;
-      case ClassType.Boss:
-      case ClassType.Schabbs:
-      case ClassType.MechaHitler:
-      case ClassType.RealHitler:
-      case ClassType.Gretel:
-      case ClassType.Gift:
-      case ClassType.Fat:
-        givePoints(world, 5000);
-        break;
-      default:
-        givePoints(world, 100);
-        break;
-    }
-  } else {
-    // Enemy becomes aggressive when shot
-    actor.flags |= FL_ATTACKMODE;
-  }
-}
-
 // ============================================================
 // Damage / Health / Items
 // ============================================================
@@ -964,14 +908,14 @@ export function takeDamage(
 
   if (gs.health <= 0) return; // already dead
 
-  // Scale damage by difficulty
-  const difficultyScale = [0.5, 0.75, 1.0, 1.5];
-  const scaled = Math.ceil(points * (difficultyScale[gs.difficulty] || 1.0));
+  // "Can I play, Daddy?" takes a quarter of the damage
+  if (gs.difficulty === GD_BABY) points >>= 2;
 
-  gs.health -= scaled;
+  gs.health -= points;
 
   // Update face frame to show pain
   gs.faceframe = 1; // hurt face
+  playSound(SoundType.PlayerPain);
 
   if (gs.health <= 0) {
     gs.health = 0;
@@ -1033,55 +977,65 @@ export function givePoints(world: WorldState, points: number): void {
  */
 export function pickupItem(world: WorldState, item: StaticObj): boolean {
   const gs = world.gamestate;
+  let sound: SoundType;
 
   switch (item.itemnumber) {
     // --- Health pickups ---
     case StaticItemType.Food:
       if (gs.health >= 100) return false;
       healPlayer(world, 10);
+      sound = SoundType.PickupHealth;
       break;
 
     case StaticItemType.FirstAid:
       if (gs.health >= 100) return false;
       healPlayer(world, 25);
+      sound = SoundType.PickupHealth;
       break;
 
     // --- Ammo ---
     case StaticItemType.Clip:
       if (gs.ammo >= 99) return false;
       giveAmmo(world, 8);
+      sound = SoundType.PickupAmmo;
       break;
 
     // --- Weapons (also give ammo) ---
     case StaticItemType.MachineGunPickup:
       giveAmmo(world, 6);
       giveWeapon(world, WeaponType.MachineGun);
+      sound = SoundType.PickupWeapon;
       break;
 
     case StaticItemType.ChainGunPickup:
       giveAmmo(world, 6);
       giveWeapon(world, WeaponType.ChainGun);
+      sound = SoundType.PickupWeapon;
       break;
 
     // --- Treasure ---
     case StaticItemType.Cross:
       givePoints(world, 100);
       gs.treasurecount++;
+      sound = SoundType.PickupTreasure;
       break;
 
     case StaticItemType.Chalice:
       givePoints(world, 500);
       gs.treasurecount++;
+      sound = SoundType.PickupTreasure;
       break;
 
     case StaticItemType.Chest:
       givePoints(world, 1000);
       gs.treasurecount++;
+      sound = SoundType.PickupTreasure;
       break;
 
     case StaticItemType.Crown:
       givePoints(world, 5000);
       gs.treasurecount++;
+      sound = SoundType.PickupTreasure;
       break;
 
     // --- Extra life ---
@@ -1089,21 +1043,26 @@ export function pickupItem(world: WorldState, item: StaticObj): boolean {
       gs.lives++;
       gs.health = 100;
       giveAmmo(world, 25);
+      sound = SoundType.ExtraLife;
       break;
 
     // --- Keys ---
     case StaticItemType.GoldKey:
       giveKey(world, 0); // bit 0
+      sound = SoundType.PickupKey;
       break;
 
     case StaticItemType.SilverKey:
       giveKey(world, 1); // bit 1
+      sound = SoundType.PickupKey;
       break;
 
     default:
       return false; // not a pickup item
   }
 
+  playSound(sound);
+
   // Remove the item from the world
   item.shapenum = -1; // mark as removed
   item.itemnumber = StaticItemType.None;
@@ -0,0 +1,543 @@
+/**
+ * Wolfenstein 3D TypeScript Port - Enemy Projectiles
+ * Ported from T_Projectile / ProjectileTryMove / A_Smoke in WL_ACT2.C
+ *
+ * Syringes, fireballs, rockets, heat-seeking rockets and sparks are actors
+ * that fly at any angle, can't be shot and don't block movement. Each class
+ * has its own speed and damage; on impact a projectile turns into an inert
+ * puff or explosion that can splash the player.
+ */
+
+import {
+  MAPSIZE,
+  TILEGLOBAL,
+  TILESHIFT,
+  ClassType,
+  ActiveType,
+  DirType,
+  tileIndex,
+} from "../core/types";
+import type { Actor, StateType } from "../core/types";
+import { sintable, costable, fixedByFrac } from "../core/math";
+import type { WorldState } from "./actors";
+import { spawnActor, removeActor, isPushWallAt } from "./actors";
+import { getActiveWorld, checkLine } from "./ai";
+import { rollDice } from "./enemyDefs";
+import { takeDamage } from "./player";
+import type { Dice } from "./enemyDefs";
+import { registerStates } from "./stateRegistry";
+
+// ============================================================
+// Constants
+// ============================================================
+
+/** Half-width of a projectile for wall collisions */
+const PROJSIZE = 0x2000;
+
+/** A projectile this close to the player (on both axes) hits them */
+const PROJECTILESIZE = 0xc000;
+
+// ============================================================
+// Flight States
+// ============================================================
+
+const fly = (ob: Actor): void => T_Projectile(getActiveWorld(), ob);
+const smoke = (ob: Actor): void => A_Smoke(getActiveWorld(), ob);
+const vanish = (ob: Actor): void => removeActor(getActiveWorld(), ob);
+
+export const s_needle1: StateType = {
+  rotate: false,
+  shapenum: 800,
+  tictime: 6,
+  think: fly,
+  action: null,
+  next: null!,
+};
+
+export const s_needle2: StateType = {
+  rotate: false,
+  shapenum: 801,
+  tictime: 6,
+  think: fly,
+  action: null,
+  next: null!,
+};
+
+export const s_needle3: StateType = {
+  rotate: false,
+  shapenum: 802,
+  tictime: 6,
+  think: fly,
+  action: null,
+  next: null!,
+};
+
+export const s_needle4: StateType = {
+  rotate: false,
+  shapenum: 803,
+  tictime: 6,
+  think: fly,
+  action: null,
+  next: null!,
+};
+
+// Syringes tumble end over end
+s_needle1.next = s_needle2;
+s_needle2.next = s_needle3;
+s_needle3.next = s_needle4;
+s_needle4.next = s_needle1;
+
+export const s_fire1: StateType = {
+  rotate: false,
+  shapenum: 810,
+  tictime: 6,
+  think: fly,
+  action: null,
+  next: null!,
+};
+
+export const s_fire2: StateType = {
+  rotate: false,
+  shapenum: 811,
+  tictime: 6,
+  think: fly,
+  action: null,
+  next: null!,
+};
+
+s_fire1.next = s_fire2;
+s_fire2.next = s_fire1;
+
+export const s_rocket: StateType = {
+  rotate: true,
+  shapenum: 820,
+  tictime: 3,
+  think: fly,
+  action: smoke, // leaves a trail: the action runs each time the state loops
+  next: null!,
+};
+
+s_rocket.next = s_rocket;
+
+export const s_hrocket: StateType = {
+  rotate: true,
+  shapenum: 821,
+  tictime: 3,
+  think: fly,
+  action: smoke,
+  next: null!,
+};
+
+s_hrocket.next = s_hrocket;
+
+export const s_spark1: StateType = {
+  rotate: false,
+  shapenum: 830,
+  tictime: 6,
+  think: fly,
+  action: null,
+  next: null!,
+};
+
+export const s_spark2: StateType = {
+  rotate: false,
+  shapenum: 831,
+  tictime: 6,
+  think: fly,
+  action: null,
+  next: null!,
+};
+
+export const s_spark3: StateType = {
+  rotate: false,
+  shapenum: 832,
+  tictime: 6,
+  think: fly,
+  action: null,
+  next: null!,
+};
+
+export const s_spark4: StateType = {
+  rotate: false,
+  shapenum: 833,
+  tictime: 6,
+  think: fly,
+  action: null,
+  next: null!,
+};
+
+s_spark1.next = s_spark2;
+s_spark2.next = s_spark3;
+s_spark3.next = s_spark4;
+s_spark4.next = s_spark1;
+
+// ============================================================
+// Impact States (inert actors that remove themselves)
+// ============================================================
+
+/** Final state of every impact animation: removes the actor. */
+export const s_vanish: StateType = {
+  rotate: false,
+  shapenum: 0,
+  tictime: 0,
+  think: vanish,
+  action: null,
+  next: null!,
+};
+
+s_vanish.next = s_vanish;
+
+export const s_smoke1: StateType = {
+  rotate: false,
+  shapenum: 840,
+  tictime: 3,
+  think: null,
+  action: null,
+  next: null!,
+};
+
+export const s_smoke2: StateType = {
+  rotate: false,
+  shapenum: 841,
+  tictime: 3,
+  think: null,
+  action: null,
+  next: null!,
+};
+
+export const s_smoke3: StateType = {
+  rotate: false,
+  shapenum: 842,
+  tictime: 3,
+  think: null,
+  action: null,
+  next: null!,
+};
+
+export const s_smoke4: StateType = {
+  rotate: false,
+  shapenum: 843,
+  tictime: 3,
+  think: null,
+  action: null,
+  next: null!,
+};
+
+s_smoke1.next = s_smoke2;
+s_smoke2.next = s_smoke3;
+s_smoke3.next = s_smoke4;
+s_smoke4.next = s_vanish;
+
+export const s_boom1: StateType = {
+  rotate: false,
+  shapenum: 850,
+  tictime: 6,
+  think: null,
+  action: null,
+  next: null!,
+};
+
+export const s_boom2: StateType = {
+  rotate: false,
+  shapenum: 851,
+  tictime: 6,
+  think: null,
+  action: null,
+  next: null!,
+};
+
+export const s_boom3: StateType = {
+  rotate: false,
+  shapenum: 852,
+  tictime: 6,
+  think: null,
+  action: null,
+  next: null!,
+};
+
+s_boom1.next = s_boom2;
+s_boom2.next = s_boom3;
+s_boom3.next = s_vanish;
+
+export const s_puff1: StateType = {
+  rotate: false,
+  shapenum: 860,
+  tictime: 5,
+  think: null,
+  action: null,
+  next: null!,
+};
+
+export const s_puff2: StateType = {
+  rotate: false,
+  shapenum: 861,
+  tictime: 5,
+  think: null,
+  action: null,
+  next: null!,
+};
+
+s_puff1.next = s_puff2;
+s_puff2.next = s_vanish;
+
+registerStates({
+  s_needle1,
+  s_needle2,
+  s_needle3,
+  s_needle4,
+  s_fire1,
+  s_fire2,
+  s_rocket,
+  s_hrocket,
+  s_spark1,
+  s_spark2,
+  s_spark3,
+  s_spark4,
+  s_vanish,
+  s_smoke1,
+  s_smoke2,
+  s_smoke3,
+  s_smoke4,
+  s_boom1,
+  s_boom2,
+  s_boom3,
+  s_puff1,
+  s_puff2,
+});
+
+// ============================================================
+// Projectile Classes
+// ============================================================
+
+export interface ProjectileInfo {
+  /** First flight state */
+  state: StateType;
+  /** Global units per tic */
+  speed: number;
+  /** Damage of a direct hit */
+  damage: Dice;
+  /** Splash damage at the point of impact, falling off to 0 at splashRadius */
+  splash: number;
+  splashRadius: number;
+  /** Animation played where it hits */
+  impact: StateType;
+}
+
+/** Per-class projectile stats; damage rolls are from WL_ACT2.C. */
+export const PROJECTILES: Partial<Record<ClassType, ProjectileInfo>> = {
+  [ClassType.Needle]: {
+    state: s_needle1,
+    speed: 0x2000,
+    damage: { count: 1, sides: 32, bonus: 19 }, // 20-51
+    splash: 0,
+    splashRadius: 0,
+    impact: s_puff1,
+  },
+  [ClassType.Fire]: {
+    state: s_fire1,
+    speed: 0x1200,
+    damage: { count: 1, sides: 32, bonus: -1 }, // 0-31
+    splash: 0,
+    splashRadius: 0,
+    impact: s_puff1,
+  },
+  [ClassType.Rocket]: {
+    state: s_rocket,
+    speed: 0x2000,
+    damage: { count: 1, sides: 32, bonus: 29 }, // 30-61
+    splash: 24,
+    splashRadius: TILEGLOBAL + (TILEGLOBAL >> 1),
+    impact: s_boom1,
+  },
+  [ClassType.HRocket]: {
+    state: s_hrocket,
+    speed: 0x2000,
+    damage: { count: 1, sides: 32, bonus: 29 }, // 30-61
+    splash: 24,
+    splashRadius: TILEGLOBAL + (TILEGLOBAL >> 1),
+    impact: s_boom1,
+  },
+  [ClassType.Spark]: {
+    state: s_spark1,
+    speed: 0x2000,
+    damage: { count: 1, sides: 32, bonus: 29 }, // 30-61
+    splash: 8,
+    splashRadius: TILEGLOBAL,
+    impact: s_puff1,
+  },
+};
+
+/**
+ * States reached only by spawning, for state graph validation.
+ */
+export function getProjectileEntryStates(): StateType[] {
+  const entries = [s_smoke1];
+  for (const info of Object.values(PROJECTILES)) {
+    entries.push(info.state, info.impact);
+  }
+  return entries;
+}
+
+// ============================================================
+// Spawning
+// ============================================================
+
+/**
+ * Launch a projectile from an actor straight at the player. Returns null if
+ * the actor pool is full.
+ */
+export function spawnProjectile(
+  world: WorldState,
+  owner: Actor,
+  obclass: ClassType,
+): Actor | null {
+  const info = PROJECTILES[obclass];
+  if (!info) return null;
+
+  const angle = Math.atan2(owner.y - world.player.y, world.player.x - owner.x);
+  const degrees = Math.round((angle * 180) / Math.PI);
+
+  const proj = spawnInert(world, owner.x, owner.y, obclass, info.state);
+  if (!proj) return null;
+  proj.angle = (degrees + 360) % 360;
+  proj.speed = info.speed;
+  return proj;
+}
+
+/**
+ * Spawn a non-blocking, unshootable actor at a global position. The tile it
+ * starts on keeps whatever actor already occupies it.
+ */
+function spawnInert(
+  world: WorldState,
+  x: number,
+  y: number,
+  obclass: ClassType,
+  state: StateType,
+): Actor | null {
+  const tilex = x >> TILESHIFT;
+  const tiley = y >> TILESHIFT;
+  const idx = tileIndex(tilex, tiley);
+  const occupant = world.actorat[idx];
+  const actor = spawnActor(world, obclass, tilex, tiley, DirType.NoDir);
+  world.actorat[idx] = occupant;
+  if (!actor) return null;
+
+  actor.x = x;
+  actor.y = y;
+  actor.flags = 0;
+  actor.active = ActiveType.Yes;
+  actor.speed = 0;
+  actor.state = state;
+  actor.ticcount = state.tictime;
+  return actor;
+}
+
+// ============================================================
+// Flight
+// ============================================================
+
+/**
+ * Is the point blocked for a projectile? Walls, doors that aren't open and a
+ * sliding pushwall all stop it.
+ */
+function projectileBlockedAt(world: WorldState, x: number, y: number): boolean {
+  const tilex = x >> TILESHIFT;
+  const tiley = y >> TILESHIFT;
+  if (tilex < 0 || tilex >= MAPSIZE || tiley < 0 || tiley >= MAPSIZE) {
+    return true;
+  }
+
+  const tile = world.tilemap[tileIndex(tilex, tiley)];
+  if (tile > 0 && tile < 128) return true;
+  if (tile >= 128) {
+    const doorIdx = tile - 128;
+    if (doorIdx >= world.lastdoor) return true;
+    return world.doorobjlist[doorIdx].position < 0.75;
+  }
+  return isPushWallAt(world, x, y);
+}
+
+/**
+ * ProjectileTryMove: check the corners of the projectile's box.
+ */
+function projectileTryMove(world: WorldState, ob: Actor): boolean {
+  return (
+    !projectileBlockedAt(world, ob.x - PROJSIZE, ob.y - PROJSIZE) &&
+    !projectileBlockedAt(world, ob.x + PROJSIZE, ob.y - PROJSIZE) &&
+    !projectileBlockedAt(world, ob.x - PROJSIZE, ob.y + PROJSIZE) &&
+    !projectileBlockedAt(world, ob.x + PROJSIZE, ob.y + PROJSIZE)
+  );
+}
+
+/**
+ * Turn a projectile into its impact animation, splashing the player if it
+ * blew up close by and in the open.
+ */
+function explode(
+  world: WorldState,
+  ob: Actor,
+  info: ProjectileInfo,
+  splash: boolean,
+): void {
+  if (splash && info.splash > 0) {
+    const dx = world.player.x - ob.x;
+    const dy = world.player.y - ob.y;
+    const dist = Math.sqrt(dx * dx + dy * dy);
+    if (
+      dist < info.splashRadius &&
+      checkLine(world, ob.x, ob.y, world.player.x, world.player.y)
+    ) {
+      takeDamage(
+        world,
+        Math.ceil(info.splash * (1 - dist / info.splashRadius)),
+        ob,
+      );
+    }
+  }
+
+  ob.obclass = ClassType.Inert;
+  ob.speed = 0;
+  ob.state = info.impact;
+  ob.ticcount = info.impact.tictime;
+}
+
+/**
+ * T_Projectile: Fly one tic along the projectile's angle, exploding against
+ * walls, doors, pushwalls or the player.
+ */
+export function T_Projectile(world: WorldState, ob: Actor): void {
+  const info = PROJECTILES[ob.obclass];
+  if (!info) return;
+
+  const oldx = ob.x;
+  const oldy = ob.y;
+  ob.x += fixedByFrac(ob.speed, costable[ob.angle]);
+  ob.y -= fixedByFrac(ob.speed, sintable[ob.angle]);
+
+  if (!projectileTryMove(world, ob)) {
+    // Back up so the impact is drawn in front of the wall, not inside it
+    ob.x = oldx;
+    ob.y = oldy;
+    explode(world, ob, info, true);
+    return;
+  }
+
+  ob.tilex = ob.x >> TILESHIFT;
+  ob.tiley = ob.y >> TILESHIFT;
+
+  // Direct hit on the player
+  const dx = Math.abs(ob.x - world.player.x);
+  const dy = Math.abs(ob.y - world.player.y);
+  if (dx < PROJECTILESIZE && dy < PROJECTILESIZE) {
+    takeDamage(world, rollDice(info.damage), ob);
+    explode(world, ob, info, false);
+  }
+}
+
+/**
+ * A_Smoke: Rockets leave a puff of smoke behind them.
+ */
+export function A_Smoke(world: WorldState, ob: Actor): void {
+  spawnInert(world, ob.x, ob.y, ClassType.Inert, s_smoke1);
+}
@@ -0,0 +1,337 @@
+/**
+ * Wolfenstein 3D TypeScript Port - Save Games
+ * Ported from SaveTheGame / LoadTheGame in WL_MAIN.C
+ *
+ * Serializes the complete WorldState (tilemap, actors, statics, doors,
+ * pushwall, area connectivity, GameState) plus the run seed and RNG position
+ * into a versioned JSON blob, and stores blobs in numbered localStorage slots
+ * together with a small screenshot thumbnail.
+ *
+ * Actor.state references are written as registered state names (see
+ * stateRegistry.ts) since the state objects themselves hold closures.
+ */
+
+import {
+  GAME_VERSION,
+  MAPSIZE,
+  MAXACTORS,
+  MAXDOORS,
+  MAXSTATS,
+  SCREENWIDTH,
+  SCREENHEIGHT,
+  createActor,
+  createStaticObj,
+  createDoorObj,
+} from "../core/types";
+import type {
+  Actor,
+  StaticObj,
+  DoorObj,
+  GameState,
+  ExitType,
+  DirType,
+} from "../core/types";
+import type { WorldState } from "./actors";
+import { getStateName, getStateByName, describeActor } from "./stateRegistry";
+import type { SeedMode } from "./highscores";
+
+// ============================================================
+// Format
+// ============================================================
+
+/**
+ * Bump whenever SaveGame's shape changes incompatibly. Version 2 added the
+ * areamap, which version 1 saves can't be loaded without.
+ */
+export const SAVE_VERSION = 2;
+
+/** Number of save slots offered by the save/load menus. */
+export const NUM_SAVE_SLOTS = 6;
+
+/** Thumbnail size: the 320x200 screen downsampled by 4. */
+export const THUMB_WIDTH = SCREENWIDTH / 4;
+export const THUMB_HEIGHT = SCREENHEIGHT / 4;
+
+const SLOT_KEY_PREFIX = "wolf3d-ts.save.";
+
+type SavedActor = Omit<Actor, "state"> & { state: string | null };
+
+interface SavedWorld {
+  tilemap: string; // base64
+  spotvis: string; // base64
+  /** [tile index, objlist index] for every occupied actorat cell */
+  actorat: [number, number][];
+  objlist: SavedActor[]; // 0..lastobj
+  lastobj: number;
+  statobjlist: StaticObj[]; // 0..laststat
+  laststat: number;
+  doorobjlist: DoorObj[]; // 0..lastdoor
+  lastdoor: number;
+  doorposition: number[];
+  areamap: string; // base64
+  areaconnect: boolean[][];
+  areabyplayer: boolean[];
+  gamestate: GameState;
+  madenoise: boolean;
+  playstate: ExitType;
+  pwallstate: number;
+  pwallpos: number;
+  pwalldir: DirType;
+  pwalltile: { x: number; y: number };
+}
+
+export interface SaveGame {
+  version: number;
+  gameVersion: string;
+  /** ISO timestamp of when the game was saved */
+  savedAt: string;
+  /** Run seed (level N is generated from seed + N) */
+  seed: number;
+  /** RNG position at save time, so the run continues identically */
+  rngState: number;
+  /** How the run's seed was chosen; older saves rank as chosen seeds */
+  seedMode?: SeedMode;
+  /** YYYY-MM-DD, for a daily run */
+  dailyDate?: string;
+  /** Mod packs active when saved, in order; older saves had none */
+  mods?: string[];
+  /** THUMB_WIDTH x THUMB_HEIGHT ABGR pixels, base64 (empty if none) */
+  thumbnail: string;
+  world: SavedWorld;
+}
+
+/** Summary of a slot for the save/load menus. */
+export interface SaveSlotInfo {
+  slot: number;
+  savedAt: string;
+  mapon: number;
+  score: number;
+  difficulty: number;
+  thumbnail: Uint32Array | null;
+}
+
+// ============================================================
+// Base64 helpers
+// ============================================================
+
+export function bytesToBase64(bytes: Uint8Array): string {
+  let bin = "";
+  for (let i = 0; i < bytes.length; i++) bin += String.fromCharCode(bytes[i]);
+  return btoa(bin);
+}
+
+export function base64ToBytes(str: string): Uint8Array {
+  const bin = atob(str);
+  const bytes = new Uint8Array(bin.length);
+  for (let i = 0; i < bin.length; i++) bytes[i] = bin.charCodeAt(i);
+  return bytes;
+}
+
+// ============================================================
+// World Serialization
+// ============================================================
+
+/**
+ * Snapshot a world into a SaveGame. Throws if an actor is in a state that was
+ * never registered, since it could not be restored.
+ */
+export function serializeWorld(
+  world: WorldState,
+  seed: number,
+  rngState: number,
+  screen?: Uint32Array,
+): SaveGame {
+  const objlist: SavedActor[] = [];
+  for (let i = 0; i <= world.lastobj; i++) {
+    const actor = world.objlist[i];
+    let state: string | null = null;
+    if (actor.state) {
+      const name = getStateName(actor.state);
+      if (!name) throw new Error(`Can't save ${describeActor(actor, i)}`);
+      state = name;
+    }
+    objlist.push({ ...actor, state });
+  }
+
+  const actorat: [number, number][] = [];
+  for (let i = 0; i < world.actorat.length; i++) {
+    const actor = world.actorat[i];
+    if (actor) actorat.push([i, world.objlist.indexOf(actor)]);
+  }
+
+  return {
+    version: SAVE_VERSION,
+    gameVersion: GAME_VERSION,
+    savedAt: new Date().toISOString(),
+    seed,
+    rngState,
+    thumbnail: screen ? makeThumbnail(screen) : "",
+    world: {
+      tilemap: bytesToBase64(world.tilemap),
+      spotvis: bytesToBase64(world.spotvis),
+      actorat,
+      objlist,
+      lastobj: world.lastobj,
+      statobjlist: world.statobjlist
+        .slice(0, world.laststat + 1)
+        .map((s) => ({ ...s })),
+      laststat: world.laststat,
+      doorobjlist: world.doorobjlist
+        .slice(0, world.lastdoor + 1)
+        .map((d) => ({ ...d })),
+      lastdoor: world.lastdoor,
+      doorposition: world.doorposition.slice(),
+      areamap: bytesToBase64(world.areamap),
+      areaconnect: world.areaconnect.map((row) => row.slice()),
+      areabyplayer: world.areabyplayer.slice(),
+      gamestate: { ...world.gamestate },
+      madenoise: world.madenoise,
+      playstate: world.playstate,
+      pwallstate: world.pwallstate,
+      pwallpos: world.pwallpos,
+      pwalldir: world.pwalldir,
+      pwalltile: { ...world.pwalltile },
+    },
+  };
+}
+
+/**
+ * Restore a SaveGame into an existing world, reusing its object pools so
+ * references such as world.player stay valid. Throws on a version mismatch or
+ * an unknown state name.
+ */
+export function deserializeWorld(save: SaveGame, world: WorldState): void {
+  if (save.version !== SAVE_VERSION) {
+    throw new Error(
+      `Save format version ${save.version} is not supported (expected ${SAVE_VERSION})`,
+    );
+  }
+  const data = save.world;
+  const size = MAPSIZE * MAPSIZE;
+
+  world.tilemap.set(base64ToBytes(data.tilemap).subarray(0, size));
+  world.spotvis.set(base64ToBytes(data.spotvis).subarray(0, size));
+
+  // -- Actors --
+  for (let i = 0; i < MAXACTORS; i++) {
+    const saved = data.objlist[i];
+    if (!saved) {
+      Object.assign(world.objlist[i], createActor());
+      continue;
+    }
+    let state = null;
+    if (saved.state !== null) {
+      state = getStateByName(saved.state);
+      if (!state) throw new Error(`Save references unknown state "${saved.state}"`);
+    }
+    Object.assign(world.objlist[i], saved, { state });
+  }
+  world.lastobj = data.lastobj;
+
+  world.actorat.fill(null);
+  for (const [tile, index] of data.actorat) {
+    if (index >= 0) world.actorat[tile] = world.objlist[index];
+  }
+
+  // -- Statics --
+  for (let i = 0; i < MAXSTATS; i++) {
+    Object.assign(world.statobjlist[i], data.statobjlist[i] ?? createStaticObj());
+  }
+  world.laststat = data.laststat;
+
+  // -- Doors --
+  for (let i = 0; i < MAXDOORS; i++) {
+    Object.assign(world.doorobjlist[i], data.doorobjlist[i] ?? createDoorObj());
+    world.doorposition[i] = data.doorposition[i] ?? 0;
+  }
+  world.lastdoor = data.lastdoor;
+
+  // -- Areas --
+  world.areamap.set(base64ToBytes(data.areamap).subarray(0, size));
+  for (let a = 0; a < world.areaconnect.length; a++) {
+    for (let b = 0; b < world.areaconnect[a].length; b++) {
+      world.areaconnect[a][b] = data.areaconnect[a]?.[b] ?? false;
+    }
+    world.areabyplayer[a] = data.areabyplayer[a] ?? false;
+  }
+
+  // -- Game & play state --
+  Object.assign(world.gamestate, data.gamestate);
+  world.madenoise = data.madenoise;
+  world.playstate = data.playstate;
+  world.pwallstate = data.pwallstate;
+  world.pwallpos = data.pwallpos;
+  world.pwalldir = data.pwalldir;
+  world.pwalltile = { ...data.pwalltile };
+}
+
+// ============================================================
+// Thumbnails
+// ============================================================
+
+function makeThumbnail(screen: Uint32Array): string {
+  const thumb = new Uint32Array(THUMB_WIDTH * THUMB_HEIGHT);
+  for (let y = 0; y < THUMB_HEIGHT; y++) {
+    for (let x = 0; x < THUMB_WIDTH; x++) {
+      thumb[y * THUMB_WIDTH + x] = screen[y * 4 * SCREENWIDTH + x * 4];
+    }
+  }
+  return bytesToBase64(new Uint8Array(thumb.buffer));
+}
+
+function readThumbnail(data: string): Uint32Array | null {
+  if (!data) return null;
+  const bytes = base64ToBytes(data);
+  if (bytes.length !== THUMB_WIDTH * THUMB_HEIGHT * 4) return null;
+  return new Uint32Array(bytes.buffer);
+}
+
+// ============================================================
+// Slot Storage
+// ============================================================
+
+/**
+ * Write a save to a slot. Throws if storage is full or unavailable.
+ */
+export function writeSaveSlot(slot: number, save: SaveGame): void {
+  localStorage.setItem(SLOT_KEY_PREFIX + slot, JSON.stringify(save));
+}
+
+/**
+ * Read the save in a slot, or null if the slot is empty or unreadable.
+ */
+export function readSaveSlot(slot: number): SaveGame | null {
+  try {
+    const raw = localStorage.getItem(SLOT_KEY_PREFIX + slot);
+    if (!raw) return null;
+    const save = JSON.parse(raw) as SaveGame;
+    return save.version === SAVE_VERSION ? save : null;
+  } catch (err) {
+    console.warn(`Ignoring unreadable save slot ${slot}:`, err);
+    return null;
+  }
+}
+
+/**
+ * Summaries of every slot (null for empty slots), for the menus.
+ */
+export function listSaveSlots(): (SaveSlotInfo | null)[] {
+  const slots: (SaveSlotInfo | null)[] = [];
+  for (let slot = 0; slot < NUM_SAVE_SLOTS; slot++) {
+    const save = readSaveSlot(slot);
+    if (!save) {
+      slots.push(null);
+      continue;
+    }
+    const gs = save.world.gamestate;
+    slots.push({
+      slot,
+      savedAt: save.savedAt,
+      mapon: gs.mapon,
+      score: gs.score,
+      difficulty: gs.difficulty,
+      thumbnail: readThumbnail(save.thumbnail),
+    });
+  }
+  return slots;
+}
@@ -0,0 +1,114 @@
+import { describe, expect, it } from "vitest";
+import {
+  ClassType,
+  DirType,
+  FL_ATTACKMODE,
+  MAPSIZE,
+  PUSHABLETILE,
+} from "../core/types";
+import { Simulation } from "./simulation";
+import { createAttractDemo } from "./demo";
+import { damageActor } from "./ai";
+import { movePushWall, pushWall } from "./actors";
+import { getEnemyDef } from "./enemyDefs";
+
+const frames = createAttractDemo().frames;
+
+/** Where the player and every actor are, and what they are waiting on */
+function snapshot(sim: Simulation): unknown {
+  const { player, objlist, lastobj } = sim.world;
+  return [
+    player.x,
+    player.y,
+    player.angle,
+    objlist
+      .slice(0, lastobj + 1)
+      .map((a) => [a.x, a.y, a.ticcount, a.temp2, a.hitpoints]),
+  ];
+}
+
+describe("Simulation", () => {
+  it("plays the same alone as side by side with another run", () => {
+    const alone = new Simulation(1992, 1);
+    for (const frame of frames) alone.step(1, frame);
+
+    const paired = new Simulation(1992, 1);
+    const other = new Simulation(77, 3);
+    for (const frame of frames) {
+      paired.step(1, frame);
+      other.step(1, frame);
+    }
+    expect(snapshot(paired)).toEqual(snapshot(alone));
+  });
+
+  it("continues a save the same as the run it came from", () => {
+    const sim = new Simulation(42, 2);
+    for (const frame of frames.slice(0, 400)) sim.step(1, frame);
+    const restored = Simulation.fromSave(sim.save());
+    for (const frame of frames.slice(400)) {
+      sim.step(1, frame);
+      restored.step(1, frame);
+    }
+    expect(snapshot(restored)).toEqual(snapshot(sim));
+  });
+});
+
+describe("damageActor", () => {
+  function guard(sim: Simulation) {
+    const { objlist, lastobj } = sim.world;
+    const actor = objlist
+      .slice(0, lastobj + 1)
+      .find((a) => a.obclass === ClassType.Guard && a.hitpoints > 1);
+    if (!actor) throw new Error("no guard on the level");
+    return actor;
+  }
+
+  it("wakes a guard and makes it flinch", () => {
+    const sim = new Simulation(1, 1);
+    const actor = guard(sim);
+    damageActor(sim.world, actor, 1);
+    expect(actor.flags & FL_ATTACKMODE).toBeTruthy();
+    expect(actor.state).toBe(getEnemyDef(ClassType.Guard).entry.pain);
+  });
+
+  it("counts the kill and scores it once", () => {
+    const sim = new Simulation(1, 1);
+    const actor = guard(sim);
+    const { killcount, score } = sim.world.gamestate;
+    damageActor(sim.world, actor, actor.hitpoints);
+    damageActor(sim.world, actor, 1);
+    expect(actor.state).toBe(getEnemyDef(ClassType.Guard).entry.die);
+    expect(sim.world.gamestate.killcount).toBe(killcount + 1);
+    expect(sim.world.gamestate.score).toBe(score + 100);
+  });
+});
+
+describe("pushwalls", () => {
+  it("stop as plain walls that can't be pushed again", () => {
+    const sim = new Simulation(1992, 1);
+    const { world } = sim;
+    const dirs = [DirType.East, DirType.North, DirType.West, DirType.South];
+    const pushable = [...world.tilemap.keys()].filter(
+      (i) => world.tilemap[i] === PUSHABLETILE,
+    );
+    expect(world.gamestate.secrettotal).toBeGreaterThan(0);
+    expect(world.gamestate.secrettotal).toBeLessThanOrEqual(pushable.length);
+
+    const pushed = pushable.find((i) =>
+      dirs.some((dir) => {
+        pushWall(world, i % MAPSIZE, Math.floor(i / MAPSIZE), dir);
+        return world.pwallstate !== 0;
+      }),
+    );
+    expect(pushed).toBeDefined();
+    while (world.pwallstate !== 0) movePushWall(world, 1);
+
+    const { x, y } = world.pwalltile;
+    const rested = world.tilemap[y * MAPSIZE + x];
+    expect(rested).toBeGreaterThan(0);
+    expect(rested).toBeLessThan(64);
+    for (const dir of dirs) pushWall(world, x, y, dir);
+    expect(world.pwallstate).toBe(0);
+    expect(world.gamestate.secretcount).toBe(1);
+  });
+});
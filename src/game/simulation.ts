@@ -0,0 +1,213 @@
+/**
+ * Wolfenstein 3D TypeScript Port - Headless Simulation
+ * Ported from the PlayLoop / DoActor portions of WL_PLAY.C
+ *
+ * Owns a WorldState and advances it tic by tic from processed input frames.
+ * Touches no DOM, canvas or timer APIs, so it runs unchanged under Node for
+ * tests, bots and balance tools. The browser front end in main.ts drives the
+ * same object and only adds input capture and rendering on top.
+ */
+
+import { buildTables } from "../core/math";
+import {
+  getRngState,
+  setRngState,
+  createGameState,
+  STARTAMMO,
+  ExitType,
+  ActiveType,
+} from "../core/types";
+import { generateMap, generateSecretMap, getMapCount } from "../core/maps";
+import { EPISODES } from "../core/episodes";
+import {
+  createWorldState,
+  setupLevel,
+  moveDoors,
+  movePushWall,
+} from "./actors";
+import type { WorldState } from "./actors";
+import { updateActor } from "./ai";
+import { createInputState, updatePlayer, updateAttack } from "./player";
+import type { InputFrame, InputState } from "./player";
+import { serializeWorld, deserializeWorld } from "./save";
+import type { SaveGame } from "./save";
+
+// ============================================================
+// Simulation
+// ============================================================
+
+export class Simulation {
+  /** The live world. Safe to read between steps; mutated by step(). */
+  readonly world: WorldState;
+  /** Run seed: level N is generated from seed + N. */
+  readonly seed: number;
+
+  /** Persistent input state so button edge detection survives across steps. */
+  private input: InputState;
+  /**
+   * This run's position in the shared generator (rnd). It is swapped in for
+   * each step and level load and read back after, so simulations side by
+   * side don't draw from each other's stream.
+   */
+  private rngState: number;
+
+  constructor(seed: number, difficulty: number = 1, episode: number = 0) {
+    // Lookup tables are needed by movement and AI; building them is idempotent
+    buildTables();
+
+    this.seed = seed;
+    this.rngState = seed >>> 0;
+
+    this.input = createInputState();
+    this.world = createWorldState();
+    this.world.gamestate = createGameState();
+    this.world.gamestate.difficulty = difficulty;
+    this.world.gamestate.episode = episode;
+    this.world.gamestate.mapon = 0;
+
+    this.loadLevel(0);
+  }
+
+  /**
+   * Recreate a simulation from a save, continuing exactly where it left off.
+   * Throws if the save can't be restored by this build.
+   */
+  static fromSave(save: SaveGame): Simulation {
+    const sim = new Simulation(
+      save.seed,
+      save.world.gamestate.difficulty,
+      save.world.gamestate.episode,
+    );
+    deserializeWorld(save, sim.world);
+    sim.rngState = save.rngState >>> 0;
+    return sim;
+  }
+
+  /**
+   * Snapshot the run. Pass the current screen pixels to include a thumbnail.
+   */
+  save(screen?: Uint32Array): SaveGame {
+    return serializeWorld(this.world, this.seed, this.rngState, screen);
+  }
+
+  /**
+   * Generate and set up the given floor, keeping the player's gamestate.
+   * While gamestate.secretlevel is set this is the secret floor instead.
+   */
+  loadLevel(levelNum: number): void {
+    const gs = this.world.gamestate;
+    setRngState(this.rngState);
+    const map = gs.secretlevel
+      ? generateSecretMap(gs.episode, this.seed + levelNum, gs.difficulty)
+      : generateMap(gs.episode, levelNum, this.seed + levelNum, gs.difficulty);
+    setupLevel(this.world, map, gs.difficulty);
+    this.rngState = getRngState();
+  }
+
+  /**
+   * Advance to the next floor, or to the secret floor if the secret elevator
+   * was taken; leaving the secret floor continues after the floor it was
+   * reached from. Returns false if the episode's last floor was already
+   * completed (see nextEpisode).
+   */
+  nextLevel(): boolean {
+    const gs = this.world.gamestate;
+    if (this.world.playstate === ExitType.SecretLevel && !gs.secretlevel) {
+      gs.secretlevel = true;
+    } else {
+      gs.secretlevel = false;
+      gs.mapon++;
+      if (gs.mapon >= getMapCount(gs.episode)) return false;
+    }
+
+    this.loadLevel(gs.mapon);
+    this.world.playstate = ExitType.StillPlaying;
+    return true;
+  }
+
+  /**
+   * Carry the player on to the first floor of the next episode. Returns false
+   * if the last episode was already completed (the run is won).
+   */
+  nextEpisode(): boolean {
+    const gs = this.world.gamestate;
+    if (gs.episode + 1 >= EPISODES.length) return false;
+
+    gs.episode++;
+    gs.mapon = 0;
+    gs.secretlevel = false;
+    this.loadLevel(0);
+    this.world.playstate = ExitType.StillPlaying;
+    return true;
+  }
+
+  /**
+   * Respawn after death: spend a life and restart the current floor with the
+   * original's death penalties. Returns false if no lives were left.
+   */
+  restartLevel(): boolean {
+    const gs = this.world.gamestate;
+    if (gs.lives <= 0) return false;
+
+    gs.lives--;
+    gs.health = 100;
+    gs.weapon = gs.bestweapon;
+    gs.ammo = STARTAMMO;
+    gs.keys = 0;
+    gs.attackframe = 0;
+    gs.weaponframe = 0;
+    this.loadLevel(gs.mapon);
+    return true;
+  }
+
+  /**
+   * Run the given number of tics of game logic with one input frame.
+   * Returns the resulting playstate (StillPlaying until the floor ends).
+   */
+  step(tics: number, frame: InputFrame): ExitType {
+    const world = this.world;
+    const input = this.input;
+    setRngState(this.rngState);
+
+    input.controlx = frame.controlx;
+    input.controly = frame.controly;
+    input.controlstrafe = frame.controlstrafe;
+    input.buttonstate = frame.buttonstate.slice();
+
+    // Noise only lasts the tic it was made in (PlayLoop's madenoise = false)
+    world.madenoise = false;
+
+    // 1. Update player
+    updatePlayer(world, input, tics);
+
+    // 2. Update weapon animation
+    updateAttack(world, tics);
+
+    // 3. Update enemies: awake ones, and dormant ones in areas connected to
+    // the player's so they can notice the player (DoActor)
+    for (let i = 1; i <= world.lastobj; i++) {
+      const actor = world.objlist[i];
+      if (
+        actor &&
+        (actor.active !== ActiveType.No || world.areabyplayer[actor.areanumber])
+      ) {
+        updateActor(world, actor, tics, world.player.angle);
+      }
+    }
+
+    // 4. Update doors
+    moveDoors(world, tics);
+
+    // 5. Update pushwalls
+    movePushWall(world, tics);
+
+    // 6. Face frame reset (simplified: revert hurt face after a short delay)
+    // Real Wolf3D uses a dedicated timer; here we just let it show for one frame.
+    if (world.gamestate.faceframe === 1 && world.gamestate.health > 0) {
+      world.gamestate.faceframe = 0;
+    }
+
+    this.rngState = getRngState();
+    return world.playstate;
+  }
+}
@@ -0,0 +1,134 @@
+/**
+ * Wolfenstein 3D TypeScript Port - Sound Events
+ * Stands in for SD_PlaySound in ID_SD.C, with SetSoundLoc and
+ * PlaySoundLocGlobal from WL_MAIN.C for sounds that come from a place
+ *
+ * Game code announces what should be heard; it never touches audio itself,
+ * so the Simulation stays silent and deterministic under Node. The browser
+ * front end registers a listener that synthesizes and plays each sound (see
+ * engine/sfx.ts and engine/audio.ts).
+ */
+
+import { ANGLES, TILEGLOBAL } from "../core/types";
+import type { Actor } from "../core/types";
+import type { WorldState } from "./actors";
+
+// ============================================================
+// Sounds
+// ============================================================
+
+export enum SoundType {
+  Knife,
+  Pistol,
+  MachineGun,
+  ChainGun,
+  DoorOpen,
+  DoorClose,
+  PushWall,
+  PickupHealth,
+  PickupAmmo,
+  PickupWeapon,
+  PickupTreasure,
+  PickupKey,
+  ExtraLife,
+  /** An enemy spots the player; voiced per archetype */
+  EnemyAlert,
+  /** An enemy is killed; voiced per archetype */
+  EnemyDeath,
+  PlayerPain,
+  /** An enemy fires its gun; the gun depends on the archetype */
+  EnemyFire,
+  /** A dog bites or a spectre strikes; voiced per archetype */
+  EnemyBite,
+}
+
+export interface SoundEvent {
+  sound: SoundType;
+  /** Enemy archetype (enemies.json key) voicing an alert or death */
+  voice?: string;
+  /** Stereo position, -1 (left) to 1 (right); centered if omitted */
+  pan?: number;
+  /** Loudness 0-1 after distance falloff; full if omitted */
+  volume?: number;
+  /** Heard through a wall: the emitter's area isn't connected to the player's */
+  muffled?: boolean;
+}
+
+export type SoundListener = (event: SoundEvent) => void;
+
+// ============================================================
+// Dispatch
+// ============================================================
+
+let _listener: SoundListener | null = null;
+
+/**
+ * Route sound events to a player, or pass null to go silent (the default).
+ */
+export function setSoundListener(listener: SoundListener | null): void {
+  _listener = listener;
+}
+
+/**
+ * Announce a sound. Does nothing unless a listener is registered.
+ */
+export function playSound(sound: SoundType, voice?: string): void {
+  if (_listener) _listener({ sound, voice });
+}
+
+// ============================================================
+// Positional Sounds
+// ============================================================
+
+/** Tiles away at which a sound fades out completely. */
+const HEARING_DISTANCE = 20;
+
+/** Volume kept by a sound from an area the player isn't connected to. */
+const MUFFLED_VOLUME = 0.4;
+
+/**
+ * Announce a sound made at global coordinates (x, y) in an area. Pan and
+ * volume come from where it is relative to the player's position and facing;
+ * sounds from areas not connected to the player's through open doors are
+ * muffled. Sounds too far away to hear are dropped.
+ */
+export function playSoundAt(
+  world: WorldState,
+  sound: SoundType,
+  x: number,
+  y: number,
+  area: number,
+  voice?: string,
+): void {
+  if (!_listener) return;
+
+  const player = world.player;
+  const dx = (x - player.x) / TILEGLOBAL;
+  const dy = (y - player.y) / TILEGLOBAL;
+  const dist = Math.sqrt(dx * dx + dy * dy);
+
+  let volume = 1 - dist / HEARING_DISTANCE;
+  const muffled = !world.areabyplayer[area];
+  if (muffled) volume *= MUFFLED_VOLUME;
+  if (volume <= 0) return;
+
+  // Map y runs south, so the player's right is (sin, cos) of their angle.
+  // Sounds within a tile are close enough to come from everywhere at once.
+  const angle = (player.angle * 2 * Math.PI) / ANGLES;
+  const right = dx * Math.sin(angle) + dy * Math.cos(angle);
+  const pan = dist > 0 ? (right / dist) * Math.min(1, dist) : 0;
+
+  _listener({ sound, voice, pan, volume, muffled });
+}
+
+/**
+ * Announce a sound made by an actor, from where it stands.
+ */
+export function playActorSound(
+  world: WorldState,
+  sound: SoundType,
+  actor: Actor,
+  voice?: string,
+): void {
+  playSoundAt(world, sound, actor.x, actor.y, actor.areanumber, voice);
+}
@@ -0,0 +1,181 @@
+/**
+ * Wolfenstein 3D TypeScript Port - StateType Registry & Validation
+ *
+ * Every StateType is registered here under its source name
+ * (e.g. "s_guard_chase1") and given a unique numeric id. State objects hold
+ * closures, so saves store the name instead of the object, and debug output
+ * can say "guard #12 in s_guard_pain" instead of dumping an object.
+ *
+ * validateStates() checks the state graph for mistakes that would otherwise
+ * only show up as a frozen or vanished enemy at runtime.
+ */
+
+import { ClassType } from "../core/types";
+import type { Actor, StateType } from "../core/types";
+
+// ============================================================
+// Registry
+// ============================================================
+
+const _statesByName = new Map<string, StateType>();
+const _statesById: StateType[] = [];
+
+/**
+ * Register a batch of states under their keys, assigning each an id.
+ * Names must be unique and a state may only be registered once.
+ */
+export function registerStates(states: Record<string, StateType>): void {
+  for (const [name, state] of Object.entries(states)) {
+    if (_statesByName.has(name)) {
+      throw new Error(`State "${name}" is already registered`);
+    }
+    if (state.id !== undefined) {
+      throw new Error(
+        `State "${name}" is already registered as "${state.name}"`,
+      );
+    }
+    state.id = _statesById.length;
+    state.name = name;
+    _statesById.push(state);
+    _statesByName.set(name, state);
+  }
+}
+
+/**
+ * Stable name of a registered state, or undefined for unregistered states.
+ */
+export function getStateName(state: StateType): string | undefined {
+  return state.name;
+}
+
+/**
+ * Look up a registered state by name.
+ */
+export function getStateByName(name: string): StateType | undefined {
+  return _statesByName.get(name);
+}
+
+/**
+ * Look up a registered state by id.
+ */
+export function getStateById(id: number): StateType | undefined {
+  return _statesById[id];
+}
+
+/**
+ * All registered states, in id order.
+ */
+export function getAllStates(): readonly StateType[] {
+  return _statesById;
+}
+
+/**
+ * Short human-readable description of an actor, e.g. "guard #12 in s_guard_pain".
+ */
+export function describeActor(actor: Actor, index: number): string {
+  const cls = (ClassType[actor.obclass] ?? "actor").toLowerCase();
+  const where = actor.state
+    ? (actor.state.name ?? "an unregistered state")
+    : "no state";
+  return `${cls} #${index} in ${where}`;
+}
+
+// ============================================================
+// Validation
+// ============================================================
+
+export type StateIssueKind =
+  | "unregistered" // reachable through next pointers but never registered
+  | "unreachable" // registered but no entry state leads to it
+  | "thinkless-cycle" // timed loop with no think function to ever leave it
+  | "zero-tic-loop"; // loop of zero-tic states that can never advance
+
+export interface StateIssue {
+  kind: StateIssueKind;
+  /** Name of the offending state (or the first state of the loop) */
+  state: string;
+  message: string;
+}
+
+function label(state: StateType): string {
+  return state.name ?? `<unregistered shapenum ${state.shapenum}>`;
+}
+
+/**
+ * Check the registered state graph.
+ *
+ * @param entries - States the code assigns directly (spawn, chase, pain,
+ *   death...). Anything not reachable from these via next is unreachable.
+ */
+export function validateStates(entries: Iterable<StateType>): StateIssue[] {
+  const issues: StateIssue[] = [];
+
+  // -- Reachability (and unregistered states found along the way) --
+  const reached = new Set<StateType>();
+  const stack = [...entries];
+  while (stack.length > 0) {
+    const state = stack.pop()!;
+    if (reached.has(state)) continue;
+    reached.add(state);
+    if (state.id === undefined) {
+      issues.push({
+        kind: "unregistered",
+        state: label(state),
+        message: `${label(state)} is reachable but was never registered`,
+      });
+    }
+    if (state.next) stack.push(state.next);
+  }
+
+  for (const state of _statesById) {
+    if (!reached.has(state)) {
+      issues.push({
+        kind: "unreachable",
+        state: label(state),
+        message: `${label(state)} can't be reached from any entry state`,
+      });
+    }
+  }
+
+  // -- Cycles: each state has one next, so follow chains to find loops --
+  const all = new Set<StateType>([..._statesById, ...reached]);
+  const seenInCycle = new Set<StateType>();
+  for (const start of all) {
+    if (seenInCycle.has(start)) continue;
+
+    // Walk until we revisit a state from this walk or fall off the end
+    const path: StateType[] = [];
+    const onPath = new Set<StateType>();
+    let cur: StateType | null = start;
+    while (cur && !onPath.has(cur) && !seenInCycle.has(cur)) {
+      onPath.add(cur);
+      path.push(cur);
+      cur = cur.next;
+    }
+    if (!cur || !onPath.has(cur)) continue;
+
+    const cycle = path.slice(path.indexOf(cur));
+    for (const s of cycle) seenInCycle.add(s);
+
+    // A single zero-tic state looping to itself is a resting state (standing
+    // guard, corpse): updateActor parks on it, so it is fine.
+    const zeroTic = cycle.filter((s) => s.tictime === 0);
+    if (zeroTic.length === cycle.length && cycle.length > 1) {
+      issues.push({
+        kind: "zero-tic-loop",
+        state: label(cycle[0]),
+        message: `${cycle.map(label).join(" -> ")} loops without any tics`,
+      });
+      continue;
+    }
+    if (zeroTic.length === 0 && !cycle.some((s) => s.think)) {
+      issues.push({
+        kind: "thinkless-cycle",
+        state: label(cycle[0]),
+        message: `${cycle.map(label).join(" -> ")} loops forever with no think function`,
+      });
+    }
+  }
+
+  return issues;
+}
@@ -2,51 +2,91 @@
  * Wolfenstein 3D TypeScript Port - Main Entry Point
  *
  * Initializes the game, manages the screen state machine (title, game, death,
- * level-complete, victory), runs the main requestAnimationFrame loop, and
- * coordinates all subsystems: renderer, player, AI, doors, HUD.
+ * level-complete, victory, demo, save/load menus, episode and difficulty
+ * pickers, high score name entry and table), runs the main
+ * requestAnimationFrame loop, and coordinates all subsystems: renderer,
+ * audio, player, AI, doors, HUD, mod packs.
  */
 
 import { buildTables, sintable, costable } from "./core/math";
 import {
-  setSeed,
-  getSeed,
-  createGameState,
   SCREENWIDTH,
   SCREENHEIGHT,
-  VIEWWIDTH,
-  VIEWHEIGHT,
-  STARTAMMO,
-  WeaponType,
+  ANGLES,
   ExitType,
-  ActiveType,
-  ClassType,
+  GAME_VERSION,
+  GD_MEDIUM,
+  NUM_DIFFICULTIES,
 } from "./core/types";
+import { EPISODES } from "./core/episodes";
+import { setFloorOverrides } from "./core/maps";
 import { Renderer, RenderState } from "./engine/renderer";
-import { loadAllAssets } from "./engine/assetLoader";
+import { AudioPlayer } from "./engine/audio";
 import {
-  createWorldState,
-  setupLevel,
-  moveDoors,
-  movePushWall,
-} from "./game/actors";
-import type { WorldState } from "./game/actors";
-import { updateActor } from "./game/ai";
+  MusicManager,
+  TITLE_MUSIC,
+  INTERMISSION_MUSIC,
+  VICTORY_MUSIC,
+} from "./engine/music";
+import { loadAllAssets, loadVswapAssets } from "./engine/assetLoader";
+import type { AssetManifest } from "./engine/assetLoader";
 import {
-  createInputState,
-  setupInput,
-  pollControls,
-  updatePlayer,
-  updateAttack,
-} from "./game/player";
+  readZipPack,
+  readFolderPack,
+  readDroppedPack,
+  openModPack,
+  storeModPack,
+  deleteModPack,
+  loadStoredModPacks,
+} from "./engine/modPack";
+import type { ModPack } from "./engine/modPack";
+import type { WorldState } from "./game/actors";
+import { createInputState, setupInput, pollControls } from "./game/player";
 import type { InputState } from "./game/player";
+import { Simulation } from "./game/simulation";
+import { setSoundListener } from "./game/sound";
+import { validateAiStates } from "./game/ai";
+import {
+  createDemo,
+  recordDemoFrame,
+  encodeDemo,
+  decodeDemo,
+  createAttractDemo,
+} from "./game/demo";
+import type { Demo } from "./game/demo";
+import { tallyLevel } from "./game/intermission";
+import type { LevelTally } from "./game/intermission";
+import {
+  NUM_SAVE_SLOTS,
+  writeSaveSlot,
+  readSaveSlot,
+  listSaveSlots,
+  bytesToBase64,
+  base64ToBytes,
+} from "./game/save";
+import type { SaveSlotInfo } from "./game/save";
+import {
+  HIGH_SCORE_NAME_LENGTH,
+  readHighScores,
+  isHighScore,
+  addHighScore,
+} from "./game/highscores";
+import type { HighScore, ScoreTable, SeedMode } from "./game/highscores";
 import {
   drawHUD,
+  drawDemoOverlay,
+  drawSaveLoadMenu,
+  drawEpisodeMenu,
+  drawDifficultyMenu,
   drawTitleScreen,
   drawDeathScreen,
   drawLevelCompleteScreen,
+  levelTallyTics,
+  drawHighScores,
+  drawNameEntry,
   drawVictoryScreen,
 } from "./ui/hud";
-import { generateMap, getMapCount } from "./core/maps";
+import { setupModPanel, showModPanel, updateModPanel } from "./ui/modPanel";
 
 // ============================================================
 // Screen States
@@ -58,6 +98,13 @@ enum Screen {
   Death,
   LevelComplete,
   Victory,
+  Demo,
+  SaveMenu,
+  LoadMenu,
+  EpisodeMenu,
+  DifficultyMenu,
+  NameEntry,
+  HighScores,
 }
 
 // ============================================================
@@ -65,31 +112,138 @@ enum Screen {
 // ============================================================
 
 let currentScreen: Screen = Screen.Title;
+let sim: Simulation;
 let world: WorldState;
 let input: InputState;
 let renderer: Renderer;
+let music: MusicManager;
 let lastTime = 0;
 let tics = 0;
 let gameSeed = 0;
+// How the current run's seed was chosen, which picks its high score table,
+// and the day a daily run belongs to (empty otherwise)
+let gameSeedMode: SeedMode = "random";
+let gameDailyDate = "";
+// How new games pick their seed, from the URL hash as loaded or last edited
+let seedChoice: SeedChoice = { mode: "random", seed: 0, date: "" };
+
+// Fixed-timestep accumulator: real milliseconds not yet consumed as tics
+let accumulator = 0;
+// Set while the tab is hidden; the loop idles and the clock restarts on return
+let paused = false;
+
+// Camera at the start of the most recent tic, for render interpolation
+let prevViewX = 0;
+let prevViewY = 0;
+let prevViewAngle = 0;
+
+// Demo being recorded during play (null when not recording)
+let recordingDemo: Demo | null = null;
+// Demo being played back on the Demo screen, and the next tic to play
+let playbackDemo: Demo | null = null;
+let playbackTic = 0;
+// Tics spent idle on the title screen, for the attract loop
+let titleIdleTics = 0;
+
+// Save/load menu: slot summaries, highlighted slot, screen to return to, and
+// the screenshot taken when the save menu was opened (before it drew over it)
+let menuSlots: (SaveSlotInfo | null)[] = [];
+let menuSelection = 0;
+let menuReturnScreen: Screen = Screen.Title;
+let menuThumbnail: Uint32Array | null = null;
+
+// Episode highlighted in the new-game episode picker
+let episodeSelection = 0;
+// Skill highlighted in the new-game difficulty picker
+let difficultySelection = GD_MEDIUM;
 
 // Death screen timer (in tics)
 let deathTimer = 0;
-// Level complete timer (in tics)
-let levelCompleteTimer = 0;
+// High score name entry: letters so far and the slot being edited
+let entryName = "";
+let entryCursor = 0;
+// High score table on show, which one it is, and the rank to highlight (or -1)
+let scoreTable: HighScore[] = [];
+let scoreTableMode: ScoreTable = "random";
+let scoreTableRank = -1;
+
+// Tally of the floor just finished, and tics the intermission has been up
+let levelTally: LevelTally | null = null;
+let intermissionTics = 0;
+
+// Base textures (null if none loaded) and the active mod packs layered over
+// them, in order
+let baseAssets: AssetManifest | null = null;
+let modPacks: ModPack[] = [];
+
+// ============================================================
+// Timing
+// ============================================================
+
+/** Simulation rate, as in the original's 70 Hz TimeCount. */
+const TICRATE = 70;
+const TIC_MS = 1000 / TICRATE;
+/** Most tics run in one frame; a longer stall is dropped rather than replayed. */
+const MAX_CATCHUP_TICS = TICRATE / 2;
+/** Idle time on the title screen before the attract demo starts. */
+const ATTRACT_DELAY_TICS = TICRATE * 10;
 
 // ============================================================
 // Seed Handling (same approach as rogue-ts)
 // ============================================================
 
-function parseSeedFromHash(): number {
-  const hash = window.location.hash.slice(1);
+/** A seed from the URL hash: `#seed=N`, `#daily[=YYYY-MM-DD]` or none */
+interface SeedChoice {
+  mode: SeedMode;
+  /** The chosen seed, for "seed" */
+  seed: number;
+  /** The day, for "daily"; empty for whichever day the game starts on */
+  date: string;
+}
+
+function parseSeedChoice(): SeedChoice {
+  const hash = window.location.hash.slice(1).split("&")[0];
   if (hash.startsWith("seed=")) {
     const parsed = parseInt(hash.slice(5), 10);
-    return isNaN(parsed) ? Date.now() : parsed;
+    if (!isNaN(parsed)) return { mode: "seed", seed: parsed, date: "" };
+  }
+  if (hash === "daily") return { mode: "daily", seed: 0, date: "" };
+  if (hash.startsWith("daily=")) {
+    return { mode: "daily", seed: 0, date: hash.slice(6) };
   }
-  if (hash === "daily") return hashString(todayString());
-  if (hash.startsWith("daily=")) return hashString(hash.slice(6));
-  return Date.now();
+  return { mode: "random", seed: 0, date: "" };
+}
+
+function dailyDateFor(choice: SeedChoice): string {
+  return choice.mode === "daily" ? choice.date || todayString() : "";
+}
+
+function seedFor(choice: SeedChoice): number {
+  switch (choice.mode) {
+    case "seed":
+      return choice.seed;
+    case "daily":
+      return hashString(dailyDateFor(choice));
+    default:
+      return Date.now();
+  }
+}
+
+/** Check for an extra `&flag` option after the seed, e.g. `#seed=42&record`. */
+function hasHashFlag(flag: string): boolean {
+  return window.location.hash.slice(1).split("&").slice(1).includes(flag);
+}
+
+/**
+ * Skill set in the URL (`#seed=42&difficulty=3`, 0-3), or null to ask.
+ */
+function parseDifficultyFromHash(): number | null {
+  for (const part of window.location.hash.slice(1).split("&")) {
+    if (!part.startsWith("difficulty=")) continue;
+    const parsed = parseInt(part.slice(11), 10);
+    if (parsed >= 0 && parsed < NUM_DIFFICULTIES) return parsed;
+  }
+  return null;
 }
 
 function hashString(str: string): number {
@@ -109,106 +263,522 @@ function todayString(): string {
 // Game Flow
 // ============================================================
 
-function startNewGame(difficulty: number = 1): void {
-  gameSeed = parseSeedFromHash();
-  setSeed(gameSeed);
-  window.location.hash = `seed=${gameSeed}`;
+function startNewGame(episode: number, difficulty: number): void {
+  gameSeed = seedFor(seedChoice);
+  gameSeedMode = seedChoice.mode;
+  gameDailyDate = dailyDateFor(seedChoice);
+  const record = hasHashFlag("record");
+  const pinned = parseDifficultyFromHash() !== null;
+  // Show the seed so the run can be shared (a daily link already names its
+  // day). This doesn't fire hashchange, so later games still choose theirs
+  // the way the hash did
+  const seedPart =
+    gameSeedMode === "daily"
+      ? window.location.hash.slice(1).split("&")[0]
+      : `seed=${gameSeed}`;
+  history.replaceState(
+    null,
+    "",
+    `#${seedPart}` +
+      (pinned ? `&difficulty=${difficulty}` : "") +
+      (record ? "&record" : ""),
+  );
 
-  world = createWorldState();
-  world.gamestate = createGameState();
-  world.gamestate.difficulty = difficulty;
-  world.gamestate.mapon = 0;
+  // Demos cover one floor from a fresh start, like the original's RecordDemo
+  recordingDemo = record
+    ? createDemo(gameSeed, difficulty, episode, activeModNames())
+    : null;
+  titleIdleTics = 0;
 
-  loadLevel(0);
+  sim = new Simulation(gameSeed, difficulty, episode);
+  world = sim.world;
+  snapCamera();
   currentScreen = Screen.Game;
 }
 
-function loadLevel(levelNum: number): void {
-  const map = generateMap(levelNum, gameSeed + levelNum);
-  setupLevel(world, map, world.gamestate.difficulty);
-}
-
 function nextLevel(): void {
-  world.gamestate.mapon++;
-  if (world.gamestate.mapon >= getMapCount()) {
+  if (!sim.nextLevel()) {
     currentScreen = Screen.Victory;
     return;
   }
-  loadLevel(world.gamestate.mapon);
-  world.playstate = ExitType.StillPlaying;
+  snapCamera();
+}
+
+/**
+ * The run is over, won or lost: take the player's initials if the score
+ * made the table, otherwise just show the table.
+ */
+function endRun(): void {
+  if (isHighScore(runScoreTable(gameSeedMode), world.gamestate.score)) {
+    entryName = "";
+    entryCursor = 0;
+    currentScreen = Screen.NameEntry;
+  } else {
+    showHighScores(runScoreTable(gameSeedMode), -1);
+  }
+}
+
+/** The table a run is ranked in; mod packs can only change on the title. */
+function runScoreTable(mode: SeedMode): ScoreTable {
+  return modPacks.length > 0 ? "modded" : mode;
+}
+
+function showHighScores(mode: ScoreTable, rank: number): void {
+  scoreTable = readHighScores(mode);
+  scoreTableMode = mode;
+  scoreTableRank = rank;
+  currentScreen = Screen.HighScores;
 }
 
 // ============================================================
-// Screen Update Functions
+// Demos
 // ============================================================
 
-function updateTitleScreen(): void {
-  // Draw title screen into the renderer's pixel buffer
-  const pixels = renderer.getScreenPixels();
-  drawTitleScreen(pixels, gameSeed || parseSeedFromHash());
+const DEMO_STORAGE_KEY = "wolf3d-ts.demo";
 
-  // Check for any input to start
-  if (input.keys.size > 0 || input.mouseButtons > 0) {
+/**
+ * Stop recording: keep the demo for the attract loop and offer it as a file.
+ */
+function finishRecording(): void {
+  if (!recordingDemo) return;
+  const bytes = encodeDemo(recordingDemo);
+  recordingDemo = null;
+
+  try {
+    localStorage.setItem(DEMO_STORAGE_KEY, bytesToBase64(bytes));
+  } catch (err) {
+    console.warn("Could not store demo:", err);
+  }
+
+  const blob = new Blob([bytes], { type: "application/octet-stream" });
+  const link = document.createElement("a");
+  link.href = URL.createObjectURL(blob);
+  link.download = `wolf3d-seed${gameSeed}.wdm`;
+  link.click();
+  // The download may not have started yet; give it a moment before freeing
+  setTimeout(() => URL.revokeObjectURL(link.href), 1000);
+}
+
+/**
+ * The most recently recorded demo, or the built-in one if there is none or
+ * it can't be played back by this build: recorded by another version, or
+ * with other mod packs than the active ones, it would desync. Null if the
+ * built-in one was recorded with other mod packs too.
+ */
+function loadAttractDemo(): Demo | null {
+  try {
+    const stored = localStorage.getItem(DEMO_STORAGE_KEY);
+    const demo = stored ? decodeDemo(base64ToBytes(stored)) : null;
+    if (demo && demo.gameVersion !== GAME_VERSION) {
+      console.warn(`Ignoring stored demo from version ${demo.gameVersion}`);
+    } else if (demo && !sameMods(demo.mods)) {
+      console.warn("Ignoring stored demo recorded with other mods");
+    } else if (demo) {
+      return demo;
+    }
+  } catch (err) {
+    console.warn("Ignoring stored demo:", err);
+  }
+  const demo = createAttractDemo();
+  return sameMods(demo.mods) ? demo : null;
+}
+
+function startDemoPlayback(demo: Demo): void {
+  playbackDemo = demo;
+  playbackTic = 0;
+  sim = new Simulation(demo.seed, demo.difficulty, demo.episode);
+  world = sim.world;
+  snapCamera();
+  currentScreen = Screen.Demo;
+}
+
+function endDemoPlayback(): void {
+  world.playstate = ExitType.DemoDone;
+  playbackDemo = null;
+  titleIdleTics = 0;
+  currentScreen = Screen.Title;
+}
+
+/**
+ * Drop any interpolation history, e.g. after the player is teleported by a
+ * level load, so the camera doesn't sweep across the map for a frame.
+ */
+function snapCamera(): void {
+  prevViewX = world.player.x;
+  prevViewY = world.player.y;
+  prevViewAngle = world.player.angle;
+}
+
+// ============================================================
+// Save / Load
+// ============================================================
+
+/**
+ * Take a key press out of the input set so it only triggers once.
+ */
+function consumeKey(code: string): boolean {
+  if (!input.keys.has(code)) return false;
+  input.keys.delete(code);
+  return true;
+}
+
+function openSaveLoadMenu(screen: Screen.SaveMenu | Screen.LoadMenu): void {
+  if (screen === Screen.SaveMenu) {
+    menuThumbnail = renderer.getScreenPixels().slice();
+  }
+  menuSlots = listSaveSlots();
+  menuSelection = 0;
+  menuReturnScreen = currentScreen;
+  currentScreen = screen;
+}
+
+function saveToSlot(slot: number): void {
+  try {
+    writeSaveSlot(slot, {
+      ...sim.save(menuThumbnail ?? undefined),
+      seedMode: gameSeedMode,
+      dailyDate: gameDailyDate,
+      mods: activeModNames(),
+    });
+  } catch (err) {
+    console.warn(`Failed to save to slot ${slot + 1}:`, err);
+  }
+  currentScreen = menuReturnScreen;
+}
+
+function loadFromSlot(slot: number): void {
+  const save = readSaveSlot(slot);
+  if (!save) return; // empty slot: stay in the menu
+  if (!sameMods(save.mods ?? [])) {
+    console.warn(
+      `Slot ${slot + 1} was saved with mod packs ` +
+        `[${(save.mods ?? []).join(", ")}]; activate those to load it`,
+    );
+    return;
+  }
+
+  try {
+    sim = Simulation.fromSave(save);
+  } catch (err) {
+    console.warn(`Failed to load slot ${slot + 1}:`, err);
+    return;
+  }
+  world = sim.world;
+  gameSeed = save.seed;
+  gameSeedMode = save.seedMode ?? "seed";
+  gameDailyDate = save.dailyDate ?? "";
+  recordingDemo = null; // a demo can't span a load
+  history.replaceState(
+    null,
+    "",
+    gameSeedMode === "daily" ? `#daily=${gameDailyDate}` : `#seed=${gameSeed}`,
+  );
+  snapCamera();
+  currentScreen = Screen.Game;
+}
+
+function updateSaveLoadMenu(): void {
+  const saving = currentScreen === Screen.SaveMenu;
+  drawSaveLoadMenu(
+    renderer.getScreenPixels(),
+    saving ? "SAVE GAME" : "LOAD GAME",
+    menuSlots,
+    menuSelection,
+  );
+
+  if (consumeKey("Escape")) {
+    currentScreen = menuReturnScreen;
+    return;
+  }
+  if (consumeKey("ArrowUp") || consumeKey("KeyW")) {
+    menuSelection = (menuSelection + NUM_SAVE_SLOTS - 1) % NUM_SAVE_SLOTS;
+  }
+  if (consumeKey("ArrowDown") || consumeKey("KeyS")) {
+    menuSelection = (menuSelection + 1) % NUM_SAVE_SLOTS;
+  }
+  for (let i = 0; i < NUM_SAVE_SLOTS; i++) {
+    if (consumeKey(`Digit${i + 1}`)) menuSelection = i;
+  }
+
+  if (consumeKey("Enter") || consumeKey("Space") || consumeKey("KeyF")) {
+    if (saving) saveToSlot(menuSelection);
+    else loadFromSlot(menuSelection);
+  }
+}
+
+function updateEpisodeMenu(): void {
+  drawEpisodeMenu(
+    renderer.getScreenPixels(),
+    EPISODES.map((ep) => ep.name),
+    episodeSelection,
+  );
+
+  if (consumeKey("Escape")) {
+    titleIdleTics = 0;
+    currentScreen = Screen.Title;
+    return;
+  }
+  if (consumeKey("ArrowUp") || consumeKey("KeyW")) {
+    episodeSelection =
+      (episodeSelection + EPISODES.length - 1) % EPISODES.length;
+  }
+  if (consumeKey("ArrowDown") || consumeKey("KeyS")) {
+    episodeSelection = (episodeSelection + 1) % EPISODES.length;
+  }
+  for (let i = 0; i < EPISODES.length; i++) {
+    if (consumeKey(`Digit${i + 1}`)) episodeSelection = i;
+  }
+
+  if (
+    consumeKey("Enter") ||
+    consumeKey("Space") ||
+    consumeKey("KeyF") ||
+    input.mouseButtons > 0
+  ) {
     input.keys.clear();
     input.mouseButtons = 0;
-    startNewGame(1); // medium difficulty
+    // Pick a skill next unless the URL set one
+    const difficulty = parseDifficultyFromHash();
+    if (difficulty !== null) {
+      startNewGame(episodeSelection, difficulty);
+    } else {
+      currentScreen = Screen.DifficultyMenu;
+    }
   }
 }
 
-function updateGame(): void {
-  // 1. Poll input
-  pollControls(input);
+function updateDifficultyMenu(): void {
+  drawDifficultyMenu(renderer.getScreenPixels(), difficultySelection);
+
+  if (consumeKey("Escape")) {
+    currentScreen = Screen.EpisodeMenu;
+    return;
+  }
+  if (consumeKey("ArrowUp") || consumeKey("KeyW")) {
+    difficultySelection =
+      (difficultySelection + NUM_DIFFICULTIES - 1) % NUM_DIFFICULTIES;
+  }
+  if (consumeKey("ArrowDown") || consumeKey("KeyS")) {
+    difficultySelection = (difficultySelection + 1) % NUM_DIFFICULTIES;
+  }
+  for (let i = 0; i < NUM_DIFFICULTIES; i++) {
+    if (consumeKey(`Digit${i + 1}`)) difficultySelection = i;
+  }
+
+  if (
+    consumeKey("Enter") ||
+    consumeKey("Space") ||
+    consumeKey("KeyF") ||
+    input.mouseButtons > 0
+  ) {
+    input.keys.clear();
+    input.mouseButtons = 0;
+    startNewGame(episodeSelection, difficultySelection);
+  }
+}
 
-  // 2. Update player
-  updatePlayer(world, input, tics);
+/** Characters the name entry cycles through with up/down. */
+const NAME_CHARS = "ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789 ";
 
-  // 3. Update weapon animation
-  updateAttack(world, tics);
+function updateNameEntry(): void {
+  drawNameEntry(
+    renderer.getScreenPixels(),
+    entryName,
+    entryCursor,
+    HIGH_SCORE_NAME_LENGTH,
+    world.gamestate.score,
+  );
+
+  const setChar = (ch: string): void => {
+    entryName = (
+      entryName.padEnd(entryCursor).slice(0, entryCursor) +
+      ch +
+      entryName.slice(entryCursor + 1)
+    ).slice(0, HIGH_SCORE_NAME_LENGTH);
+  };
 
-  // 4. Update enemies
-  for (let i = 1; i <= world.lastobj; i++) {
-    const actor = world.objlist[i];
-    if (actor && actor.active !== ActiveType.No) {
-      updateActor(world, actor, tics, world.player.angle);
+  // Typed letters and digits fill the slot and move on
+  for (const ch of NAME_CHARS.trim()) {
+    const code = ch >= "A" ? `Key${ch}` : `Digit${ch}`;
+    if (consumeKey(code)) {
+      setChar(ch);
+      entryCursor = Math.min(entryCursor + 1, HIGH_SCORE_NAME_LENGTH - 1);
     }
   }
 
-  // 5. Update doors
-  moveDoors(world, tics);
+  // Arcade style: up/down cycle the letter, left/right pick the slot
+  const step = consumeKey("ArrowUp")
+    ? 1
+    : consumeKey("ArrowDown")
+      ? NAME_CHARS.length - 1
+      : 0;
+  if (step) {
+    const cur = NAME_CHARS.indexOf(entryName[entryCursor] ?? " ");
+    setChar(NAME_CHARS[(Math.max(0, cur) + step) % NAME_CHARS.length]);
+  }
+  if (consumeKey("ArrowLeft") || consumeKey("Backspace")) {
+    entryCursor = Math.max(0, entryCursor - 1);
+  }
+  if (consumeKey("ArrowRight")) {
+    entryCursor = Math.min(entryCursor + 1, HIGH_SCORE_NAME_LENGTH - 1);
+  }
 
-  // 6. Update pushwalls
-  movePushWall(world, tics);
+  if (consumeKey("Enter")) {
+    const gs = world.gamestate;
+    let rank = -1;
+    try {
+      rank = addHighScore(runScoreTable(gameSeedMode), {
+        name: entryName.trim() || "???",
+        score: gs.score,
+        episode: gs.episode,
+        floor: gs.mapon + 1,
+        difficulty: gs.difficulty,
+        seed: gameSeed,
+        date: gameDailyDate || todayString(),
+      });
+    } catch (err) {
+      console.warn("Failed to save high score:", err);
+    }
+    showHighScores(runScoreTable(gameSeedMode), rank);
+  }
+}
+
+const SCORE_TABLES: ScoreTable[] = ["random", "seed", "daily", "modded"];
+const SCORE_TABLE_NAMES: Record<ScoreTable, string> = {
+  random: "RANDOM SEEDS",
+  seed: "CHOSEN SEEDS",
+  daily: "DAILY CHALLENGE",
+  modded: "MODDED RUNS",
+};
+
+function updateHighScores(): void {
+  drawHighScores(
+    renderer.getScreenPixels(),
+    SCORE_TABLE_NAMES[scoreTableMode],
+    scoreTable,
+    scoreTableRank,
+  );
 
-  // 7. Face frame reset timer (simplified: revert hurt face after a short delay)
-  // Real Wolf3D uses a dedicated timer; here we just let it show for one frame.
-  // The face frame is set to 1 (hurt) by takeDamage and reset here.
-  if (world.gamestate.faceframe === 1 && world.gamestate.health > 0) {
-    // Will revert on next frame -- gives a brief flash of the hurt face
-    world.gamestate.faceframe = 0;
+  const i = SCORE_TABLES.indexOf(scoreTableMode);
+  if (consumeKey("ArrowLeft") || consumeKey("KeyA")) {
+    showHighScores(
+      SCORE_TABLES[(i + SCORE_TABLES.length - 1) % SCORE_TABLES.length],
+      -1,
+    );
+    return;
+  }
+  if (consumeKey("ArrowRight") || consumeKey("KeyD")) {
+    showHighScores(SCORE_TABLES[(i + 1) % SCORE_TABLES.length], -1);
+    return;
   }
 
-  // 8. Check game state
-  if (world.playstate === ExitType.Died) {
-    currentScreen = Screen.Death;
-    deathTimer = 180; // ~2.5 seconds at 70 tics/sec
+  if (input.keys.size > 0 || input.mouseButtons > 0) {
+    input.keys.clear();
+    input.mouseButtons = 0;
+    titleIdleTics = 0;
+    currentScreen = Screen.Title;
+  }
+}
+
+// ============================================================
+// Screen Update Functions
+// ============================================================
+
+function updateTitleScreen(): void {
+  // Draw title screen into the renderer's pixel buffer
+  const pixels = renderer.getScreenPixels();
+  drawTitleScreen(pixels, gameSeed || seedFor(seedChoice));
+
+  if (consumeKey("F3")) {
+    openSaveLoadMenu(Screen.LoadMenu);
     return;
   }
-  if (
-    world.playstate === ExitType.Completed ||
-    world.playstate === ExitType.SecretLevel
-  ) {
-    currentScreen = Screen.LevelComplete;
-    levelCompleteTimer = 200;
+  if (consumeKey("KeyH")) {
+    showHighScores(runScoreTable(seedChoice.mode), -1);
+    return;
+  }
+
+  // Check for any input to start: pick an episode first
+  if (input.keys.size > 0 || input.mouseButtons > 0) {
+    input.keys.clear();
+    input.mouseButtons = 0;
+    currentScreen = Screen.EpisodeMenu;
     return;
   }
 
-  // 9. Render the 3D view
+  // Attract loop: play a demo after sitting idle
+  titleIdleTics += tics;
+  if (titleIdleTics >= ATTRACT_DELAY_TICS) {
+    titleIdleTics = 0;
+    const demo = loadAttractDemo();
+    if (demo) startDemoPlayback(demo);
+  }
+}
+
+function updateGame(): void {
+  // F2 / F3 open the save and load menus, like the original
+  if (consumeKey("F2")) {
+    openSaveLoadMenu(Screen.SaveMenu);
+    return;
+  }
+  if (consumeKey("F3")) {
+    openSaveLoadMenu(Screen.LoadMenu);
+    return;
+  }
+
+  // 1. Poll input once per rendered frame; every tic in the frame uses it.
+  // Frames that run no tics leave input (and mouse deltas) for the next one.
+  if (tics > 0) pollControls(input, tics);
+
+  for (let i = 0; i < tics; i++) {
+    prevViewX = world.player.x;
+    prevViewY = world.player.y;
+    prevViewAngle = world.player.angle;
+
+    // 2. Advance the simulation one tic (player, weapons, enemies, doors, pushwalls)
+    if (recordingDemo) recordDemoFrame(recordingDemo, input);
+    sim.step(1, input);
+
+    // 3. Check game state
+    if (world.playstate !== ExitType.StillPlaying) finishRecording();
+    if (world.playstate === ExitType.Died) {
+      currentScreen = Screen.Death;
+      deathTimer = 180; // ~2.5 seconds at 70 tics/sec
+      return;
+    }
+    if (
+      world.playstate === ExitType.Completed ||
+      world.playstate === ExitType.SecretLevel
+    ) {
+      currentScreen = Screen.LevelComplete;
+      levelTally = tallyLevel(world);
+      intermissionTics = 0;
+      input.keys.clear();
+      input.mouseButtons = 0;
+      return;
+    }
+  }
+
+  // 4. Render the 3D view, interpolated between the last two tics
+  drawGame(accumulator / TIC_MS);
+  renderer.present();
+}
+
+function drawGame(alpha: number): void {
+  const player = world.player;
+
+  let angleDelta = player.angle - prevViewAngle;
+  if (angleDelta > ANGLES / 2) angleDelta -= ANGLES;
+  if (angleDelta < -ANGLES / 2) angleDelta += ANGLES;
+  let viewangle = Math.round(prevViewAngle + angleDelta * alpha) % ANGLES;
+  if (viewangle < 0) viewangle += ANGLES;
+
   const renderState: RenderState = {
-    viewx: world.player.x,
-    viewy: world.player.y,
-    viewangle: world.player.angle,
-    viewsin: sintable[world.player.angle] || 0,
-    viewcos: costable[world.player.angle] || 0,
+    viewx: Math.round(prevViewX + (player.x - prevViewX) * alpha),
+    viewy: Math.round(prevViewY + (player.y - prevViewY) * alpha),
+    viewangle,
+    viewsin: sintable[viewangle] || 0,
+    viewcos: costable[viewangle] || 0,
   };
 
   renderer.render(
@@ -222,14 +792,41 @@ function updateGame(): void {
     world.spotvis,
   );
 
-  // 10. Draw HUD overlay into the renderer's pixel buffer
+  // 5. Draw HUD overlay into the renderer's pixel buffer
   const pixels = renderer.getScreenPixels();
   const weaponTex = renderer.getWeaponFrame(
     world.gamestate.weapon,
     world.gamestate.weaponframe,
   );
   drawHUD(pixels, world.gamestate, world.gamestate.weaponframe, weaponTex);
-  renderer.present();
+  if (recordingDemo) drawDemoOverlay(pixels, true);
+}
+
+function updateDemo(): void {
+  // Any key or click returns to the title screen
+  if (input.keys.size > 0 || input.mouseButtons > 0) {
+    input.keys.clear();
+    input.mouseButtons = 0;
+    endDemoPlayback();
+    return;
+  }
+
+  const demo = playbackDemo!;
+  for (let i = 0; i < tics; i++) {
+    prevViewX = world.player.x;
+    prevViewY = world.player.y;
+    prevViewAngle = world.player.angle;
+
+    // Recorded frames go through the same updatePlayer path as live input
+    const frame = demo.frames[playbackTic++];
+    if (!frame || sim.step(1, frame) !== ExitType.StillPlaying) {
+      endDemoPlayback();
+      return;
+    }
+  }
+
+  drawGame(accumulator / TIC_MS);
+  drawDemoOverlay(renderer.getScreenPixels(), false);
 }
 
 function updateDeathScreen(): void {
@@ -240,35 +837,44 @@ function updateDeathScreen(): void {
   drawDeathScreen(pixels, world.gamestate.score, world.gamestate.lives);
 
   if (deathTimer <= 0) {
-    if (world.gamestate.lives > 0) {
+    if (sim.restartLevel()) {
       // Restart the level with one less life
-      world.gamestate.lives--;
-      world.gamestate.health = 100;
-      world.gamestate.weapon = world.gamestate.bestweapon;
-      world.gamestate.ammo = STARTAMMO;
-      world.gamestate.keys = 0;
-      world.gamestate.attackframe = 0;
-      world.gamestate.weaponframe = 0;
-      loadLevel(world.gamestate.mapon);
+      snapCamera();
       currentScreen = Screen.Game;
     } else {
-      // Game over -- wait for input to return to title
+      // Game over -- wait for input, then on to the high scores
       if (input.keys.size > 0 || input.mouseButtons > 0) {
         input.keys.clear();
         input.mouseButtons = 0;
-        currentScreen = Screen.Title;
+        endRun();
       }
     }
   }
 }
 
 function updateLevelComplete(): void {
-  levelCompleteTimer -= tics;
+  if (!levelTally) return;
+  intermissionTics += tics;
 
   const pixels = renderer.getScreenPixels();
-  drawLevelCompleteScreen(pixels, world.gamestate);
+  drawLevelCompleteScreen(
+    pixels,
+    world.gamestate,
+    levelTally,
+    intermissionTics,
+    world.playstate === ExitType.SecretLevel,
+  );
 
-  if (levelCompleteTimer <= 0) {
+  // A key skips the count-up, then moves on
+  if (input.keys.size > 0 || input.mouseButtons > 0) {
+    input.keys.clear();
+    input.mouseButtons = 0;
+    const total = levelTallyTics(levelTally);
+    if (intermissionTics < total) {
+      intermissionTics = total;
+      return;
+    }
+    levelTally = null;
     nextLevel();
     if (currentScreen !== Screen.Victory) {
       currentScreen = Screen.Game;
@@ -278,12 +884,130 @@ function updateLevelComplete(): void {
 
 function updateVictoryScreen(): void {
   const pixels = renderer.getScreenPixels();
-  drawVictoryScreen(pixels, world.gamestate.score);
+  const gs = world.gamestate;
+  const moreEpisodes = gs.episode + 1 < EPISODES.length;
+  drawVictoryScreen(
+    pixels,
+    gs.score,
+    EPISODES[gs.episode].ending,
+    moreEpisodes,
+  );
 
   if (input.keys.size > 0 || input.mouseButtons > 0) {
     input.keys.clear();
     input.mouseButtons = 0;
-    currentScreen = Screen.Title;
+    if (sim.nextEpisode()) {
+      snapCamera();
+      currentScreen = Screen.Game;
+    } else {
+      endRun();
+    }
+  }
+}
+
+// ============================================================
+// Music
+// ============================================================
+
+/**
+ * Play the track that belongs to the current screen. Save/load menus keep
+ * whatever was already playing.
+ */
+function updateMusic(): void {
+  switch (currentScreen) {
+    case Screen.Game:
+    case Screen.Death:
+    case Screen.Demo: {
+      const gs = world.gamestate;
+      music.playFloor(gs.episode, gs.mapon, gs.secretlevel);
+      break;
+    }
+    case Screen.LevelComplete:
+      music.play(INTERMISSION_MUSIC);
+      break;
+    case Screen.Victory:
+      music.play(VICTORY_MUSIC);
+      break;
+    case Screen.SaveMenu:
+    case Screen.LoadMenu:
+      break;
+    default:
+      music.play(TITLE_MUSIC);
+      break;
+  }
+}
+
+// ============================================================
+// Mod Packs
+// ============================================================
+
+/**
+ * Rebuild the textures from the procedural set, the base assets and each
+ * active pack in turn, and play the packs' floors.
+ */
+function applyModPacks(message = ""): void {
+  renderer.generateTextures();
+  if (baseAssets) renderer.applyAssets(baseAssets);
+  for (const pack of modPacks) renderer.applyAssets(pack.assets);
+  setFloorOverrides(modPacks.flatMap((pack) => pack.floors));
+  updateModPanel(activeModNames(), message);
+}
+
+/** Names of the active packs, in the order they are applied. */
+function activeModNames(): string[] {
+  return modPacks.map((pack) => pack.manifest.name);
+}
+
+/** Are exactly these packs active, in this order? */
+function sameMods(names: string[]): boolean {
+  const active = activeModNames();
+  return (
+    names.length === active.length &&
+    names.every((name, i) => name === active[i])
+  );
+}
+
+/**
+ * Read, load and store a pack, putting it last (a pack of the same name is
+ * replaced). Failures are shown on the mod panel.
+ */
+async function addModPack(
+  source: File | FileList | DataTransfer,
+): Promise<void> {
+  try {
+    const files =
+      source instanceof File
+        ? await readZipPack(source)
+        : source instanceof FileList
+          ? readFolderPack(source)
+          : await readDroppedPack(source);
+    const pack = await openModPack(files);
+    const { name } = pack.manifest;
+    let message = `Added ${name}`;
+    try {
+      await storeModPack(pack);
+    } catch (err) {
+      console.warn(`Failed to store mod pack "${name}":`, err);
+      message += " (for this session only)";
+    }
+    modPacks = [...modPacks.filter((p) => p.manifest.name !== name), pack];
+    applyModPacks(message);
+  } catch (err) {
+    console.warn("Failed to add mod pack:", err);
+    updateModPanel(
+      activeModNames(),
+      err instanceof Error ? err.message : String(err),
+    );
+  }
+}
+
+async function removeModPack(name: string): Promise<void> {
+  modPacks = modPacks.filter((pack) => pack.manifest.name !== name);
+  applyModPacks(`Removed ${name}`);
+  try {
+    await deleteModPack(name);
+  } catch (err) {
+    console.warn(`Failed to delete mod pack "${name}":`, err);
   }
 }
 
@@ -292,12 +1016,24 @@ function updateVictoryScreen(): void {
 // ============================================================
 
 function gameLoop(timestamp: number): void {
-  // Calculate tics (target 70 tics/sec like Wolf3D, where 1 tic ~ 14.28ms)
+  if (paused) {
+    requestAnimationFrame(gameLoop);
+    return;
+  }
+
+  // Accumulate real time and consume it in whole 70 Hz tics. Rendering runs
+  // at whatever rate the display does; only tics advance the world.
   if (lastTime === 0) lastTime = timestamp;
-  const dt = timestamp - lastTime;
+  accumulator += timestamp - lastTime;
   lastTime = timestamp;
-  // Clamp between 1 and 6 tics to prevent large jumps
-  tics = Math.min(Math.max(1, Math.round(dt / 14.28)), 6);
+
+  tics = Math.floor(accumulator / TIC_MS);
+  if (tics > MAX_CATCHUP_TICS) {
+    tics = MAX_CATCHUP_TICS;
+    accumulator = 0;
+  } else {
+    accumulator -= tics * TIC_MS;
+  }
 
   // Update the current screen state
   switch (currentScreen) {
@@ -316,7 +1052,28 @@ function gameLoop(timestamp: number): void {
     case Screen.Victory:
       updateVictoryScreen();
       break;
+    case Screen.Demo:
+      updateDemo();
+      break;
+    case Screen.SaveMenu:
+    case Screen.LoadMenu:
+      updateSaveLoadMenu();
+      break;
+    case Screen.NameEntry:
+      updateNameEntry();
+      break;
+    case Screen.HighScores:
+      updateHighScores();
+      break;
+    case Screen.EpisodeMenu:
+      updateEpisodeMenu();
+      break;
+    case Screen.DifficultyMenu:
+      updateDifficultyMenu();
+      break;
   }
+  updateMusic();
+  showModPanel(currentScreen === Screen.Title);
 
   // For non-game screens, present the pixel buffer
   // (updateGame does its own present via Renderer)
@@ -347,41 +1104,80 @@ async function init(): Promise<void> {
   // Build math lookup tables (MUST be done before any game logic)
   buildTables();
 
+  // Sanity-check the enemy state machines
+  for (const issue of validateAiStates()) {
+    console.warn(`State graph: ${issue.message}`);
+  }
+
   // Create the renderer (handles canvas sizing, texture generation)
   renderer = new Renderer(canvas);
 
-  // Always generate procedural textures first (as fallback)
-  renderer.generateTextures();
-
-  // Try to load real assets, with progress bar
+  // Try to load real assets: the player's own VSWAP if there is one,
+  // otherwise the PNG set, with progress bar
   const loadBar = document.getElementById("load-bar") as HTMLElement | null;
   try {
-    const manifest = await loadAllAssets((loaded, total) => {
-      if (loadBar) {
-        loadBar.style.width = `${Math.floor((loaded / total) * 100)}%`;
-      }
-    });
-    renderer.applyAssets(manifest);
+    baseAssets =
+      (await loadVswapAssets()) ??
+      (await loadAllAssets((loaded, total) => {
+        if (loadBar) {
+          loadBar.style.width = `${Math.floor((loaded / total) * 100)}%`;
+        }
+      }));
     console.log("Real Wolf3D assets loaded successfully.");
   } catch (err) {
     console.warn("Failed to load assets, using procedural textures:", err);
   }
 
+  // Layer the mod packs from last session over them. Procedural textures
+  // are always generated first, as the fallback
+  modPacks = await loadStoredModPacks();
+  applyModPacks();
+  setupModPanel({
+    add: (source) => void addModPack(source),
+    remove: (name) => void removeModPack(name),
+  });
+
   // Create the input system
   input = createInputState();
   setupInput(canvas, input);
 
+  // Play the game's sound events and music; audio may only start once the
+  // player has pressed something
+  const audio = new AudioPlayer();
+  setSoundListener((event) => audio.play(event));
+  music = new MusicManager(audio);
+  window.addEventListener("keydown", () => audio.resume());
+  window.addEventListener("pointerdown", () => audio.resume());
+
   // Handle window resize
   window.addEventListener("resize", () => {
     renderer.resize();
   });
 
+  // Pause while the tab is hidden; restart the clock on return so the time
+  // spent away is not replayed as catch-up tics
+  document.addEventListener("visibilitychange", () => {
+    paused = document.hidden;
+    if (paused) {
+      input.keys.clear();
+      input.mouseButtons = 0;
+    } else {
+      lastTime = 0;
+      accumulator = 0;
+    }
+  });
+
   // Hide loading screen
   const loading = document.getElementById("loading");
   if (loading) loading.style.display = "none";
 
-  // Initialize seed for title screen display
-  gameSeed = parseSeedFromHash();
+  // Initialize seed for title screen display, and pick up seeds typed into
+  // the URL later on
+  seedChoice = parseSeedChoice();
+  gameSeed = seedFor(seedChoice);
+  window.addEventListener("hashchange", () => {
+    seedChoice = parseSeedChoice();
+  });
 
   // Show title screen
   currentScreen = Screen.Title;
@@ -14,6 +14,10 @@ import {
   VIEWHEIGHT,
   STATUSLINES,
 } from "../core/types";
+import type { HighScore } from "../game/highscores";
+import type { LevelTally } from "../game/intermission";
+import type { SaveSlotInfo } from "../game/save";
+import { THUMB_WIDTH, THUMB_HEIGHT } from "../game/save";
 
 // ============================================================
 // Color Constants (ABGR format for ImageData on little-endian)
@@ -93,6 +97,9 @@ const FONT_GLYPHS: Record<string, number[]> = {
   "-": [0b0000, 0b0000, 0b0000, 0b1111, 0b0000, 0b0000],
   "/": [0b0001, 0b0001, 0b0010, 0b0100, 0b1000, 0b1000],
   "!": [0b0010, 0b0010, 0b0010, 0b0010, 0b0000, 0b0010],
+  "?": [0b0110, 0b1001, 0b0010, 0b0100, 0b0000, 0b0100],
+  "'": [0b0010, 0b0010, 0b0000, 0b0000, 0b0000, 0b0000],
+  ",": [0b0000, 0b0000, 0b0000, 0b0000, 0b0010, 0b0100],
 };
 
 /**
@@ -732,6 +739,7 @@ export function drawTitleScreen(pixels: Uint32Array, seed: number): void {
   drawText(pixels, "SPACE/E - USE", 20, ctrlY + 42, ctrlColor);
   drawText(pixels, "SHIFT - RUN", 20, ctrlY + 52, ctrlColor);
   drawText(pixels, "1-4 - WEAPONS", 20, ctrlY + 62, ctrlColor);
+  drawText(pixels, "H - HIGH SCORES", 180, ctrlY + 12, ctrlColor);
 
   // Start prompt
   drawText(pixels, "CLICK TO START", 80, 170, COL_TEXT_YELLOW, 2);
@@ -740,6 +748,85 @@ export function drawTitleScreen(pixels: Uint32Array, seed: number): void {
   drawText(pixels, "SEED: " + String(seed), 100, 190, rgba(80, 80, 80));
 }
 
+/**
+ * Draw the new-game episode picker with the given episode highlighted.
+ */
+export function drawEpisodeMenu(
+  pixels: Uint32Array,
+  names: string[],
+  selected: number,
+): void {
+  pixels.fill(rgba(0, 0, 40));
+
+  drawText(pixels, "WHICH EPISODE TO PLAY?", 16, 20, COL_TEXT_YELLOW, 2);
+
+  const rowH = 20;
+  const y0 = 54;
+  for (let i = 0; i < names.length; i++) {
+    const y = y0 + i * rowH;
+    const isSel = i === selected;
+    if (isSel) fillRect(pixels, 30, y - 4, 260, rowH - 4, rgba(60, 60, 100));
+    drawText(
+      pixels,
+      `EPISODE ${i + 1}: ${names[i]}`,
+      40,
+      y,
+      isSel ? COL_TEXT_YELLOW : COL_TEXT_WHITE,
+    );
+  }
+
+  drawText(
+    pixels,
+    "UP/DOWN SELECT  ENTER START  ESC BACK",
+    16,
+    186,
+    rgba(150, 150, 150),
+  );
+}
+
+/** The classic skill names, indexed by difficulty (GD_*). */
+const DIFFICULTY_NAMES = [
+  "CAN I PLAY, DADDY?",
+  "DON'T HURT ME.",
+  "BRING 'EM ON!",
+  "I AM DEATH INCARNATE!",
+];
+
+/**
+ * Draw the new-game skill picker with the given difficulty highlighted.
+ */
+export function drawDifficultyMenu(
+  pixels: Uint32Array,
+  selected: number,
+): void {
+  pixels.fill(rgba(0, 0, 40));
+
+  drawText(pixels, "HOW TOUGH ARE YOU?", 16, 30, COL_TEXT_YELLOW, 2);
+
+  const rowH = 20;
+  const y0 = 80;
+  for (let i = 0; i < DIFFICULTY_NAMES.length; i++) {
+    const y = y0 + i * rowH;
+    const isSel = i === selected;
+    if (isSel) fillRect(pixels, 50, y - 4, 220, rowH - 4, rgba(60, 60, 100));
+    drawText(
+      pixels,
+      DIFFICULTY_NAMES[i],
+      60,
+      y,
+      isSel ? COL_TEXT_YELLOW : COL_TEXT_WHITE,
+    );
+  }
+
+  drawText(
+    pixels,
+    "UP/DOWN SELECT  ENTER START  ESC BACK",
+    16,
+    186,
+    rgba(150, 150, 150),
+  );
+}
+
 /**
  * Draw the death screen overlay.
  */
@@ -777,92 +864,350 @@ export function drawDeathScreen(
   }
 }
 
+/** Percent a ratio counts up per tic on the intermission screen */
+const TALLY_STEP = 2;
+/** Points the bonus counts up per tic */
+const TALLY_BONUS_STEP = 500;
+/** Tics between one line finishing and the next starting */
+const TALLY_PAUSE = 20;
+
+/** Tics the intermission spends on a tally line that counts up to value. */
+function tallyLineTics(value: number, step: number): number {
+  return Math.ceil(value / step) + TALLY_PAUSE;
+}
+
+/**
+ * Tics the intermission screen takes to count up the whole tally.
+ */
+export function levelTallyTics(tally: LevelTally): number {
+  return (
+    tallyLineTics(tally.killRatio, TALLY_STEP) +
+    tallyLineTics(tally.secretRatio, TALLY_STEP) +
+    tallyLineTics(tally.treasureRatio, TALLY_STEP) +
+    tallyLineTics(tally.timeBonus + tally.ratioBonus, TALLY_BONUS_STEP)
+  );
+}
+
+/** Format seconds as MM:SS. */
+function formatTime(seconds: number): string {
+  const m = Math.min(99, Math.floor(seconds / 60));
+  return (
+    String(m).padStart(2, "0") + ":" + String(seconds % 60).padStart(2, "0")
+  );
+}
+
 /**
- * Draw the level-complete screen.
+ * Draw the intermission screen, with the floor's tally counted up as far as
+ * the given number of tics since it opened. Notes when the floor was left by
+ * its secret elevator.
  */
 export function drawLevelCompleteScreen(
   pixels: Uint32Array,
   gamestate: GameState,
+  tally: LevelTally,
+  elapsed: number,
+  secretFound: boolean,
 ): void {
   pixels.fill(rgba(0, 0, 40));
 
   drawText(pixels, "FLOOR COMPLETED!", 60, 20, COL_TEXT_YELLOW, 2);
 
-  const y0 = 55;
+  const y0 = 50;
   const lineH = 14;
   drawText(
     pixels,
-    "FLOOR: " + String(gamestate.mapon + 1),
+    gamestate.secretlevel
+      ? "SECRET FLOOR"
+      : "FLOOR: " + String(gamestate.mapon + 1),
     60,
     y0,
     COL_TEXT_WHITE,
   );
 
-  // Kill ratio
-  const killPct =
-    gamestate.killtotal > 0
-      ? Math.floor((gamestate.killcount / gamestate.killtotal) * 100)
-      : 100;
-  drawText(
-    pixels,
-    "KILL RATIO: " + String(killPct) + "%",
-    60,
-    y0 + lineH,
-    killPct === 100 ? COL_TEXT_GREEN : COL_TEXT_WHITE,
-  );
+  // Ratios, counted up one after the other
+  let t = elapsed;
+  const ratios: [string, number][] = [
+    ["KILL RATIO: ", tally.killRatio],
+    ["SECRET RATIO: ", tally.secretRatio],
+    ["TREASURE: ", tally.treasureRatio],
+  ];
+  for (let i = 0; i < ratios.length; i++) {
+    const [label, value] = ratios[i];
+    const shown = Math.min(value, Math.max(0, t) * TALLY_STEP);
+    drawText(
+      pixels,
+      label + String(shown) + "%",
+      60,
+      y0 + lineH * (i + 1),
+      shown === 100 ? COL_TEXT_GREEN : COL_TEXT_WHITE,
+    );
+    t -= tallyLineTics(value, TALLY_STEP);
+  }
 
-  // Secret ratio
-  const secretPct =
-    gamestate.secrettotal > 0
-      ? Math.floor((gamestate.secretcount / gamestate.secrettotal) * 100)
-      : 100;
+  // Time against par
   drawText(
     pixels,
-    "SECRET RATIO: " + String(secretPct) + "%",
+    "TIME: " +
+      formatTime(tally.time) +
+      "  PAR: " +
+      (tally.par > 0 ? formatTime(tally.par) : "??:??"),
     60,
-    y0 + lineH * 2,
-    secretPct === 100 ? COL_TEXT_GREEN : COL_TEXT_WHITE,
+    y0 + lineH * 4,
+    tally.timeBonus > 0 ? COL_TEXT_GREEN : COL_TEXT_WHITE,
   );
 
-  // Treasure ratio
-  const treasurePct =
-    gamestate.treasuretotal > 0
-      ? Math.floor((gamestate.treasurecount / gamestate.treasuretotal) * 100)
-      : 100;
+  // Bonus, counted up last
+  const bonus = tally.timeBonus + tally.ratioBonus;
+  const shownBonus = Math.min(bonus, Math.max(0, t) * TALLY_BONUS_STEP);
   drawText(
     pixels,
-    "TREASURE: " + String(treasurePct) + "%",
+    "BONUS: " + String(shownBonus),
     60,
-    y0 + lineH * 3,
-    treasurePct === 100 ? COL_TEXT_GREEN : COL_TEXT_WHITE,
+    y0 + lineH * 5,
+    COL_TEXT_YELLOW,
   );
 
-  // Score
+  if (secretFound) {
+    drawText(
+      pixels,
+      "SECRET ELEVATOR FOUND!",
+      60,
+      y0 + lineH * 6,
+      COL_TEXT_GREEN,
+    );
+  }
+
+  // Score (the bonus is already in it; hold it back until counted)
   drawText(
     pixels,
-    "SCORE: " + String(gamestate.score),
+    "SCORE: " + String(gamestate.score - bonus + shownBonus),
     60,
-    y0 + lineH * 5,
+    y0 + lineH * 7,
     COL_TEXT_YELLOW,
   );
 
-  drawText(pixels, "LOADING NEXT FLOOR...", 60, 160, rgba(150, 150, 150));
+  if (elapsed >= levelTallyTics(tally)) {
+    drawText(
+      pixels,
+      secretFound
+        ? "PRESS A KEY FOR THE SECRET FLOOR"
+        : "PRESS A KEY TO CONTINUE",
+      60,
+      170,
+      rgba(150, 150, 150),
+    );
+  }
 }
 
 /**
- * Draw the victory screen.
+ * Draw the victory screen shown after an episode's boss floor: its ending
+ * text and the score so far.
  */
-export function drawVictoryScreen(pixels: Uint32Array, score: number): void {
+export function drawVictoryScreen(
+  pixels: Uint32Array,
+  score: number,
+  ending: string[],
+  moreEpisodes: boolean,
+): void {
   pixels.fill(rgba(0, 0, 0));
 
-  drawText(pixels, "CONGRATULATIONS!", 40, 30, COL_TEXT_YELLOW, 2);
-  drawText(pixels, "YOU HAVE DEFEATED", 60, 60, COL_TEXT_WHITE);
-  drawText(pixels, "THE NAZI MENACE!", 65, 75, COL_TEXT_WHITE);
+  drawText(pixels, "CONGRATULATIONS!", 40, 20, COL_TEXT_YELLOW, 2);
+  for (let i = 0; i < ending.length; i++) {
+    const x = Math.floor((SCREENWIDTH - ending[i].length * 5) / 2);
+    drawText(pixels, ending[i], x, 48 + i * 12, COL_TEXT_WHITE);
+  }
 
   // Score
-  drawText(pixels, "FINAL SCORE", 85, 110, COL_TEXT_YELLOW, 2);
+  drawText(pixels, "SCORE", 135, 112, COL_TEXT_YELLOW, 2);
   const scoreStr = String(score).padStart(7, "0");
   drawText(pixels, scoreStr, 105, 135, COL_TEXT_WHITE, 2);
 
-  drawText(pixels, "CLICK TO PLAY AGAIN", 70, 175, COL_TEXT_YELLOW);
+  drawText(
+    pixels,
+    moreEpisodes ? "CLICK FOR THE NEXT EPISODE" : "CLICK TO PLAY AGAIN",
+    moreEpisodes ? 95 : 70,
+    175,
+    COL_TEXT_YELLOW,
+  );
+}
+
+/**
+ * Draw the banner shown over the 3D view while a demo plays or records.
+ */
+export function drawDemoOverlay(pixels: Uint32Array, recording: boolean): void {
+  if (recording) {
+    drawText(pixels, "REC", 4, 4, COL_TEXT_RED);
+    return;
+  }
+  drawText(pixels, "DEMO", 136, 8, COL_TEXT_YELLOW, 2);
+  drawText(pixels, "PRESS ANY KEY", 108, 146, COL_TEXT_WHITE);
+}
+
+/**
+ * Draw the save or load menu: one row per slot, with the selected slot's
+ * thumbnail on the right.
+ */
+export function drawSaveLoadMenu(
+  pixels: Uint32Array,
+  title: string,
+  slots: (SaveSlotInfo | null)[],
+  selected: number,
+): void {
+  pixels.fill(rgba(0, 0, 40));
+
+  drawText(pixels, title, 16, 10, COL_TEXT_YELLOW, 2);
+
+  const rowH = 20;
+  const y0 = 36;
+  for (let i = 0; i < slots.length; i++) {
+    const info = slots[i];
+    const y = y0 + i * rowH;
+    const isSel = i === selected;
+
+    if (isSel) fillRect(pixels, 10, y - 3, 196, rowH - 2, rgba(60, 60, 100));
+
+    const color = isSel ? COL_TEXT_YELLOW : COL_TEXT_WHITE;
+    if (!info) {
+      drawText(pixels, `${i + 1}  - EMPTY -`, 14, y, color);
+      continue;
+    }
+    drawText(
+      pixels,
+      `${i + 1}  FLOOR ${info.mapon + 1}  SCORE ${info.score}`,
+      14,
+      y,
+      color,
+    );
+    const when = info.savedAt.slice(0, 16).replace("T", " ");
+    drawText(pixels, when, 29, y + 8, rgba(150, 150, 150));
+  }
+
+  // Thumbnail of the selected slot
+  const tx = 222;
+  const ty = y0 - 3;
+  fillRect(pixels, tx - 2, ty - 2, THUMB_WIDTH + 4, THUMB_HEIGHT + 4, COL_HUD_BORDER);
+  fillRect(pixels, tx, ty, THUMB_WIDTH, THUMB_HEIGHT, rgba(0, 0, 0));
+  const thumb = slots[selected]?.thumbnail;
+  if (thumb) {
+    for (let y = 0; y < THUMB_HEIGHT; y++) {
+      for (let x = 0; x < THUMB_WIDTH; x++) {
+        pixels[(ty + y) * SCREENWIDTH + tx + x] = thumb[y * THUMB_WIDTH + x];
+      }
+    }
+  }
+
+  drawText(
+    pixels,
+    "UP/DOWN SELECT  ENTER CONFIRM  ESC CANCEL",
+    16,
+    186,
+    rgba(150, 150, 150),
+  );
+}
+
+/** Short skill labels for the high score table, indexed by difficulty. */
+const SKILL_LABELS = ["BABY", "EASY", "MED", "HARD"];
+
+/**
+ * Draw a high score table, highlighting the entry at rank (or none if -1).
+ */
+export function drawHighScores(
+  pixels: Uint32Array,
+  subtitle: string,
+  table: HighScore[],
+  rank: number,
+): void {
+  pixels.fill(rgba(0, 0, 40));
+
+  drawText(pixels, "HIGH SCORES", 105, 10, COL_TEXT_YELLOW, 2);
+  const subX = Math.floor((SCREENWIDTH - subtitle.length * 5) / 2);
+  drawText(pixels, subtitle, subX, 30, rgba(150, 150, 150));
+
+  drawText(
+    pixels,
+    "   NAME SCORE    FLOOR SKILL DATE       SEED",
+    10,
+    48,
+    COL_TEXT_ORANGE,
+  );
+
+  const rowH = 16;
+  const y0 = 64;
+  if (table.length === 0) {
+    drawText(pixels, "NO SCORES YET", 128, y0 + rowH * 2, COL_TEXT_WHITE);
+  }
+  for (let i = 0; i < table.length; i++) {
+    const e = table[i];
+    const y = y0 + i * rowH;
+    if (i === rank)
+      fillRect(pixels, 6, y - 4, 308, rowH - 4, rgba(60, 60, 100));
+    drawText(
+      pixels,
+      `${i + 1}  ${e.name.padEnd(3)}  ${String(e.score).padStart(7, "0")}  ` +
+        `E${e.episode + 1}F${e.floor}  ${(SKILL_LABELS[e.difficulty] ?? "").padEnd(4)}  ` +
+        `${e.date} ${e.seed}`,
+      10,
+      y,
+      i === rank ? COL_TEXT_YELLOW : COL_TEXT_WHITE,
+    );
+  }
+
+  drawText(
+    pixels,
+    "LEFT/RIGHT OTHER TABLES  ANY KEY CONTINUE",
+    16,
+    186,
+    rgba(150, 150, 150),
+  );
+}
+
+/**
+ * Draw the arcade-style name entry for a new high score: one slot per
+ * letter, the one being edited underlined.
+ */
+export function drawNameEntry(
+  pixels: Uint32Array,
+  name: string,
+  cursor: number,
+  length: number,
+  score: number,
+): void {
+  pixels.fill(rgba(0, 0, 40));
+
+  drawText(pixels, "YOU GOT A HIGH SCORE!", 55, 30, COL_TEXT_YELLOW, 2);
+  drawText(pixels, "SCORE: " + String(score), 120, 60, COL_TEXT_WHITE);
+  drawText(pixels, "ENTER YOUR INITIALS", 112, 84, rgba(150, 150, 150));
+
+  // Letters at scale 4: 20 pixels per slot plus a gap
+  const slotW = 28;
+  const x0 = Math.floor((SCREENWIDTH - length * slotW) / 2) + 4;
+  const y = 104;
+  for (let i = 0; i < length; i++) {
+    const x = x0 + i * slotW;
+    const ch = name[i] ?? " ";
+    drawText(
+      pixels,
+      ch,
+      x,
+      y,
+      i === cursor ? COL_TEXT_YELLOW : COL_TEXT_WHITE,
+      4,
+    );
+    fillRect(
+      pixels,
+      x - 2,
+      y + 28,
+      20,
+      2,
+      i === cursor ? COL_TEXT_YELLOW : COL_HUD_BORDER,
+    );
+  }
+
+  drawText(
+    pixels,
+    "TYPE OR UP/DOWN  LEFT/RIGHT MOVE  ENTER DONE",
+    10,
+    186,
+    rgba(150, 150, 150),
+  );
 }
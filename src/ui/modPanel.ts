@@ -0,0 +1,80 @@
+/**
+ * Wolfenstein 3D TypeScript Port - Mod Pack Panel
+ *
+ * The small HTML panel over the title screen listing the active mod packs
+ * (see modPack.ts), with buttons to add one from a .zip or a folder and to
+ * remove one. Packs can also be dropped anywhere on the page while it is up.
+ */
+
+export interface ModPanelHandlers {
+  /** A .zip, a picked folder's files, or a drop to read a pack from */
+  add: (source: File | FileList | DataTransfer) => void;
+  remove: (name: string) => void;
+}
+
+let panel: HTMLElement | null = null;
+let list: HTMLElement | null = null;
+let status: HTMLElement | null = null;
+
+/**
+ * Hook up the panel's buttons and page-wide drag and drop.
+ */
+export function setupModPanel(handlers: ModPanelHandlers): void {
+  panel = document.getElementById("mods");
+  list = document.getElementById("mod-list");
+  status = document.getElementById("mod-status");
+
+  const zipInput = document.getElementById("mod-zip") as HTMLInputElement;
+  const folderInput = document.getElementById("mod-folder") as HTMLInputElement;
+  zipInput?.addEventListener("change", () => {
+    const file = zipInput.files?.[0];
+    if (file) handlers.add(file);
+    zipInput.value = "";
+  });
+  folderInput?.addEventListener("change", () => {
+    if (folderInput.files?.length) handlers.add(folderInput.files);
+    folderInput.value = "";
+  });
+
+  list?.addEventListener("click", (e) => {
+    const name = (e.target as HTMLElement).dataset.remove;
+    if (name !== undefined) handlers.remove(name);
+  });
+
+  // Drops are always caught so the browser doesn't leave the game to open
+  // the file, but only taken while the panel (so the title screen) is up
+  window.addEventListener("dragover", (e) => e.preventDefault());
+  window.addEventListener("drop", (e) => {
+    e.preventDefault();
+    if (panel && !panel.hidden && e.dataTransfer) handlers.add(e.dataTransfer);
+  });
+}
+
+/**
+ * Show or hide the panel; it only belongs on the title screen.
+ */
+export function showModPanel(visible: boolean): void {
+  if (panel) panel.hidden = !visible;
+}
+
+/**
+ * List the active packs in the order they are applied, with an optional
+ * status line (e.g. why the last pack failed to load).
+ */
+export function updateModPanel(names: string[], message = ""): void {
+  if (list) {
+    list.replaceChildren(
+      ...names.map((name) => {
+        const item = document.createElement("li");
+        item.textContent = name + " ";
+        const remove = document.createElement("button");
+        remove.textContent = "x";
+        remove.title = `Remove ${name}`;
+        remove.dataset.remove = name;
+        item.append(remove);
+        return item;
+      }),
+    );
+  }
+  if (status) status.textContent = message;
+}